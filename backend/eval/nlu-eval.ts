@@ -0,0 +1,205 @@
+/**
+ * Scoring for the NLU golden corpus: per-intent precision/recall, entity accuracy,
+ * escalation rate and confidence calibration against CONFIDENCE_THRESHOLDS, plus the
+ * comparison against a stored baseline that decides whether a change regressed.
+ */
+
+import { CONFIDENCE_THRESHOLDS } from '../src/common/constants/confidence.constants';
+
+export interface CorpusCase {
+  utterance: string;
+  intent: string;
+  /** Omitted: not scored. null: must be absent. */
+  destination?: string | null;
+  /** Compared order-insensitively. Omitted: not scored. */
+  stops?: string[];
+}
+
+export interface Corpus {
+  version: number;
+  cases: CorpusCase[];
+}
+
+/** What the pipeline answered for one case; `error` when it threw. */
+export interface CaseResult {
+  intent: string;
+  confidence: number;
+  agent?: string;
+  destination?: string | null;
+  stops?: string[];
+  error?: string;
+}
+
+export interface IntentMetrics {
+  support: number;
+  /** null when the intent was never predicted. */
+  precision: number | null;
+  recall: number;
+}
+
+export interface CalibrationBand {
+  band: 'high' | 'medium' | 'low';
+  count: number;
+  /** Fraction of the band whose intent was right; null when empty. */
+  accuracy: number | null;
+  meanConfidence: number | null;
+}
+
+export interface EvalMetrics {
+  corpusVersion: number;
+  cases: number;
+  errors: number;
+  intentAccuracy: number;
+  /** Over cases with the right intent and scored entities. */
+  entityAccuracy: number;
+  escalationRate: number;
+  localRate: number;
+  /** Wrong intents at >= HIGH confidence: these execute without confirmation. */
+  overconfidentRate: number;
+  perIntent: Record<string, IntentMetrics>;
+  calibration: CalibrationBand[];
+}
+
+export interface Baseline {
+  /** Largest allowed drop (or rise, for rates that should stay low) before failing. */
+  tolerance: number;
+  metrics: EvalMetrics;
+}
+
+export interface Mismatch {
+  utterance: string;
+  expected: string;
+  actual: string;
+}
+
+function norm(s: string | null | undefined): string {
+  return (s ?? '').toLowerCase().replace(/[^a-z0-9&\s]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function ratio(n: number, d: number): number {
+  return d ? n / d : 0;
+}
+
+function round(n: number | null): number | null {
+  return n === null ? null : Math.round(n * 1000) / 1000;
+}
+
+function entitiesMatch(expected: CorpusCase, actual: CaseResult): boolean {
+  if (expected.destination !== undefined && norm(expected.destination) !== norm(actual.destination)) return false;
+  if (expected.stops !== undefined) {
+    const want = expected.stops.map(norm).sort();
+    const got = (actual.stops ?? []).map(norm).sort();
+    if (want.length !== got.length || want.some((s, i) => s !== got[i])) return false;
+  }
+  return true;
+}
+
+function bandOf(confidence: number): CalibrationBand['band'] {
+  if (confidence >= CONFIDENCE_THRESHOLDS.HIGH) return 'high';
+  if (confidence >= CONFIDENCE_THRESHOLDS.MEDIUM) return 'medium';
+  return 'low';
+}
+
+export function score(corpus: Corpus, results: CaseResult[]): { metrics: EvalMetrics; mismatches: Mismatch[] } {
+  const intents = new Set<string>(corpus.cases.map((c) => c.intent));
+  const counts = new Map<string, { tp: number; fp: number; fn: number }>();
+  for (const i of intents) counts.set(i, { tp: 0, fp: 0, fn: 0 });
+  const bands = new Map<CalibrationBand['band'], { count: number; correct: number; confidence: number }>(
+    (['high', 'medium', 'low'] as const).map((b) => [b, { count: 0, correct: 0, confidence: 0 }]),
+  );
+  const mismatches: Mismatch[] = [];
+  let correct = 0;
+  let entityScored = 0;
+  let entityCorrect = 0;
+  let overconfident = 0;
+
+  corpus.cases.forEach((c, i) => {
+    const r = results[i];
+    const predicted = r.error ? 'error' : r.intent;
+    const ok = predicted === c.intent;
+    const band = bands.get(bandOf(r.confidence))!;
+    band.count++;
+    band.confidence += r.confidence;
+
+    if (ok) {
+      correct++;
+      band.correct++;
+      counts.get(c.intent)!.tp++;
+      if (c.destination !== undefined || c.stops !== undefined) {
+        entityScored++;
+        if (entitiesMatch(c, r)) entityCorrect++;
+        else mismatches.push({ utterance: c.utterance, expected: JSON.stringify({ destination: c.destination, stops: c.stops }), actual: JSON.stringify({ destination: r.destination, stops: r.stops }) });
+      }
+      return;
+    }
+    counts.get(c.intent)!.fn++;
+    if (counts.has(predicted)) counts.get(predicted)!.fp++;
+    if (r.confidence >= CONFIDENCE_THRESHOLDS.HIGH) overconfident++;
+    mismatches.push({ utterance: c.utterance, expected: c.intent, actual: r.error ? `error: ${r.error}` : predicted });
+  });
+
+  const perIntent: Record<string, IntentMetrics> = {};
+  for (const [intent, { tp, fp, fn }] of [...counts].sort(([a], [b]) => a.localeCompare(b))) {
+    perIntent[intent] = {
+      support: tp + fn,
+      precision: round(tp + fp ? tp / (tp + fp) : null),
+      recall: round(ratio(tp, tp + fn))!,
+    };
+  }
+
+  const n = corpus.cases.length;
+  return {
+    metrics: {
+      corpusVersion: corpus.version,
+      cases: n,
+      errors: results.filter((r) => r.error).length,
+      intentAccuracy: round(ratio(correct, n))!,
+      entityAccuracy: round(ratio(entityCorrect, entityScored))!,
+      escalationRate: round(ratio(results.filter((r) => r.agent === 'advanced').length, n))!,
+      localRate: round(ratio(results.filter((r) => r.agent === 'local').length, n))!,
+      overconfidentRate: round(ratio(overconfident, n))!,
+      perIntent,
+      calibration: [...bands].map(([band, b]) => ({
+        band,
+        count: b.count,
+        accuracy: round(b.count ? b.correct / b.count : null),
+        meanConfidence: round(b.count ? b.confidence / b.count : null),
+      })),
+    },
+    mismatches,
+  };
+}
+
+/**
+ * Metrics that got worse than the baseline by more than `tolerance`. Accuracy-like
+ * metrics may not drop; escalation and overconfidence rates may not rise.
+ */
+export function regressions(current: EvalMetrics, baseline: EvalMetrics, tolerance: number): string[] {
+  const out: string[] = [];
+  const higherIsBetter = (name: string, now: number | null, was: number | null) => {
+    if (now !== null && was !== null && was - now > tolerance) out.push(`${name}: ${was} -> ${now}`);
+  };
+  const lowerIsBetter = (name: string, now: number, was: number) => {
+    if (now - was > tolerance) out.push(`${name}: ${was} -> ${now}`);
+  };
+
+  if (current.corpusVersion !== baseline.corpusVersion) {
+    out.push(`corpus version ${current.corpusVersion} does not match baseline ${baseline.corpusVersion}; update the baseline`);
+    return out;
+  }
+  higherIsBetter('intentAccuracy', current.intentAccuracy, baseline.intentAccuracy);
+  higherIsBetter('entityAccuracy', current.entityAccuracy, baseline.entityAccuracy);
+  lowerIsBetter('escalationRate', current.escalationRate, baseline.escalationRate);
+  lowerIsBetter('overconfidentRate', current.overconfidentRate, baseline.overconfidentRate);
+  for (const [intent, m] of Object.entries(baseline.perIntent)) {
+    const now = current.perIntent[intent];
+    if (!now) continue;
+    higherIsBetter(`${intent}.precision`, now.precision, m.precision);
+    higherIsBetter(`${intent}.recall`, now.recall, m.recall);
+  }
+  for (const b of baseline.calibration) {
+    const now = current.calibration.find((x) => x.band === b.band);
+    if (now) higherIsBetter(`calibration.${b.band}.accuracy`, now.accuracy, b.accuracy);
+  }
+  return out;
+}
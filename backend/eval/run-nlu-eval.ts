@@ -0,0 +1,101 @@
+/**
+ * Run the golden corpus through the NLU pipeline and compare against the baseline.
+ *
+ *   npm run eval:nlu                      # fixture agents (canned parses + local grammar)
+ *   npm run eval:nlu -- --live            # configured LLM providers (LLM_FAST_PROVIDER, ...)
+ *   npm run eval:nlu -- --update-baseline # accept the current metrics
+ *
+ * Options: --corpus <file>, --baseline <file>, --tolerance <0..1>, --verbose.
+ * Exits 1 when a metric regressed past the tolerance.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { ConfigService } from '@nestjs/config';
+import { CacheService } from '../src/modules/cache/cache.service';
+import { ConfidenceRouterService } from '../src/modules/nlu/confidence-router.service';
+import { ConversationContextService } from '../src/modules/nlu/conversation-context.service';
+import { FixtureGeminiAdvancedService, FixtureGeminiFastService } from '../src/modules/nlu/fixture-gemini.service';
+import { GeminiAdvancedService } from '../src/modules/nlu/gemini-advanced.service';
+import { GeminiFastService } from '../src/modules/nlu/gemini-fast.service';
+import { NluService } from '../src/modules/nlu/nlu.service';
+import { regressions, score, type Baseline, type CaseResult, type Corpus } from './nlu-eval';
+
+const DEFAULT_TOLERANCE = 0.02;
+
+function option(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+function flag(name: string): boolean {
+  return process.argv.includes(`--${name}`);
+}
+
+function buildNlu(live: boolean): NluService {
+  if (live && existsSync(join(__dirname, '../.env'))) process.loadEnvFile(join(__dirname, '../.env'));
+  const config = new ConfigService({ ...process.env, FIXTURE_MODE: live ? 'false' : 'true', NLU_LOCAL_FIRST: 'false' });
+  return new NluService(
+    live ? new GeminiFastService(config) : new FixtureGeminiFastService(config),
+    live ? new GeminiAdvancedService(config) : new FixtureGeminiAdvancedService(config),
+    new ConfidenceRouterService(config),
+    new ConversationContextService(new CacheService(new ConfigService({}))),
+    config,
+  );
+}
+
+async function run(nlu: NluService, corpus: Corpus): Promise<CaseResult[]> {
+  const results: CaseResult[] = [];
+  for (const c of corpus.cases) {
+    try {
+      const res = await nlu.parse(c.utterance);
+      results.push({
+        intent: res.intent,
+        confidence: res.confidence,
+        agent: res.agent,
+        destination: typeof res.entities.destination === 'string' ? res.entities.destination : null,
+        stops: Array.isArray(res.entities.stops) ? res.entities.stops.map(String) : [],
+      });
+    } catch (e) {
+      const code = (e as { response?: { error?: { code?: string } } }).response?.error?.code;
+      results.push({ intent: 'error', confidence: 0, error: code ?? (e instanceof Error ? e.message : String(e)) });
+    }
+  }
+  return results;
+}
+
+async function main() {
+  const live = flag('live');
+  const corpusPath = option('corpus') ?? join(__dirname, 'nlu-corpus.json');
+  const baselinePath = option('baseline') ?? join(__dirname, 'baselines', `nlu-${live ? 'live' : 'fixture'}.json`);
+  const corpus = JSON.parse(readFileSync(corpusPath, 'utf8')) as Corpus;
+
+  const { metrics, mismatches } = score(corpus, await run(buildNlu(live), corpus));
+  console.log(JSON.stringify(metrics, null, 2));
+  if (flag('verbose')) for (const m of mismatches) console.log(`MISMATCH "${m.utterance}": expected ${m.expected}, got ${m.actual}`);
+
+  const stored = existsSync(baselinePath) ? (JSON.parse(readFileSync(baselinePath, 'utf8')) as Baseline) : undefined;
+  const tolerance = Number(option('tolerance') ?? stored?.tolerance ?? DEFAULT_TOLERANCE);
+
+  if (flag('update-baseline')) {
+    writeFileSync(baselinePath, `${JSON.stringify({ tolerance, metrics }, null, 2)}\n`);
+    console.log(`Baseline written to ${baselinePath}`);
+    return;
+  }
+  if (!stored) {
+    console.log(`No baseline at ${baselinePath}; run with --update-baseline to create one.`);
+    return;
+  }
+  const failed = regressions(metrics, stored.metrics, tolerance);
+  if (failed.length) {
+    console.error(`NLU eval regressed (tolerance ${tolerance}):\n  ${failed.join('\n  ')}`);
+    process.exitCode = 1;
+  } else {
+    console.log(`No regressions against ${baselinePath} (tolerance ${tolerance}).`);
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exitCode = 1;
+});
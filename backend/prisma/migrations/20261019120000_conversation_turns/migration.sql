@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "conversation_history" ADD COLUMN     "agent" TEXT,
+ADD COLUMN     "conversation_id" TEXT,
+ADD COLUMN     "route_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "conversation_history_user_id_conversation_id_idx" ON "conversation_history"("user_id", "conversation_id");
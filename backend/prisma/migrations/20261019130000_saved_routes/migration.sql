@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "routes" ADD COLUMN     "destination_name" TEXT,
+ADD COLUMN     "plan" JSONB,
+ADD COLUMN     "request" JSONB;
+
+-- CreateIndex
+CREATE INDEX "routes_user_id_created_at_idx" ON "routes"("user_id", "created_at");
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "errand_templates" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "destination_anchor_id" TEXT,
+    "destination_name" TEXT NOT NULL,
+    "stops" JSONB NOT NULL,
+    "preferences" JSONB,
+    "recurrence" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "errand_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "errand_templates_user_id_name_key" ON "errand_templates"("user_id", "name");
+
+-- AddForeignKey
+ALTER TABLE "errand_templates" ADD CONSTRAINT "errand_templates_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "errand_templates" ADD CONSTRAINT "errand_templates_destination_anchor_id_fkey" FOREIGN KEY ("destination_anchor_id") REFERENCES "anchors"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "places" ADD COLUMN     "last_served_at" TIMESTAMP(3);
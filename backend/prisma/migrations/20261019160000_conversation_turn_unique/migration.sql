@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE UNIQUE INDEX "conversation_history_user_id_conversation_id_turn_key" ON "conversation_history"("user_id", "conversation_id", "turn");
@@ -3,6 +3,7 @@ import { ConfigModule } from '@nestjs/config';
 import { AppController } from './app.controller';
 import { envValidation } from './config/env.validation';
 import { CacheModule } from './modules/cache/cache.module';
+import { CassetteModule } from './modules/cassette/cassette.module';
 import { ErrandModule } from './modules/errand/errand.module';
 import { NluModule } from './modules/nlu/nlu.module';
 import { QueueModule } from './modules/queue/queue.module';
@@ -18,7 +19,8 @@ import { PrismaModule } from './prisma/prisma.module';
     }),
     PrismaModule,
     CacheModule,
-    QueueModule,
+    CassetteModule,
+    QueueModule.whenConfigured(),
     ErrandModule,
     NluModule,
     UserModule,
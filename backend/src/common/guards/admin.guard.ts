@@ -0,0 +1,26 @@
+import { CanActivate, ExecutionContext, HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Request } from 'express';
+
+/**
+ * Admin-only endpoints; use after AuthGuard. The user (JWT `sub`) must be listed in
+ * ADMIN_USERS (comma-separated). Without JWT_SECRET, like AuthGuard, everyone passes.
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  constructor(private config: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    if (!this.config.get<string>('JWT_SECRET')) return true;
+    const req = context.switchToHttp().getRequest<Request & { user?: { sub: string } }>();
+    const admins = (this.config.get<string>('ADMIN_USERS') ?? '')
+      .split(',')
+      .map((s) => s.trim())
+      .filter(Boolean);
+    if (req.user && admins.includes(req.user.sub)) return true;
+    throw new HttpException(
+      { error: { code: 'FORBIDDEN', message: 'Admin access required' } },
+      HttpStatus.FORBIDDEN,
+    );
+  }
+}
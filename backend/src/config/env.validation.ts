@@ -1,5 +1,5 @@
 import { plainToClass } from 'class-transformer';
-import { IsNumber, IsOptional, IsString, validateSync } from 'class-validator';
+import { IsIn, IsInt, IsJSON, IsNumber, IsOptional, IsString, Min, validateSync } from 'class-validator';
 
 class EnvDto {
   @IsString()
@@ -9,6 +9,11 @@ class EnvDto {
   @IsString()
   REDIS_URL?: string;
 
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  CACHE_MEMORY_MAX_ENTRIES?: number;
+
   @IsOptional()
   @IsString()
   GOOGLE_MAPS_API_KEY?: string;
@@ -17,6 +22,18 @@ class EnvDto {
   @IsString()
   GOOGLE_PLACES_API_KEY?: string;
 
+  @IsOptional()
+  @IsIn(['google', 'osrm'])
+  ROUTING_PROVIDER?: string;
+
+  @IsOptional()
+  @IsString()
+  OSRM_BASE_URL?: string;
+
+  @IsOptional()
+  @IsString()
+  OSRM_PROFILE?: string;
+
   @IsOptional()
   @IsString()
   GEMINI_API_KEY?: string;
@@ -29,6 +46,62 @@ class EnvDto {
   @IsString()
   GEMINI_ADVANCED_MODEL?: string;
 
+  @IsOptional()
+  @IsIn(['gemini', 'openai', 'local'])
+  LLM_FAST_PROVIDER?: string;
+
+  @IsOptional()
+  @IsIn(['gemini', 'openai', 'local'])
+  LLM_ADVANCED_PROVIDER?: string;
+
+  @IsOptional()
+  @IsString()
+  OPENAI_BASE_URL?: string;
+
+  @IsOptional()
+  @IsString()
+  OPENAI_API_KEY?: string;
+
+  @IsOptional()
+  @IsString()
+  OPENAI_FAST_MODEL?: string;
+
+  @IsOptional()
+  @IsString()
+  OPENAI_ADVANCED_MODEL?: string;
+
+  @IsOptional()
+  @IsString()
+  LOCAL_LLM_BASE_URL?: string;
+
+  @IsOptional()
+  @IsString()
+  LOCAL_LLM_FAST_MODEL?: string;
+
+  @IsOptional()
+  @IsString()
+  LOCAL_LLM_ADVANCED_MODEL?: string;
+
+  @IsOptional()
+  @IsIn(['true', 'false'])
+  FIXTURE_MODE?: string;
+
+  @IsOptional()
+  @IsIn(['off', 'record', 'replay'])
+  CASSETTE_MODE?: string;
+
+  @IsOptional()
+  @IsString()
+  CASSETTE_DIR?: string;
+
+  @IsOptional()
+  @IsIn(['true', 'false'])
+  NLU_LOCAL_FIRST?: string;
+
+  @IsOptional()
+  @IsJSON()
+  NLU_CONFIDENCE_POLICY?: string;
+
   @IsOptional()
   @IsNumber()
   PORT?: number;
@@ -40,6 +113,10 @@ class EnvDto {
   @IsOptional()
   @IsString()
   JWT_SECRET?: string;
+
+  @IsOptional()
+  @IsString()
+  ADMIN_USERS?: string;
 }
 
 export function envValidation(config: Record<string, unknown>) {
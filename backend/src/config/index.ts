@@ -2,4 +2,6 @@ export { envValidation } from './env.validation';
 export { getDatabaseConfig } from './database.config';
 export { getRedisConfig } from './redis.config';
 export { getGoogleConfig } from './google.config';
+export { getRoutingConfig } from './routing.config';
 export { getGeminiConfig } from './gemini.config';
+export { getLlmConfig } from './llm.config';
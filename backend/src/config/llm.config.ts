@@ -0,0 +1,8 @@
+export function getLlmConfig() {
+  return {
+    fastProvider: process.env.LLM_FAST_PROVIDER ?? 'gemini',
+    advancedProvider: process.env.LLM_ADVANCED_PROVIDER ?? 'gemini',
+    openaiBaseUrl: process.env.OPENAI_BASE_URL ?? 'https://api.openai.com/v1',
+    localBaseUrl: process.env.LOCAL_LLM_BASE_URL ?? 'http://localhost:11434',
+  };
+}
@@ -0,0 +1,7 @@
+export function getRoutingConfig() {
+  return {
+    provider: process.env.ROUTING_PROVIDER ?? 'google',
+    osrmBaseUrl: process.env.OSRM_BASE_URL ?? 'http://localhost:5000',
+    osrmProfile: process.env.OSRM_PROFILE ?? 'driving',
+  };
+}
@@ -0,0 +1,9 @@
+import type { ConfigService } from '@nestjs/config';
+
+/**
+ * FIXTURE_MODE=true swaps Google Maps, Places and Gemini for the offline
+ * synthetic-city providers, so the app runs without network or API keys.
+ */
+export function isFixtureMode(config: ConfigService): boolean {
+  return config.get<string>('FIXTURE_MODE') === 'true';
+}
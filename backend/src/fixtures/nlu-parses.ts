@@ -0,0 +1,71 @@
+/**
+ * Canned Gemini parses for fixture mode, keyed by normalized utterance
+ * (see normalizeUtterance). Destinations and stops resolve against Riverton.
+ */
+
+import type { AdvancedAgentResult } from '../modules/nlu/gemini-advanced.service';
+import type { FastAgentResult } from '../modules/nlu/gemini-fast.service';
+
+export function normalizeUtterance(utterance: string): string {
+  return utterance
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export const FAST_PARSES: Record<string, FastAgentResult> = {
+  'take me home': { intent: 'navigate_direct', destination: 'home', stops: [], confidence: 0.96, requires_advanced: false },
+  'take me to work': { intent: 'navigate_direct', destination: 'work', stops: [], confidence: 0.95, requires_advanced: false },
+  'navigate to downtown': { intent: 'navigate_direct', destination: 'downtown', stops: [], confidence: 0.93, requires_advanced: false },
+  'take me home with a stop for coffee': {
+    intent: 'navigate_with_stops',
+    destination: 'home',
+    stops: ['coffee'],
+    confidence: 0.93,
+    requires_advanced: false,
+  },
+  'i need gas and groceries on the way to work': {
+    intent: 'navigate_with_stops',
+    destination: 'work',
+    stops: ['gas', 'groceries'],
+    confidence: 0.91,
+    requires_advanced: false,
+  },
+  'pick up my prescription and get coffee before work': {
+    intent: 'navigate_with_stops',
+    destination: 'work',
+    stops: ['pharmacy', 'coffee'],
+    confidence: 0.88,
+    requires_advanced: false,
+  },
+  'find a coffee shop': { intent: 'find_place', destination: 'coffee shop', stops: [], confidence: 0.9, requires_advanced: false },
+  'add a stop at the bank': { intent: 'add_stop', destination: null, stops: ['bank'], confidence: 0.9, requires_advanced: false },
+  'remove the gas stop': { intent: 'remove_stop', destination: null, stops: ['gas'], confidence: 0.87, requires_advanced: false },
+  'what can i stop at on the way': { intent: 'get_suggestions', destination: null, stops: [], confidence: 0.82, requires_advanced: false },
+  yes: { intent: 'confirm', destination: null, stops: [], confidence: 0.98, requires_advanced: false },
+  no: { intent: 'deny', destination: null, stops: [], confidence: 0.98, requires_advanced: false },
+  cancel: { intent: 'cancel', destination: null, stops: [], confidence: 0.97, requires_advanced: false },
+  'the usual': { intent: 'unknown', destination: null, stops: [], confidence: 0.3, requires_advanced: true },
+  'somewhere nice on the way home': { intent: 'get_suggestions', destination: 'home', stops: [], confidence: 0.55, requires_advanced: true },
+};
+
+/** Advanced-agent answers for utterances the fast parse escalates. */
+export const ADVANCED_PARSES: Record<string, AdvancedAgentResult> = {
+  'the usual': {
+    intent: 'navigate_with_stops',
+    destination: 'work',
+    stops: ['coffee'],
+    confidence: 0.72,
+    disambiguation_needed: true,
+    reasoning: 'No history available; assumed the common weekday coffee-then-work errand.',
+  },
+  'somewhere nice on the way home': {
+    intent: 'get_suggestions',
+    destination: 'home',
+    stops: ['cafe'],
+    confidence: 0.8,
+    disambiguation_needed: false,
+    reasoning: '"Somewhere nice" most often means a highly rated cafe.',
+  },
+};
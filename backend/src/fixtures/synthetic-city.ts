@@ -0,0 +1,171 @@
+/**
+ * Riverton: a small synthetic city served by the fixture providers (FIXTURE_MODE=true).
+ *
+ * An 8x8 street grid, 600 m between intersections. Main St (row 3) and Central Ave
+ * (column 3) are 50 km/h arterials, everything else is 30 km/h. The river between
+ * rows 4 and 5 can only be crossed on the Birch Ave and Grove Ave bridges, so home
+ * (south) to work (north) is never a straight line.
+ */
+
+import type { Coordinates } from '../common/types';
+import type { OpeningHours } from '../modules/places/opening-hours';
+
+export const CITY_NAME = 'Riverton';
+
+const SW_CORNER: Coordinates = { lat: 37.74, lng: -122.46 };
+const GRID_SIZE = 8;
+const BLOCK_M = 600;
+const M_PER_DEG_LAT = 111320;
+const M_PER_DEG_LNG = M_PER_DEG_LAT * Math.cos((SW_CORNER.lat * Math.PI) / 180);
+
+/** Rows, south to north. */
+const STREETS = ['1st St', '2nd St', '3rd St', 'Main St', 'River Rd', 'Park St', 'Market St', 'Hill St'];
+/** Columns, west to east. */
+const AVENUES = ['Ash Ave', 'Birch Ave', 'Cedar Ave', 'Central Ave', 'Elm Ave', 'Fir Ave', 'Grove Ave', 'Holly Ave'];
+
+const ARTERIAL_ROW = 3;
+const ARTERIAL_COL = 3;
+const ARTERIAL_KPH = 50;
+const LOCAL_KPH = 30;
+/** The river runs between these two rows; only BRIDGE_COLS cross it. */
+const RIVER_SOUTH_ROW = 4;
+const BRIDGE_COLS = [1, 6];
+
+const UTC_OFFSET_MIN = -420;
+
+export interface RoadEdge {
+  from: number;
+  to: number;
+  distanceM: number;
+  durationMin: number;
+}
+
+export interface FixturePlace {
+  placeId: string;
+  name: string;
+  address: string;
+  location: Coordinates;
+  types: string[];
+  /** Extra words that should match a text search, e.g. "coffee" for a cafe. */
+  keywords: string[];
+  rating: number;
+  reviewCount: number;
+  openingHours: OpeningHours;
+}
+
+export function intersection(row: number, col: number): Coordinates {
+  return {
+    lat: SW_CORNER.lat + (row * BLOCK_M) / M_PER_DEG_LAT,
+    lng: SW_CORNER.lng + (col * BLOCK_M) / M_PER_DEG_LNG,
+  };
+}
+
+function intersectionAddress(row: number, col: number): string {
+  return `${STREETS[row]} & ${AVENUES[col]}, ${CITY_NAME}`;
+}
+
+function nodeId(row: number, col: number): number {
+  return row * GRID_SIZE + col;
+}
+
+/** Intersections, indexed row * 8 + col. */
+export const ROAD_NODES: Coordinates[] = Array.from({ length: GRID_SIZE * GRID_SIZE }, (_, i) =>
+  intersection(Math.floor(i / GRID_SIZE), i % GRID_SIZE),
+);
+
+/** Directed edges (both directions are listed). */
+export const ROAD_EDGES: RoadEdge[] = (() => {
+  const edges: RoadEdge[] = [];
+  const add = (a: number, b: number, kph: number) => {
+    const durationMin = BLOCK_M / ((kph * 1000) / 60);
+    edges.push({ from: a, to: b, distanceM: BLOCK_M, durationMin }, { from: b, to: a, distanceM: BLOCK_M, durationMin });
+  };
+  for (let row = 0; row < GRID_SIZE; row++) {
+    for (let col = 0; col < GRID_SIZE; col++) {
+      if (col + 1 < GRID_SIZE) add(nodeId(row, col), nodeId(row, col + 1), row === ARTERIAL_ROW ? ARTERIAL_KPH : LOCAL_KPH);
+      if (row + 1 < GRID_SIZE) {
+        if (row === RIVER_SOUTH_ROW && !BRIDGE_COLS.includes(col)) continue;
+        add(nodeId(row, col), nodeId(row + 1, col), col === ARTERIAL_COL ? ARTERIAL_KPH : LOCAL_KPH);
+      }
+    }
+  }
+  return edges;
+})();
+
+function daily(open: string, close: string): OpeningHours {
+  return {
+    periods: [0, 1, 2, 3, 4, 5, 6].map((day) => ({ open: { day, time: open }, close: { day, time: close } })),
+    utcOffsetMin: UTC_OFFSET_MIN,
+  };
+}
+
+function weekdays(open: string, close: string): OpeningHours {
+  return {
+    periods: [1, 2, 3, 4, 5].map((day) => ({ open: { day, time: open }, close: { day, time: close } })),
+    utcOffsetMin: UTC_OFFSET_MIN,
+  };
+}
+
+function allDay(): OpeningHours {
+  return { periods: [{ open: { day: 0, time: '0000' } }], utcOffsetMin: UTC_OFFSET_MIN };
+}
+
+function place(
+  placeId: string,
+  name: string,
+  row: number,
+  col: number,
+  types: string[],
+  keywords: string[],
+  rating: number,
+  reviewCount: number,
+  openingHours: OpeningHours,
+): FixturePlace {
+  return { placeId, name, address: intersectionAddress(row, col), location: intersection(row, col), types, keywords, rating, reviewCount, openingHours };
+}
+
+export const PLACES: FixturePlace[] = [
+  place('fx_cafe_bean', 'Bean There Coffee', 2, 3, ['cafe', 'food'], ['coffee', 'espresso', 'latte'], 4.6, 312, daily('0600', '1800')),
+  place('fx_cafe_grind', 'Daily Grind', 5, 6, ['cafe', 'food'], ['coffee', 'espresso'], 4.3, 128, daily('0700', '2000')),
+  place('fx_cafe_north', 'Northside Roasters', 7, 2, ['cafe', 'food'], ['coffee', 'roastery'], 4.8, 540, daily('0700', '1500')),
+  place('fx_gas_quickfill', 'QuickFill Gas', 3, 1, ['gas_station'], ['gas', 'fuel', 'petrol'], 3.9, 87, allDay()),
+  place('fx_gas_metro', 'Metro Fuel', 5, 5, ['gas_station', 'convenience_store'], ['gas', 'fuel', 'petrol'], 4.1, 64, daily('0500', '2300')),
+  place('fx_grocery_fresh', 'FreshMart', 4, 4, ['grocery_or_supermarket', 'supermarket'], ['grocery', 'groceries', 'food'], 4.2, 410, daily('0700', '2200')),
+  place('fx_grocery_green', 'Green Basket Market', 6, 2, ['grocery_or_supermarket'], ['grocery', 'groceries', 'produce'], 4.5, 233, daily('0800', '2000')),
+  place('fx_pharmacy_main', 'Main Street Pharmacy', 3, 3, ['pharmacy', 'health'], ['drugstore', 'prescription', 'medicine'], 4.0, 95, weekdays('0900', '1800')),
+  place('fx_pharmacy_care', 'CarePlus Pharmacy', 5, 7, ['pharmacy', 'health'], ['drugstore', 'prescription', 'medicine'], 4.4, 151, daily('0800', '2200')),
+  place('fx_bank_river', 'River City Bank', 4, 2, ['bank', 'atm', 'finance'], ['cash', 'deposit'], 3.8, 42, weekdays('0900', '1700')),
+  place('fx_atm_corner', 'Corner ATM', 5, 4, ['atm', 'finance'], ['cash'], 3.5, 12, allDay()),
+  place('fx_post_office', 'Riverton Post Office', 2, 5, ['post_office'], ['mail', 'package', 'stamps'], 3.7, 58, weekdays('0830', '1700')),
+  place('fx_dry_cleaner', 'Pressed Dry Cleaning', 4, 6, ['laundry'], ['dry', 'cleaner', 'cleaners', 'cleaning'], 4.4, 77, weekdays('0730', '1900')),
+  place('fx_hardware', 'Handy Hardware', 1, 6, ['hardware_store', 'home_goods_store'], ['tools', 'paint'], 4.7, 189, daily('0800', '1900')),
+];
+
+/** Named locations the fixture geocoder resolves, in addition to place names and intersections. */
+export const LANDMARKS: Array<{ names: string[]; address: string; location: Coordinates }> = [
+  { names: ['home'], address: `12 ${STREETS[1]}, ${CITY_NAME}`, location: intersection(1, 2) },
+  { names: ['work', 'office'], address: `600 ${STREETS[6]}, ${CITY_NAME}`, location: intersection(6, 5) },
+  { names: ['downtown', 'city center'], address: intersectionAddress(ARTERIAL_ROW, ARTERIAL_COL), location: intersection(ARTERIAL_ROW, ARTERIAL_COL) },
+  { names: ['gym'], address: `220 ${AVENUES[0]}, ${CITY_NAME}`, location: intersection(6, 0) },
+];
+
+/** "Main St & Central Ave" (either order, optional city suffix) → intersection. */
+export function findIntersection(text: string): { address: string; location: Coordinates } | null {
+  const parts = text
+    .toLowerCase()
+    .replace(new RegExp(`,\\s*${CITY_NAME.toLowerCase()}$`), '')
+    .split(/\s*(?:&|\band\b)\s*/);
+  if (parts.length !== 2) return null;
+  const row = STREETS.findIndex((s) => parts.includes(s.toLowerCase()));
+  const col = AVENUES.findIndex((a) => parts.includes(a.toLowerCase()));
+  if (row < 0 || col < 0) return null;
+  return { address: intersectionAddress(row, col), location: intersection(row, col) };
+}
+
+/** Closest intersection address, for reverse geocoding. */
+export function nearestAddress(location: Coordinates): string {
+  const row = Math.round(((location.lat - SW_CORNER.lat) * M_PER_DEG_LAT) / BLOCK_M);
+  const col = Math.round(((location.lng - SW_CORNER.lng) * M_PER_DEG_LNG) / BLOCK_M);
+  const clamp = (v: number) => Math.max(0, Math.min(GRID_SIZE - 1, v));
+  return intersectionAddress(clamp(row), clamp(col));
+}
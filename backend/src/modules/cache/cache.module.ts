@@ -1,9 +1,13 @@
 import { Global, Module } from '@nestjs/common';
+import { AdminGuard } from '../../common/guards/admin.guard';
+import { AuthGuard } from '../../common/guards/auth.guard';
 import { CacheService } from './cache.service';
+import { CacheAdminController } from './controllers/cache-admin.controller';
 
 @Global()
 @Module({
-  providers: [CacheService],
+  controllers: [CacheAdminController],
+  providers: [CacheService, AuthGuard, AdminGuard],
   exports: [CacheService],
 })
 export class CacheModule {}
@@ -1,6 +1,8 @@
 import { Injectable, OnModuleDestroy } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import Redis from 'ioredis';
+import { activeCassette } from '../cassette/cassette';
+import { MemoryCache, type MemoryCacheStats } from './memory-cache';
 
 export const CACHE_TTL = {
   ROUTE_SEC: 3600,       // 1 hour
@@ -8,14 +10,35 @@ export const CACHE_TTL = {
   GEOCODE_SEC: 604800,   // 7 days
   ANCHOR_SEC: 2592000,   // 30 days
   DISAMBIGUATE_SEC: 1209600, // 14 days
+  CONVERSATION_SEC: 1800, // 30 minutes
 } as const;
 
+/** Fallback entries kept when CACHE_MEMORY_MAX_ENTRIES is unset. */
+const DEFAULT_MEMORY_MAX_ENTRIES = 10000;
+
+/** How often expired fallback entries are dropped without waiting for a read. */
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export interface CacheStats {
+  /** Where reads and writes go right now. */
+  backend: 'redis' | 'memory';
+  /** ioredis connection status; absent when REDIS_URL is unset. */
+  redisStatus?: string;
+  memory: MemoryCacheStats;
+}
+
 @Injectable()
 export class CacheService implements OnModuleDestroy {
   private redis: Redis | null = null;
-  private fallback = new Map<string, { v: string; exp: number }>();
+  private fallback: MemoryCache;
+  private sweeper: NodeJS.Timeout;
 
   constructor(private config: ConfigService) {
+    this.fallback = new MemoryCache(
+      Number(this.config.get('CACHE_MEMORY_MAX_ENTRIES')) || DEFAULT_MEMORY_MAX_ENTRIES,
+    );
+    this.sweeper = setInterval(() => this.fallback.sweep(), SWEEP_INTERVAL_MS);
+    this.sweeper.unref();
     const url = this.config.get<string>('REDIS_URL');
     if (url) {
       try {
@@ -28,25 +51,36 @@ export class CacheService implements OnModuleDestroy {
   }
 
   async onModuleDestroy() {
+    clearInterval(this.sweeper);
     if (this.redis) await this.redis.quit();
   }
 
+  /** For GET /admin/cache/stats: the in-memory fallback's size and per-prefix counters. */
+  stats(): CacheStats {
+    return {
+      backend: this.redis?.status === 'ready' ? 'redis' : 'memory',
+      redisStatus: this.redis?.status,
+      memory: this.fallback.snapshot(),
+    };
+  }
+
   async get<T>(key: string): Promise<T | null> {
+    // Under record/replay every outbound call must go through the cassette, so skip the cache.
+    if (activeCassette()) return null;
     if (this.redis) {
       try {
         const s = await this.redis.get(key);
-        if (s) return JSON.parse(s) as T;
+        return s ? (JSON.parse(s) as T) : null;
       } catch {
         // fall through to fallback
       }
     }
-    const e = this.fallback.get(key);
-    if (e && e.exp > Date.now()) return JSON.parse(e.v) as T;
-    if (e) this.fallback.delete(key);
-    return null;
+    const s = this.fallback.get(key);
+    return s ? (JSON.parse(s) as T) : null;
   }
 
   async set(key: string, value: unknown, ttlSeconds?: number): Promise<void> {
+    if (activeCassette()) return;
     const s = JSON.stringify(value);
     if (this.redis) {
       try {
@@ -58,7 +92,7 @@ export class CacheService implements OnModuleDestroy {
       }
     }
     const exp = ttlSeconds ? Date.now() + ttlSeconds * 1000 : Infinity;
-    this.fallback.set(key, { v: s, exp });
+    this.fallback.set(key, s, exp);
   }
 
   async delete(key: string): Promise<void> {
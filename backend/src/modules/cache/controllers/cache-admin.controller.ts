@@ -0,0 +1,16 @@
+import { Controller, Get, UseGuards } from '@nestjs/common';
+import { AdminGuard } from '../../../common/guards/admin.guard';
+import { AuthGuard } from '../../../common/guards/auth.guard';
+import { CacheService } from '../cache.service';
+
+@Controller('admin/cache')
+@UseGuards(AuthGuard, AdminGuard)
+export class CacheAdminController {
+  constructor(private readonly cache: CacheService) {}
+
+  /** Which backend is serving, and the in-memory fallback's size and hit/miss/eviction counters per key prefix. */
+  @Get('stats')
+  stats() {
+    return this.cache.stats();
+  }
+}
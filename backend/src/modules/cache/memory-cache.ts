@@ -0,0 +1,105 @@
+/** Lookups, evictions and expiries for one key prefix ("route:", "geocode:", ...). */
+export interface PrefixStats {
+  hits: number;
+  misses: number;
+  /** Dropped to stay under the size cap, least recently used first. */
+  evictions: number;
+  /** Dropped because their TTL ran out, on read or by sweep(). */
+  expired: number;
+  entries: number;
+}
+
+export interface MemoryCacheStats {
+  entries: number;
+  maxEntries: number;
+  byPrefix: Record<string, PrefixStats>;
+}
+
+/** "route:google:1:2:…" → "route:"; keys without a colon count under "other". */
+export function keyPrefix(key: string): string {
+  const i = key.indexOf(':');
+  return i > 0 ? key.slice(0, i + 1) : 'other';
+}
+
+/**
+ * LRU map of JSON strings with per-entry expiry, capped at `maxEntries`: CacheService's
+ * store while Redis is unset or unreachable.
+ */
+export class MemoryCache {
+  /** Map iteration order is insertion order: the first key is the least recently used. */
+  private readonly entries = new Map<string, { v: string; exp: number }>();
+  private readonly stats = new Map<string, PrefixStats>();
+
+  readonly maxEntries: number;
+
+  /** At least one entry: set() evicts until there is room, which a cap below 1 never leaves. */
+  constructor(maxEntries: number) {
+    this.maxEntries = Math.max(1, Math.floor(maxEntries));
+  }
+
+  get(key: string, now = Date.now()): string | null {
+    const s = this.statsFor(key);
+    const e = this.entries.get(key);
+    if (e && e.exp <= now) {
+      this.drop(key);
+      s.expired++;
+    } else if (e) {
+      this.entries.delete(key);
+      this.entries.set(key, e);
+      s.hits++;
+      return e.v;
+    }
+    s.misses++;
+    return null;
+  }
+
+  set(key: string, v: string, exp: number): void {
+    if (this.entries.has(key)) this.drop(key);
+    while (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.drop(oldest);
+      this.statsFor(oldest).evictions++;
+    }
+    this.entries.set(key, { v, exp });
+    this.statsFor(key).entries++;
+  }
+
+  delete(key: string): void {
+    if (this.entries.has(key)) this.drop(key);
+  }
+
+  /** Remove every expired entry; returns how many went. */
+  sweep(now = Date.now()): number {
+    let n = 0;
+    for (const [key, e] of this.entries) {
+      if (e.exp > now) continue;
+      this.drop(key);
+      this.statsFor(key).expired++;
+      n++;
+    }
+    return n;
+  }
+
+  snapshot(): MemoryCacheStats {
+    return {
+      entries: this.entries.size,
+      maxEntries: this.maxEntries,
+      byPrefix: Object.fromEntries([...this.stats].map(([p, s]) => [p, { ...s }])),
+    };
+  }
+
+  private drop(key: string) {
+    this.entries.delete(key);
+    this.statsFor(key).entries--;
+  }
+
+  private statsFor(key: string): PrefixStats {
+    const p = keyPrefix(key);
+    let s = this.stats.get(p);
+    if (!s) {
+      s = { hits: 0, misses: 0, evictions: 0, expired: 0, entries: 0 };
+      this.stats.set(p, s);
+    }
+    return s;
+  }
+}
@@ -0,0 +1,94 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { HttpException, HttpStatus, Injectable, Logger, NestMiddleware } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { NextFunction, Request, Response } from 'express';
+import { runWithCassette, type CassetteFile, type CassetteMode } from './cassette';
+
+const NAME_RE = /^[A-Za-z0-9_-]{1,100}$/;
+
+/**
+ * CASSETTE_MODE=record: every API request records its outbound calls to
+ * CASSETTE_DIR/<name>.json, named by the X-Cassette header (or generated) and echoed
+ * back in the X-Cassette response header.
+ * CASSETTE_MODE=replay: requests carrying X-Cassette are served from that file, with the
+ * recorded clock and conversation state.
+ */
+@Injectable()
+export class CassetteMiddleware implements NestMiddleware {
+  private readonly logger = new Logger(CassetteMiddleware.name);
+  private readonly mode: CassetteMode | undefined;
+  private readonly dir: string;
+
+  constructor(config: ConfigService) {
+    const mode = config.get<string>('CASSETTE_MODE');
+    this.mode = mode === 'record' || mode === 'replay' ? mode : undefined;
+    this.dir = resolve(config.get<string>('CASSETTE_DIR') ?? 'cassettes');
+  }
+
+  async use(req: Request, res: Response, next: NextFunction) {
+    if (!this.mode) return next();
+    const header = req.headers['x-cassette'];
+    const requested = typeof header === 'string' ? header : undefined;
+    if (requested !== undefined && !NAME_RE.test(requested)) {
+      throw new HttpException(
+        {
+          error: {
+            code: 'INVALID_CASSETTE_NAME',
+            message: 'X-Cassette must be 1-100 letters, digits, "-" or "_".',
+            suggestions: ['Use a name like bug-1234'],
+          },
+        },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    if (this.mode === 'replay') {
+      if (!requested) return next();
+      const file = await this.load(requested);
+      return runWithCassette({ mode: 'replay', file, cursor: new Map() }, next);
+    }
+
+    const name = requested ?? this.generateName(req);
+    const file: CassetteFile = {
+      name,
+      recordedAt: new Date().toISOString(),
+      request: `${req.method} ${req.originalUrl}`,
+      interactions: [],
+    };
+    res.setHeader('X-Cassette', name);
+    res.on('finish', () => {
+      void this.save(file).catch((e) =>
+        this.logger.error(`Failed to save cassette ${name}: ${e instanceof Error ? e.message : e}`),
+      );
+    });
+    return runWithCassette({ mode: 'record', file, cursor: new Map() }, next);
+  }
+
+  private generateName(req: Request): string {
+    const slug = req.path.replace(/^\/+|\/+$/g, '').replace(/[^A-Za-z0-9]+/g, '-').slice(0, 60);
+    return `${Date.now()}-${req.method.toLowerCase()}-${slug}`;
+  }
+
+  private async load(name: string): Promise<CassetteFile> {
+    try {
+      return JSON.parse(await readFile(join(this.dir, `${name}.json`), 'utf8')) as CassetteFile;
+    } catch {
+      throw new HttpException(
+        {
+          error: {
+            code: 'CASSETTE_NOT_FOUND',
+            message: `No cassette named "${name}" in ${this.dir}.`,
+            suggestions: ['Record it first with CASSETTE_MODE=record', 'Check CASSETTE_DIR'],
+          },
+        },
+        HttpStatus.NOT_FOUND,
+      );
+    }
+  }
+
+  private async save(file: CassetteFile): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(join(this.dir, `${file.name}.json`), `${JSON.stringify(file, null, 2)}\n`);
+  }
+}
@@ -0,0 +1,9 @@
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { CassetteMiddleware } from './cassette.middleware';
+
+@Module({})
+export class CassetteModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(CassetteMiddleware).forRoutes('*');
+  }
+}
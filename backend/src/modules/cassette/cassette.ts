@@ -0,0 +1,143 @@
+/**
+ * Record/replay of outbound HTTP calls (Google Maps, Places, Routes, Gemini, OSRM).
+ *
+ * CassetteMiddleware opens a cassette per incoming API request; every outbound call made
+ * through cassetteFetch while handling that request is recorded to, or served from, it.
+ * Outside a cassette, cassetteFetch is plain fetch.
+ *
+ * A cassette also keeps what the request read besides the network: its clock (recordedAt,
+ * see cassetteNow) and server state such as the conversation so far (see cassetteState),
+ * so a replay plans exactly what the recording did.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteInteraction {
+  request: { method: string; url: string; body?: string };
+  /** body is parsed JSON when the response was JSON, otherwise raw text. */
+  response: { status: number; contentType?: string; body: unknown };
+}
+
+export interface CassetteFile {
+  name: string;
+  /** When the request arrived; the request's clock, in record and replay alike. */
+  recordedAt: string;
+  /** The API request that produced the recording, e.g. "POST /api/v1/errand/navigate-with-stops". */
+  request: string;
+  interactions: CassetteInteraction[];
+  /** Server state the request read, by key (null when there was none). */
+  state?: Record<string, unknown>;
+}
+
+export interface ActiveCassette {
+  mode: CassetteMode;
+  file: CassetteFile;
+  /** Replay: next unused interaction index per match key. */
+  cursor: Map<string, number>;
+}
+
+const storage = new AsyncLocalStorage<ActiveCassette>();
+
+/** Query parameters holding credentials; never written to a cassette. */
+const SECRET_PARAMS = ['key'];
+
+export function runWithCassette<T>(cassette: ActiveCassette, fn: () => T): T {
+  return storage.run(cassette, fn);
+}
+
+export function activeCassette(): ActiveCassette | undefined {
+  return storage.getStore();
+}
+
+/** The request's clock: recordedAt under a cassette, so replay sees the recorded "now". */
+export function cassetteNow(): number {
+  const cassette = activeCassette();
+  return cassette ? Date.parse(cassette.file.recordedAt) : Date.now();
+}
+
+/**
+ * Read server state (e.g. a conversation from the cache). Recording reads the live store
+ * and keeps the value; replay serves the kept value. Outside a cassette this is load().
+ */
+export async function cassetteState<T>(key: string, load: () => Promise<T | null>): Promise<T | null> {
+  const cassette = activeCassette();
+  if (!cassette) return load();
+  if (cassette.mode === 'replay') return (cassette.file.state?.[key] as T | undefined) ?? null;
+  // Outside the cassette's context, so the store isn't bypassed as it is for cached calls.
+  const value = await storage.exit(load);
+  (cassette.file.state ??= {})[key] = value ?? null;
+  return value;
+}
+
+/** Write server state: live while recording (the user's session goes on), skipped on replay. */
+export async function writeCassetteState(write: () => Promise<void>): Promise<void> {
+  if (activeCassette()?.mode === 'replay') return;
+  await storage.exit(write);
+}
+
+function redactUrl(url: string): string {
+  const u = new URL(url);
+  SECRET_PARAMS.forEach((p) => u.searchParams.delete(p));
+  return u.toString();
+}
+
+function matchKey(method: string, url: string, body?: string): string {
+  return `${method} ${url} ${body ?? ''}`;
+}
+
+function requestBody(init?: RequestInit): string | undefined {
+  return typeof init?.body === 'string' ? init.body : undefined;
+}
+
+async function record(cassette: ActiveCassette, url: string, init?: RequestInit): Promise<Response> {
+  const res = await fetch(url, init);
+  const text = await res.text();
+  const contentType = res.headers.get('content-type') ?? undefined;
+  let body: unknown = text;
+  if (contentType?.includes('json')) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // keep raw text
+    }
+  }
+  cassette.file.interactions.push({
+    request: { method: init?.method ?? 'GET', url: redactUrl(url), body: requestBody(init) },
+    response: { status: res.status, contentType, body },
+  });
+  return new Response(text, { status: res.status, headers: contentType ? { 'content-type': contentType } : {} });
+}
+
+function replay(cassette: ActiveCassette, url: string, init?: RequestInit): Response {
+  const method = init?.method ?? 'GET';
+  const key = matchKey(method, redactUrl(url), requestBody(init));
+  const matches = cassette.file.interactions.filter((i) => matchKey(i.request.method, i.request.url, i.request.body) === key);
+  if (matches.length === 0) {
+    throw new HttpException(
+      {
+        error: {
+          code: 'CASSETTE_MISS',
+          message: `Cassette "${cassette.file.name}" has no recorded response for ${method} ${redactUrl(url)}.`,
+          suggestions: ['Re-record the cassette with CASSETTE_MODE=record', 'Check that the replayed request body matches the recorded one'],
+        },
+      },
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  }
+  // Identical calls replay in recorded order; extra calls repeat the last response.
+  const n = cassette.cursor.get(key) ?? 0;
+  cassette.cursor.set(key, n + 1);
+  const { response } = matches[Math.min(n, matches.length - 1)];
+  const text = typeof response.body === 'string' ? response.body : JSON.stringify(response.body);
+  return new Response(text, { status: response.status, headers: response.contentType ? { 'content-type': response.contentType } : {} });
+}
+
+/** fetch that records to / replays from the active cassette, if any. */
+export async function cassetteFetch(url: string, init?: RequestInit): Promise<Response> {
+  const cassette = activeCassette();
+  if (!cassette) return fetch(url, init);
+  return cassette.mode === 'record' ? record(cassette, url, init) : replay(cassette, url, init);
+}
@@ -1,12 +1,57 @@
-import { Body, Controller, Get, Post, Query, UseGuards } from '@nestjs/common';
+import { Body, Controller, Get, HttpCode, HttpException, HttpStatus, Param, Post, Query, Req, Res, UseGuards } from '@nestjs/common';
+import { Request, Response } from 'express';
 import { AuthGuard } from '../../../common/guards/auth.guard';
+import { ErrandTemplateService } from '../../user/errand-template.service';
+import { UserService } from '../../user/user.service';
 import { NavigateWithStopsDto } from '../dtos/navigate-with-stops.dto';
-import { ErrandService } from '../services/errand.service';
+import { PlanStreamDto } from '../dtos/plan-stream.dto';
+import { RunTemplateDto } from '../dtos/run-template.dto';
+import { DetourBufferService } from '../services/detour-buffer.service';
+import { ErrandService, type NavigateWithStopsIn } from '../services/errand.service';
+import { PlanStreamService } from '../services/plan-stream.service';
+import { RouteJobService } from '../services/route-job.service';
+import { SavedRouteService } from '../services/saved-route.service';
+import { TemplateRunService } from '../services/template-run.service';
 
 @Controller('errand')
 @UseGuards(AuthGuard)
 export class ErrandController {
-  constructor(private readonly errand: ErrandService) {}
+  constructor(
+    private readonly errand: ErrandService,
+    private readonly detour: DetourBufferService,
+    private readonly user: UserService,
+    private readonly planStream: PlanStreamService,
+    private readonly savedRoutes: SavedRouteService,
+    private readonly templates: ErrandTemplateService,
+    private readonly templateRuns: TemplateRunService,
+    private readonly routeJobs: RouteJobService,
+  ) {}
+
+  private async planInput(userId: string | undefined, dto: NavigateWithStopsDto): Promise<NavigateWithStopsIn> {
+    const stored = await this.user.preferencesSafely(userId);
+    return {
+      origin: dto.origin,
+      destination: {
+        name: dto.destination.name,
+        location: dto.destination.location,
+      },
+      stops: dto.stops.map((s) => ({
+        name: s.name,
+        category: s.category,
+        brand: s.brand,
+        earliestArrival: s.earliestArrival,
+        latestArrival: s.latestArrival,
+        dwellMinutes: s.dwellMinutes,
+      })),
+      anchors: [],
+      departureTime: dto.departureTime,
+      preferences: this.detour.preferencesFrom({ ...stored, ...dto.preferences }),
+      orderPreference: dto.orderPreference,
+      radiusM: dto.radius,
+      timeConstraint: dto.timeConstraint,
+      utcOffsetMinutes: dto.utcOffsetMinutes,
+    };
+  }
 
   @Get('suggest-stops-on-route')
   async suggestStopsOnRoute(
@@ -15,28 +60,94 @@ export class ErrandController {
     @Query('destinationLat') destinationLat: string,
     @Query('destinationLng') destinationLng: string,
     @Query('categories') categoriesStr: string | undefined,
-    @Query('maxDetourPercent') _maxDetourPercent: string | undefined,
+    @Query('maxDetourPercent') maxDetourPercentStr: string | undefined,
     @Query('limit') limitStr: string | undefined,
   ) {
     const origin = { lat: parseFloat(originLat), lng: parseFloat(originLng) };
     const destination = { lat: parseFloat(destinationLat), lng: parseFloat(destinationLng) };
     const categories = categoriesStr ? categoriesStr.split(',').map((s) => s.trim()) : ['coffee', 'gas', 'grocery'];
     const limit = limitStr ? parseInt(limitStr, 10) : 10;
-    return this.errand.suggestStopsOnRoute(origin, destination, categories, limit);
+    const maxDetourPercent = maxDetourPercentStr ? parseFloat(maxDetourPercentStr) : NaN;
+    return this.errand.suggestStopsOnRoute(
+      origin,
+      destination,
+      categories,
+      limit,
+      Number.isFinite(maxDetourPercent) && maxDetourPercent > 0 ? maxDetourPercent : undefined,
+    );
   }
 
   @Post('navigate-with-stops')
-  async navigateWithStops(@Body() dto: NavigateWithStopsDto) {
-    const result = await this.errand.navigateWithStops({
-      origin: dto.origin,
-      destination: {
-        name: dto.destination.name,
-        location: dto.destination.location,
-      },
-      stops: dto.stops.map((s) => ({ name: s.name, category: s.category })),
-      anchors: [],
+  async navigateWithStops(
+    @Req() req: Request & { user?: { sub: string } },
+    @Body() dto: NavigateWithStopsDto,
+  ) {
+    // Plans without a user when the database is down; the route just isn't saved.
+    const userId = await this.user.idForSafely(req);
+    const inp = await this.planInput(userId, dto);
+    const result = await this.errand.navigateWithStops(inp);
+    if (!userId) return { route: result.route, excludedStops: result.excludedStops };
+    const route = await this.savedRoutes.save(userId, inp, result.route);
+    if (dto.conversationId) {
+      await this.user.attachRouteToLatestTurn(userId, dto.conversationId, route.id).catch(() => null);
+    }
+    return { route, excludedStops: result.excludedStops };
+  }
+
+  /**
+   * navigate-with-stops as a background job, for plans too slow to wait on (many stops or
+   * candidates). Answers 202 with the job; poll GET /errand/jobs/:id for progress and the route.
+   */
+  @Post('jobs')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async submitRouteJob(
+    @Req() req: Request & { user?: { sub: string } },
+    @Body() dto: NavigateWithStopsDto,
+  ) {
+    const userId = await this.user.idFor(req);
+    return this.routeJobs.submit(userId, await this.planInput(userId, dto));
+  }
+
+  @Get('jobs/:id')
+  async getRouteJob(@Req() req: Request & { user?: { sub: string } }, @Param('id') id: string) {
+    const userId = await this.user.idFor(req);
+    const job = await this.routeJobs.get(userId, id);
+    if (!job) throw new HttpException({ error: { code: 'NOT_FOUND', message: 'Job not found' } }, HttpStatus.NOT_FOUND);
+    return job;
+  }
+
+  /** Plan a saved errand template from the current location; answers like navigate-with-stops. */
+  @Post('templates/:id/run')
+  async runTemplate(
+    @Req() req: Request & { user?: { sub: string } },
+    @Param('id') id: string,
+    @Body() dto: RunTemplateDto,
+  ) {
+    const userId = await this.user.idFor(req);
+    const template = await this.templates.get(userId, id);
+    if (!template) throw new HttpException({ error: { code: 'NOT_FOUND', message: 'Template not found' } }, HttpStatus.NOT_FOUND);
+    return this.templateRuns.run(userId, template, dto);
+  }
+
+  /**
+   * Parse an utterance and, when it asks for a route, plan it, as Server-Sent Events
+   * (see PlanStreamEvent). The status is always 200; failures arrive as an `error` event.
+   */
+  @Post('plan/stream')
+  async planStreamEvents(
+    @Req() req: Request & { user?: { sub: string } },
+    @Body() dto: PlanStreamDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const userId = await this.user.idFor(req);
+    res.status(200).set({ 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    res.flushHeaders();
+    let open = true;
+    res.on('close', () => (open = false));
+    await this.planStream.run(userId, dto, (event, data) => {
+      if (open) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
     });
-    return { route: result.route, excludedStops: result.excludedStops };
+    res.end();
   }
 
   @Post('recalculate')
@@ -0,0 +1,52 @@
+import { Body, Controller, Delete, Get, HttpException, HttpStatus, Param, Post, Query, Req, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
+import { AuthGuard } from '../../../common/guards/auth.guard';
+import { UserService } from '../../user/user.service';
+import { ListRoutesQueryDto } from '../dtos/list-routes.dto';
+import { ReplanRouteDto } from '../dtos/replan-route.dto';
+import { SavedRouteService } from '../services/saved-route.service';
+
+/** Saved routes: every route planned for the user, most recent first. */
+@Controller('routes')
+@UseGuards(AuthGuard)
+export class RouteController {
+  constructor(
+    private readonly routes: SavedRouteService,
+    private readonly user: UserService,
+  ) {}
+
+  @Get()
+  async list(@Req() req: Request & { user?: { sub: string } }, @Query() query: ListRoutesQueryDto) {
+    const userId = await this.user.idFor(req);
+    return this.routes.list(userId, query.limit ?? 20, query.offset ?? 0);
+  }
+
+  @Get(':id')
+  async get(@Req() req: Request & { user?: { sub: string } }, @Param('id') id: string) {
+    const userId = await this.user.idFor(req);
+    const route = await this.routes.get(userId, id);
+    if (!route) throw new HttpException({ error: { code: 'NOT_FOUND', message: 'Route not found' } }, HttpStatus.NOT_FOUND);
+    return { route };
+  }
+
+  @Delete(':id')
+  async delete(@Req() req: Request & { user?: { sub: string } }, @Param('id') id: string) {
+    const userId = await this.user.idFor(req);
+    const ok = await this.routes.delete(userId, id);
+    if (!ok) throw new HttpException({ error: { code: 'NOT_FOUND', message: 'Route not found' } }, HttpStatus.NOT_FOUND);
+    return {};
+  }
+
+  /** Plan the same errand again now; answers like /errand/navigate-with-stops. */
+  @Post(':id/replan')
+  async replan(
+    @Req() req: Request & { user?: { sub: string } },
+    @Param('id') id: string,
+    @Body() dto: ReplanRouteDto,
+  ) {
+    const userId = await this.user.idFor(req);
+    const result = await this.routes.replan(userId, id, dto);
+    if (!result) throw new HttpException({ error: { code: 'NOT_FOUND', message: 'Route not found' } }, HttpStatus.NOT_FOUND);
+    return { route: result.route, excludedStops: result.excludedStops };
+  }
+}
@@ -1,5 +1,18 @@
 import { Type } from 'class-transformer';
-import { IsArray, IsNumber, IsObject, IsOptional, IsString, ValidateNested } from 'class-validator';
+import {
+  IsArray,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
 
 class LatLngDto {
   @IsNumber() lat: number;
@@ -17,6 +30,19 @@ class DestinationDto {
 class StopDto {
   @IsString() name: string;
   @IsOptional() @IsString() category?: string;
+  /** Chain name from NLU stopDetails, e.g. "Shell". */
+  @IsOptional() @IsString() brand?: string;
+  /** ISO 8601; arriving earlier means waiting until then. */
+  @IsOptional() @IsDateString() earliestArrival?: string;
+  /** ISO 8601; e.g. the pharmacy's closing time. */
+  @IsOptional() @IsDateString() latestArrival?: string;
+  @IsOptional() @IsNumber() @Min(0) dwellMinutes?: number;
+}
+
+class TimeConstraintDto {
+  @IsIn(['before', 'after']) kind: 'before' | 'after';
+  /** HH:mm, user's local time. */
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/) time: string;
 }
 
 export class NavigateWithStopsDto {
@@ -38,4 +64,38 @@ export class NavigateWithStopsDto {
   @IsOptional()
   @IsObject()
   preferences?: Record<string, unknown>;
+
+  /** ISO 8601 departure time; defaults to now. */
+  @IsOptional()
+  @IsDateString()
+  departureTime?: string;
+
+  /** NLU orderPreference; 'nearest' visits stops closest-first, 'fastest' minimizes driving time. */
+  @IsOptional()
+  @IsIn(['nearest', 'fastest'])
+  orderPreference?: 'nearest' | 'fastest';
+
+  /** NLU radius in meters; stops must be this close to the origin or destination. */
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  radius?: number;
+
+  /** NLU timeConstraint, applied to every stop without its own arrival window. */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TimeConstraintDto)
+  timeConstraint?: TimeConstraintDto;
+
+  /** Minutes east of UTC (-420 for PDT), to read timeConstraint in the user's time zone. */
+  @IsOptional()
+  @IsInt()
+  @Min(-840)
+  @Max(840)
+  utcOffsetMinutes?: number;
+
+  /** NLU conversation this plan came from; its latest turn gets the route id. */
+  @IsOptional()
+  @IsString()
+  conversationId?: string;
 }
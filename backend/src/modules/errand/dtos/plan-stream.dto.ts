@@ -0,0 +1,41 @@
+import { Type } from 'class-transformer';
+import { IsDateString, IsInt, IsNumber, IsObject, IsOptional, IsString, Max, Min, ValidateNested } from 'class-validator';
+import { NluContextDto } from '../../nlu/dtos/nlu.dto';
+
+class LatLngDto {
+  @IsNumber() lat: number;
+  @IsNumber() lng: number;
+}
+
+/** One utterance, parsed and (when it asks for a route) planned: POST /errand/plan/stream. */
+export class PlanStreamDto {
+  @IsString() utterance: string;
+
+  /** Current location; the route starts here. */
+  @ValidateNested()
+  @Type(() => LatLngDto)
+  @IsObject()
+  origin: LatLngDto;
+
+  /** Same as /nlu/process context (conversationId, previous turn, route on screen). */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NluContextDto)
+  context?: NluContextDto;
+
+  @IsOptional()
+  @IsObject()
+  preferences?: Record<string, unknown>;
+
+  /** ISO 8601 departure time; defaults to now. */
+  @IsOptional()
+  @IsDateString()
+  departureTime?: string;
+
+  /** Minutes east of UTC (-420 for PDT), to read time constraints in the user's time zone. */
+  @IsOptional()
+  @IsInt()
+  @Min(-840)
+  @Max(840)
+  utcOffsetMinutes?: number;
+}
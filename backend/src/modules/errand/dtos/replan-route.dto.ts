@@ -0,0 +1,29 @@
+import { Type } from 'class-transformer';
+import { IsDateString, IsInt, IsNumber, IsObject, IsOptional, Max, Min, ValidateNested } from 'class-validator';
+
+class LatLngDto {
+  @IsNumber() lat: number;
+  @IsNumber() lng: number;
+}
+
+/** POST /routes/:id/replan; every field falls back to the saved route or now. */
+export class ReplanRouteDto {
+  /** Where the user is now; defaults to the saved route's origin. */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => LatLngDto)
+  @IsObject()
+  origin?: LatLngDto;
+
+  /** ISO 8601 departure time; defaults to now. */
+  @IsOptional()
+  @IsDateString()
+  departureTime?: string;
+
+  /** Minutes east of UTC (-420 for PDT), to read time constraints in the user's time zone. */
+  @IsOptional()
+  @IsInt()
+  @Min(-840)
+  @Max(840)
+  utcOffsetMinutes?: number;
+}
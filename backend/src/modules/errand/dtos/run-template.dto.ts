@@ -0,0 +1,33 @@
+import { Type } from 'class-transformer';
+import { IsDateString, IsInt, IsNumber, IsObject, IsOptional, Max, Min, ValidateNested } from 'class-validator';
+
+class LatLngDto {
+  @IsNumber() lat: number;
+  @IsNumber() lng: number;
+}
+
+/** POST /errand/templates/:id/run */
+export class RunTemplateDto {
+  /** Current location; the route starts here. */
+  @ValidateNested()
+  @Type(() => LatLngDto)
+  @IsObject()
+  origin: LatLngDto;
+
+  /** Overrides the template's detour preferences for this run. */
+  @IsOptional()
+  @IsObject()
+  preferences?: Record<string, unknown>;
+
+  /** ISO 8601 departure time; defaults to now. */
+  @IsOptional()
+  @IsDateString()
+  departureTime?: string;
+
+  /** Minutes east of UTC (-420 for PDT), to read time constraints in the user's time zone. */
+  @IsOptional()
+  @IsInt()
+  @Min(-840)
+  @Max(840)
+  utcOffsetMinutes?: number;
+}
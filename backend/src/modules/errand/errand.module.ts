@@ -1,18 +1,37 @@
 import { Module } from '@nestjs/common';
 import { AuthGuard } from '../../common/guards/auth.guard';
 import { MapsModule } from '../maps/maps.module';
+import { NluModule } from '../nlu/nlu.module';
 import { PlacesModule } from '../places/places.module';
+import { QueueModule } from '../queue/queue.module';
+import { UserModule } from '../user/user.module';
 import { ErrandController } from './controllers/errand.controller';
+import { RouteController } from './controllers/route.controller';
 import { DetourBufferService } from './services/detour-buffer.service';
 import { ErrandService } from './services/errand.service';
 import { EntityResolverService } from './services/entity-resolver.service';
 import { OptimizationService } from './services/optimization.service';
+import { PlanStreamService } from './services/plan-stream.service';
 import { RouteBuilderService } from './services/route-builder.service';
+import { RouteJobService } from './services/route-job.service';
+import { SavedRouteService } from './services/saved-route.service';
+import { TemplateRunService } from './services/template-run.service';
 
 @Module({
-  imports: [MapsModule, PlacesModule],
-  controllers: [ErrandController],
-  providers: [AuthGuard, DetourBufferService, OptimizationService, EntityResolverService, RouteBuilderService, ErrandService],
+  imports: [MapsModule, NluModule, PlacesModule, UserModule, QueueModule.whenConfigured()],
+  controllers: [ErrandController, RouteController],
+  providers: [
+    AuthGuard,
+    DetourBufferService,
+    OptimizationService,
+    EntityResolverService,
+    RouteBuilderService,
+    ErrandService,
+    SavedRouteService,
+    TemplateRunService,
+    PlanStreamService,
+    RouteJobService,
+  ],
   exports: [DetourBufferService, OptimizationService, EntityResolverService, RouteBuilderService, ErrandService],
 })
 export class ErrandModule {}
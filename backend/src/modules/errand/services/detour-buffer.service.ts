@@ -6,6 +6,20 @@ import {
   DetourStatus,
 } from '../../../common/constants/detour.constants';
 
+/** Detour limits from UserPreferences; maxDetourPercentage is a fraction (0.07 = 7%). */
+export interface DetourPreferences {
+  maxDetourPercentage?: number;
+  maxDetourMinutes?: number;
+}
+
+/** Per-trip detour budget; minutes only when the user set maxDetourMinutes. */
+export interface DetourBudget {
+  distanceM: number;
+  minutes?: number;
+}
+
+const STATUS_RANK: DetourStatus[] = ['NO_DETOUR', 'MINIMAL', 'ACCEPTABLE', 'NOT_RECOMMENDED'];
+
 @Injectable()
 export class DetourBufferService {
   /**
@@ -30,14 +44,44 @@ export class DetourBufferService {
   }
 
   /**
-   * Get detour status from extra distance and buffer.
+   * Detour budget for a trip from the direct distance and the user's preferences.
+   * Distance: maxDetourPercentage of the direct distance (default: calculateBuffer),
+   * clamped to the same absolute bounds. Minutes: maxDetourMinutes, and no time limit
+   * without it (providers round leg durations to whole minutes, so a limit derived from the
+   * distance budget would reject routes for rounding alone).
    */
-  getDetourStatus(extraDistanceM: number, bufferM: number): DetourStatus {
+  calculateBudget(directDistanceM: number, prefs: DetourPreferences = {}): DetourBudget {
+    const distanceM =
+      prefs.maxDetourPercentage != null
+        ? Math.max(
+            DETOUR_ABSOLUTE_BOUNDS.minBufferM,
+            Math.min(DETOUR_ABSOLUTE_BOUNDS.maxBufferM, directDistanceM * prefs.maxDetourPercentage),
+          )
+        : this.calculateBuffer(directDistanceM);
+    return { distanceM, minutes: prefs.maxDetourMinutes };
+  }
+
+  /**
+   * Pick detour fields out of a stored/requested preferences object.
+   */
+  preferencesFrom(raw: Record<string, unknown> | undefined): DetourPreferences {
+    const num = (v: unknown) => (typeof v === 'number' && Number.isFinite(v) && v > 0 ? v : undefined);
+    return {
+      maxDetourPercentage: num(raw?.maxDetourPercentage),
+      maxDetourMinutes: num(raw?.maxDetourMinutes),
+    };
+  }
+
+  /**
+   * Get detour status from extra distance and buffer. When extra minutes and a minutes
+   * budget are given, the worse of the distance and time classifications wins.
+   */
+  getDetourStatus(extraDistanceM: number, bufferM: number, extraMin?: number, budgetMin?: number): DetourStatus {
     if (extraDistanceM <= NO_DETOUR_THRESHOLD_M) return 'NO_DETOUR';
-    const ratio = extraDistanceM / bufferM;
-    if (ratio <= 0.25) return 'MINIMAL';
-    if (ratio <= 0.75) return 'ACCEPTABLE';
-    return 'NOT_RECOMMENDED';
+    const byDistance = this.statusForRatio(extraDistanceM / bufferM);
+    if (extraMin == null || !budgetMin) return byDistance;
+    const byTime = this.statusForRatio(extraMin / budgetMin);
+    return STATUS_RANK[Math.max(STATUS_RANK.indexOf(byDistance), STATUS_RANK.indexOf(byTime))];
   }
 
   /**
@@ -46,4 +90,10 @@ export class DetourBufferService {
   isWithinBudget(extraDistanceM: number, budgetM: number): boolean {
     return extraDistanceM <= budgetM;
   }
+
+  private statusForRatio(ratio: number): DetourStatus {
+    if (ratio <= 0.25) return 'MINIMAL';
+    if (ratio <= 0.75) return 'ACCEPTABLE';
+    return 'NOT_RECOMMENDED';
+  }
 }
@@ -1,6 +1,7 @@
 import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
 import type { Coordinates } from '../../../common/types';
 import { GoogleMapsService } from '../../maps/google-maps.service';
+import { haversineM, pathLengthM, samplePath } from '../../maps/polyline';
 import { PlaceSearchService } from '../../places/place-search.service';
 import type { PlaceCandidate } from '../../places/google-places.service';
 
@@ -18,6 +19,36 @@ export interface ResolvedDestination {
 export interface ResolvedStop {
   query: string;
   place: PlaceCandidate;
+  /** Other places matching the same query, best first (e.g. other branches of a chain). */
+  alternatives?: PlaceCandidate[];
+}
+
+/** A stop to resolve; with `brand`, only places whose name contains it qualify. */
+export interface StopQuery {
+  name: string;
+  brand?: string;
+}
+
+export interface ResolveStopsOptions {
+  /**
+   * When set, candidates are also searched around the destination and along the way, and
+   * ranked by detour off the straight line.
+   */
+  destination?: Coordinates;
+  /** Direct route from the origin to the destination (decoded polyline); defaults to the straight line. */
+  path?: Coordinates[];
+  /** Candidates kept per query (place + alternatives). Default 1. */
+  candidatesPerQuery?: number;
+  /** Caps the search radius; candidates farther than this from both ends are dropped. */
+  maxRadiusM?: number;
+}
+
+/** Upper bound on search centers per stop query: both ends plus points along the route. */
+const MAX_SEARCH_CENTERS = 6;
+
+/** "Peet's Coffee" → "peetscoffee", for brand matching. */
+function compact(s: string): string {
+  return s.toLowerCase().replace(/[^a-z0-9]/g, '');
 }
 
 @Injectable()
@@ -67,19 +98,59 @@ export class EntityResolverService {
 
   /**
    * Resolve each stop query to the best place within radius (derived from budget).
+   * With candidatesPerQuery > 1, keeps several candidates per query so the optimizer can
+   * pick the combination with the least detour; `place` is the best single guess.
    */
   async resolveStops(
-    queries: string[],
+    queries: Array<string | StopQuery>,
     location: Coordinates,
     budgetM: number,
+    options: ResolveStopsOptions = {},
   ): Promise<ResolvedStop[]> {
-    const radiusM = Math.max(budgetM * 2, 2000);
+    const maxM = options.maxRadiusM;
+    const radiusM = Math.min(Math.max(budgetM * 2, 2000), maxM ?? Infinity);
+    const k = Math.max(1, options.candidatesPerQuery ?? 1);
+    const dest = options.destination;
     const out: ResolvedStop[] = [];
-    for (const q of queries) {
-      const list = await this.placeSearch.searchPlaces(q, location, radiusM, 1);
-      const top = list[0];
-      if (top) out.push({ query: q, place: top });
+    for (const query of queries) {
+      const { name: q, brand } = typeof query === 'string' ? { name: query, brand: undefined } : query;
+      const text = brand ?? q;
+      // Fetch extra so that filtering by brand/radius still leaves k.
+      const fetchN = brand || maxM ? k * 4 : k;
+      let list = await this.placeSearch.searchPlaces(text, location, radiusM, fetchN);
+      if (dest) {
+        const seen = new Set(list.map((p) => p.placeId));
+        for (const center of this.searchCenters(location, dest, options.path, radiusM)) {
+          const found = await this.placeSearch.searchPlaces(text, center, radiusM, fetchN);
+          for (const p of found) {
+            if (seen.has(p.placeId)) continue;
+            seen.add(p.placeId);
+            list.push(p);
+          }
+        }
+        const detour = (p: PlaceCandidate) => haversineM(location, p.location) + haversineM(p.location, dest);
+        list.sort((a, b) => detour(a) - detour(b));
+      }
+      if (brand) list = list.filter((p) => compact(p.name).includes(compact(brand)));
+      if (maxM) {
+        list = list.filter(
+          (p) => haversineM(location, p.location) <= maxM || (dest != null && haversineM(dest, p.location) <= maxM),
+        );
+      }
+      const [top, ...rest] = list.slice(0, k);
+      if (top) out.push({ query: q, place: top, ...(rest.length && { alternatives: rest }) });
     }
     return out;
   }
+
+  /**
+   * Where to search besides the origin: points along the route about one search radius
+   * apart (at most MAX_SEARCH_CENTERS in all), then the destination, so a branch halfway
+   * along a long route is a candidate too.
+   */
+  private searchCenters(origin: Coordinates, dest: Coordinates, path: Coordinates[] | undefined, radiusM: number): Coordinates[] {
+    const route = path && path.length >= 2 ? path : [origin, dest];
+    const spacingM = Math.max(pathLengthM(route) / (MAX_SEARCH_CENTERS - 1), radiusM);
+    return [...samplePath(route, spacingM).slice(1, -1), dest];
+  }
 }
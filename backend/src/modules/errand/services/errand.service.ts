@@ -1,30 +1,88 @@
 import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
-import type { Coordinates } from '../../../common/types';
-import { DetourBufferService } from './detour-buffer.service';
+import type { Coordinates, DetourStatus } from '../../../common/types';
+import { DetourBufferService, type DetourPreferences } from './detour-buffer.service';
 import { EntityResolverService, type AnchorInput, type ResolvedStop } from './entity-resolver.service';
-import { OptimizationService } from './optimization.service';
+import { OptimizationService, type OptimizationObjective } from './optimization.service';
 import { RouteBuilderService } from './route-builder.service';
-import { GoogleMapsService } from '../../maps/google-maps.service';
-
-function haversineM(a: Coordinates, b: Coordinates): number {
-  const R = 6371000;
-  const dLat = ((b.lat - a.lat) * Math.PI) / 180;
-  const dLng = ((b.lng - a.lng) * Math.PI) / 180;
-  const x =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos((a.lat * Math.PI) / 180) *
-      Math.cos((b.lat * Math.PI) / 180) *
-      Math.sin(dLng / 2) ** 2;
-  return 2 * R * Math.asin(Math.sqrt(x));
+import { cassetteNow } from '../../cassette/cassette';
+import { GoogleMapsService, type DistanceMatrixResult } from '../../maps/google-maps.service';
+import type { OrderPreference, TimeConstraint } from '../../nlu/entity-extractor';
+import { decodePolyline, haversineM, pathLengthM, projectOntoPath, samplePath } from '../../maps/polyline';
+import type { PlaceCandidate } from '../../places/google-places.service';
+import { arrivalOpenStatus, isOpenAt, type ArrivalOpenStatus } from '../../places/opening-hours';
+import { PlaceSearchService } from '../../places/place-search.service';
+
+/** Candidate places kept per stop query when choosing which branch to visit. */
+const CANDIDATES_PER_STOP = 3;
+
+/** Upper bound on route samples (Places searches per category) for on-route suggestions. */
+const MAX_CORRIDOR_SAMPLES = 6;
+
+/**
+ * Next time the clock reads `time` (HH:mm) at the user's UTC offset, at or after
+ * `from`: "before 5" said at 6 pm means 5 pm tomorrow.
+ */
+function nextClockTime(time: string, from: number, utcOffsetMin: number): number {
+  const [h, m] = time.split(':').map(Number);
+  const local = new Date(from + utcOffsetMin * 60000);
+  let t = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate(), h, m) - utcOffsetMin * 60000;
+  if (t < from) t += 24 * 3600000;
+  return t;
+}
+
+/** Rows/columns of a matrix restricted to `indices`, in that order. */
+function sliceMatrix(m: DistanceMatrixResult | null, indices: number[]): DistanceMatrixResult | null {
+  if (!m) return null;
+  const pick = (g: Array<Array<number | null>>) => indices.map((i) => indices.map((j) => g[i]?.[j] ?? null));
+  return { distancesM: pick(m.distancesM), durationsMin: pick(m.durationsMin) };
+}
+
+export interface StopRequest {
+  name: string;
+  category?: string;
+  /** Only places of this chain qualify ("a Shell station"). */
+  brand?: string;
+  /** ISO 8601 arrival window bounds. */
+  earliestArrival?: string;
+  latestArrival?: string;
+  dwellMinutes?: number;
 }
 
 export interface NavigateWithStopsIn {
   origin: Coordinates;
   destination: { name: string; location?: Coordinates };
-  stops: Array<{ name: string; category?: string }>;
+  stops: StopRequest[];
   anchors?: AnchorInput[];
+  /** ISO 8601; defaults to now. */
+  departureTime?: string;
+  /** Detour limits (stored user preferences merged with per-request overrides). */
+  preferences?: DetourPreferences;
+  /**
+   * 'nearest' visits stops closest-first, 'fastest' picks places and order by driving time;
+   * otherwise the optimizer minimizes the detour distance.
+   */
+  orderPreference?: OrderPreference;
+  /** Stops must be within this many meters of the origin or destination. */
+  radiusM?: number;
+  /** Arrival window applied to every stop without its own. */
+  timeConstraint?: TimeConstraint;
+  /** User's offset from UTC in minutes (e.g. -420 for PDT), to read timeConstraint; defaults to the server's. */
+  utcOffsetMinutes?: number;
 }
 
+/** Stages of navigateWithStops as they complete; streamed to the app by PlanStreamService. */
+export type PlanProgress =
+  | { stage: 'destination'; name: string; location: Coordinates; source: 'request' | 'anchor' | 'geocode' | 'places' }
+  | {
+      stage: 'stop';
+      query: string;
+      place?: { id: string; name: string; address?: string; location: Coordinates };
+      /** Why the stop was dropped, when there is no place. */
+      reason?: string;
+    }
+  | { stage: 'route'; distanceM: number; durationMin: number; stopCount: number }
+  | { stage: 'budget'; totalM: number; usedM: number; totalMin?: number; usedMin: number; withinBudget: boolean };
+
 @Injectable()
 export class ErrandService {
   constructor(
@@ -33,53 +91,104 @@ export class ErrandService {
     private readonly optimization: OptimizationService,
     private readonly routeBuilder: RouteBuilderService,
     private readonly maps: GoogleMapsService,
+    private readonly placeSearch: PlaceSearchService,
   ) {}
 
-  async navigateWithStops(inp: NavigateWithStopsIn): Promise<{
+  async navigateWithStops(
+    inp: NavigateWithStopsIn,
+    onProgress: (p: PlanProgress) => void = () => {},
+  ): Promise<{
     route: ReturnType<RouteBuilderService['build']>;
     excludedStops?: Array<{ name: string; reason: string }>;
   }> {
     const anchors = inp.anchors ?? [];
+    const departAt = inp.departureTime ? Date.parse(inp.departureTime) : cassetteNow();
     const dest = inp.destination.location
-      ? { name: inp.destination.name, location: inp.destination.location }
+      ? { name: inp.destination.name, location: inp.destination.location, source: 'request' as const }
       : await this.entity.resolveDestination(inp.destination.name, anchors, inp.origin);
+    onProgress({ stage: 'destination', ...dest });
 
     const direct = await this.maps.getDirections(inp.origin, dest.location);
     if (!direct) throw new Error('Could not get direct route');
-    const bufferM = this.detour.calculateBuffer(direct.totalDistanceM);
+    const budget = this.detour.calculateBudget(direct.totalDistanceM, inp.preferences);
+    const bufferM = budget.distanceM;
 
-    const resolved = await this.entity.resolveStops(
-      inp.stops.map((s) => s.name),
+    const stops = this.applyTimeConstraint(inp, departAt);
+    const candidates = await this.entity.resolveStops(
+      stops.map((s) => ({ name: s.name, brand: s.brand })),
       inp.origin,
       bufferM,
+      {
+        destination: dest.location,
+        path: decodePolyline(direct.polyline),
+        candidatesPerQuery: CANDIDATES_PER_STOP,
+        maxRadiusM: inp.radiusM,
+      },
     );
+    const objective = inp.orderPreference === 'fastest' ? 'duration' : 'distance';
+    const { resolved, matrix } = await this.chooseBranches(inp.origin, dest.location, candidates, objective);
     const excluded: Array<{ name: string; reason: string }> = [];
-    inp.stops.forEach((s) => {
-      if (!resolved.some((r) => r.query === s.name)) excluded.push({ name: s.name, reason: 'No place found within search area' });
+    stops.forEach((s) => {
+      const r = resolved.find((x) => x.query === s.name);
+      if (r) {
+        const { placeId: id, name, address, location } = r.place;
+        onProgress({ stage: 'stop', query: s.name, place: { id, name, address, location } });
+        return;
+      }
+      excluded.push({ name: s.name, reason: 'No place found within search area' });
+      onProgress({ stage: 'stop', query: s.name, reason: 'No place found within search area' });
     });
 
     if (resolved.length === 0) {
       const directOnly = await this.maps.getDirections(inp.origin, dest.location);
-      const used = 0;
+      onProgress({ stage: 'route', distanceM: directOnly!.totalDistanceM, durationMin: directOnly!.totalDurationMin, stopCount: 0 });
+      onProgress({ stage: 'budget', totalM: bufferM, usedM: 0, totalMin: budget.minutes, usedMin: 0, withinBudget: true });
       const route = this.routeBuilder.build({
         origin: { name: 'Origin', location: inp.origin },
         destination: { name: dest.name, location: dest.location },
         orderedStops: [],
         directions: directOnly!,
-        detourBudget: { total: bufferM, used, remaining: bufferM - used },
+        detourBudget: {
+          total: bufferM,
+          used: 0,
+          remaining: bufferM,
+          totalMin: budget.minutes,
+          usedMin: 0,
+          remainingMin: budget.minutes,
+        },
       });
       return { route, excludedStops: excluded.length ? excluded : undefined };
     }
 
-    const stopInputs = resolved.map((r) => ({ id: r.place.placeId, location: r.place.location }));
-    const opt = this.optimization.optimizeStopOrder(inp.origin, dest.location, stopInputs);
+    const requestFor = (r: ResolvedStop): StopRequest | undefined => stops.find((s) => s.name === r.query);
+    const minutesAfterDeparture = (iso?: string): number | undefined =>
+      iso ? (Date.parse(iso) - departAt) / 60000 : undefined;
+    const stopInputs = resolved.map((r) => {
+      const req = requestFor(r);
+      return {
+        id: r.place.placeId,
+        location: r.place.location,
+        window: {
+          earliestMin: minutesAfterDeparture(req?.earliestArrival),
+          latestMin: minutesAfterDeparture(req?.latestArrival),
+        },
+        dwellMin: req?.dwellMinutes,
+      };
+    });
+    const opt =
+      inp.orderPreference === 'nearest'
+        ? { sequence: this.nearestFirst(inp.origin, stopInputs, matrix) }
+        : this.optimization.optimizeStopOrder(inp.origin, dest.location, stopInputs, matrix, objective);
     const waypointLocs = (opt.sequence.filter((x) => x !== 'start' && x !== 'end') as string[]).map(
       (id) => stopInputs.find((s) => s.id === id)!.location,
     );
     const fullDir = await this.maps.getDirections(inp.origin, dest.location, waypointLocs);
     if (!fullDir) throw new Error('Could not get route with stops');
+    onProgress({ stage: 'route', distanceM: fullDir.totalDistanceM, durationMin: fullDir.totalDurationMin, stopCount: waypointLocs.length });
 
     const totalExtraM = Math.max(0, fullDir.totalDistanceM - direct.totalDistanceM);
+    const totalExtraMin = Math.max(0, fullDir.totalDurationMin - direct.totalDurationMin);
+    const directMPerMin = direct.totalDurationMin > 0 ? direct.totalDistanceM / direct.totalDurationMin : 0;
     const orderedResolved: ResolvedStop[] = opt.sequence
       .filter((x): x is string => x !== 'start' && x !== 'end')
       .map((id) => resolved.find((r) => r.place.placeId === id)!);
@@ -89,7 +198,15 @@ export class ErrandService {
       detourCostM: number;
       status: ReturnType<DetourBufferService['getDetourStatus']>;
       order: number;
+      arrivalTime?: number;
+      timeWindow?: { earliest?: number; latest?: number };
+      timeWindowMet?: boolean;
+      openStatus?: ArrivalOpenStatus;
+      alternative?: PlaceCandidate;
+      runnerUps?: PlaceCandidate[];
     }> = [];
+    // ETA from the real directions legs; waits for earliestArrival, then adds dwell time.
+    let elapsedMin = 0;
     for (let i = 0; i < orderedResolved.length; i++) {
       const prev = i === 0 ? inp.origin : orderedResolved[i - 1].place.location;
       const next =
@@ -98,17 +215,42 @@ export class ErrandService {
       const legOut = fullDir.legs[i + 1]?.distanceM ?? 0;
       const directSeg = haversineM(prev, next);
       const detourCostM = Math.max(0, legIn + legOut - directSeg);
-      const status = this.detour.getDetourStatus(detourCostM, bufferM);
+      const detourMin = directMPerMin > 0 ? detourCostM / directMPerMin : undefined;
+      const status = this.detour.getDetourStatus(detourCostM, bufferM, detourMin, budget.minutes);
+      const req = requestFor(orderedResolved[i]);
+      const earliest = req?.earliestArrival ? Date.parse(req.earliestArrival) : undefined;
+      const latest = req?.latestArrival ? Date.parse(req.latestArrival) : undefined;
+      elapsedMin += fullDir.legs[i]?.durationMin ?? 0;
+      const arrivalTime = departAt + elapsedMin * 60000;
+      const departure = Math.max(arrivalTime, earliest ?? arrivalTime) + (req?.dwellMinutes ?? 0) * 60000;
+      elapsedMin = (departure - departAt) / 60000;
+      const hasWindow = earliest != null || latest != null;
+      const { openStatus, alternative } = await this.checkOpenOnArrival(
+        orderedResolved[i],
+        req?.category ?? orderedResolved[i].place.types?.[0] ?? orderedResolved[i].query,
+        arrivalTime,
+        bufferM,
+      );
       orderedStopsWithMeta.push({
         place: orderedResolved[i].place,
         detourCostM,
         status,
         order: i + 1,
+        arrivalTime,
+        ...(hasWindow && {
+          timeWindow: { earliest, latest },
+          timeWindowMet: latest == null || arrivalTime <= latest,
+        }),
+        openStatus,
+        ...(alternative && { alternative }),
+        ...(orderedResolved[i].alternatives?.length && { runnerUps: orderedResolved[i].alternatives }),
       });
     }
 
     const used = Math.round(totalExtraM);
-    if (used > bufferM) {
+    const withinBudget = used <= bufferM && (budget.minutes == null || totalExtraMin <= budget.minutes);
+    onProgress({ stage: 'budget', totalM: bufferM, usedM: used, totalMin: budget.minutes, usedMin: totalExtraMin, withinBudget });
+    if (!withinBudget) {
       throw new HttpException(
         {
           error: {
@@ -125,17 +267,31 @@ export class ErrandService {
       destination: { name: dest.name, location: dest.location },
       orderedStops: orderedStopsWithMeta,
       directions: fullDir,
-      detourBudget: { total: bufferM, used, remaining: Math.max(0, bufferM - used) },
+      detourBudget: {
+        total: bufferM,
+        used,
+        remaining: Math.max(0, bufferM - used),
+        totalMin: budget.minutes,
+        usedMin: totalExtraMin,
+        remainingMin: budget.minutes != null ? Math.max(0, budget.minutes - totalExtraMin) : undefined,
+      },
     });
 
     return { route, excludedStops: excluded.length ? excluded : undefined };
   }
 
+  /**
+   * Suggest places along the actual route: sample the decoded polyline, search each
+   * category around the samples, keep places within the detour corridor, then measure the
+   * real detour (route via the place minus the direct route) for the best candidates.
+   * maxDetourPercent (of the direct distance) overrides the default detour buffer.
+   */
   async suggestStopsOnRoute(
     origin: Coordinates,
     destination: Coordinates,
     categories: string[] = ['coffee', 'gas', 'grocery'],
     limit = 10,
+    maxDetourPercent?: number,
   ): Promise<{ suggestions: Array<{
     id: string;
     name: string;
@@ -143,7 +299,7 @@ export class ErrandService {
     location: Coordinates;
     mileMarker: number;
     detourCost: number;
-    status: string;
+    status: DetourStatus;
     category?: string;
     rating?: number;
     isOpen?: boolean;
@@ -151,33 +307,52 @@ export class ErrandService {
   }>; categoryCounts: Record<string, number> }> {
     const direct = await this.maps.getDirections(origin, destination);
     if (!direct) return { suggestions: [], categoryCounts: {} };
-    const bufferM = this.detour.calculateBuffer(direct.totalDistanceM);
-    const mid = {
-      lat: (origin.lat + destination.lat) / 2,
-      lng: (origin.lng + destination.lng) / 2,
-    };
+    const bufferM =
+      maxDetourPercent != null
+        ? direct.totalDistanceM * (maxDetourPercent / 100)
+        : this.detour.calculateBuffer(direct.totalDistanceM);
+    const decoded = decodePolyline(direct.polyline);
+    const path = decoded.length >= 2 ? decoded : [origin, destination];
+    const spacingM = Math.max(pathLengthM(path) / (MAX_CORRIDOR_SAMPLES - 1), bufferM);
+    const samples = samplePath(path, spacingM);
+    const radiusM = Math.max(spacingM / 2, bufferM);
     const M_TO_MI = 1 / 1609.34;
-    const all: Array<{ place: Awaited<ReturnType<typeof this.entity.resolveStops>>[0]['place']; category: string; distFromOriginM: number }> = [];
+
+    // Going out to a place and back costs roughly twice its distance off the route.
+    const found = new Map<string, { place: PlaceCandidate; category: string; alongM: number; estDetourM: number }>();
     for (const cat of categories) {
-      const resolved = await this.entity.resolveStops([cat], mid, bufferM);
-      for (const r of resolved) {
-        const d = haversineM(origin, r.place.location);
-        all.push({ place: r.place, category: cat, distFromOriginM: d });
+      for (const sample of samples) {
+        const list = await this.placeSearch.searchPlaces(cat, sample, radiusM, 20);
+        for (const place of list) {
+          if (found.has(place.placeId)) continue;
+          const { alongM, offsetM } = projectOntoPath(path, place.location);
+          if (2 * offsetM > bufferM) continue;
+          found.set(place.placeId, { place, category: cat, alongM, estDetourM: 2 * offsetM });
+        }
       }
     }
-    all.sort((a, b) => a.distFromOriginM - b.distFromOriginM);
+
+    const shortlist = [...found.values()].sort((a, b) => a.estDetourM - b.estDetourM).slice(0, limit);
+    const measured = await Promise.all(
+      shortlist.map(async (c) => {
+        const via = await this.maps.getDirections(origin, destination, [c.place.location]).catch(() => null);
+        return { ...c, detourM: via ? Math.max(0, via.totalDistanceM - direct.totalDistanceM) : c.estDetourM };
+      }),
+    );
+    const kept = measured.filter((c) => c.detourM <= bufferM).sort((a, b) => a.alongM - b.alongM);
+
     const categoryCounts: Record<string, number> = {};
     for (const c of categories) categoryCounts[c] = 0;
-    const suggestions = all.slice(0, limit).map((a, i) => {
+    const suggestions = kept.map((a, i) => {
       categoryCounts[a.category] = (categoryCounts[a.category] ?? 0) + 1;
       return {
         id: a.place.placeId,
         name: a.place.name,
         address: a.place.address,
         location: a.place.location,
-        mileMarker: a.distFromOriginM * M_TO_MI,
-        detourCost: 0,
-        status: 'NO_DETOUR' as const,
+        mileMarker: a.alongM * M_TO_MI,
+        detourCost: Math.round(a.detourM),
+        status: this.detour.getDetourStatus(a.detourM, bufferM),
         category: a.category,
         rating: a.place.rating,
         isOpen: a.place.isOpen,
@@ -189,13 +364,13 @@ export class ErrandService {
 
   async recalculate(origin: Coordinates, destination: Coordinates, stops: Array<{ placeId: string; lat: number; lng: number }>) {
     const stopLocs = stops.map((s) => ({ id: s.placeId, location: { lat: s.lat, lng: s.lng } as Coordinates }));
-    const opt = this.optimization.optimizeStopOrder(origin, destination, stopLocs);
+    const matrix = await this.roadMatrix([origin, ...stopLocs.map((s) => s.location), destination]);
+    const opt = this.optimization.optimizeStopOrder(origin, destination, stopLocs, matrix);
     const seq = (opt.sequence.filter((x) => x !== 'start' && x !== 'end') as string[]);
     const waypointLocs = seq.map((id) => stopLocs.find((s) => s.id === id)!.location);
     const dir = await this.maps.getDirections(origin, destination, waypointLocs);
     if (!dir) throw new Error('Could not get route');
-    const bufferM = this.detour.calculateBuffer(dir.totalDistanceM);
-    const used = 0;
+    const budget = this.detour.calculateBudget(dir.totalDistanceM);
     const orderedStops = seq.map((id, i) => {
       const sl = stopLocs.find((s) => s.id === id)!;
       const place = { placeId: id, name: `Stop ${i + 1}`, address: undefined as string | undefined, location: sl.location, rating: undefined as number | undefined, reviewCount: undefined as number | undefined, types: undefined as string[] | undefined, isOpen: undefined as boolean | undefined };
@@ -206,7 +381,14 @@ export class ErrandService {
       destination: { name: 'Destination', location: destination },
       orderedStops,
       directions: dir,
-      detourBudget: { total: bufferM, used, remaining: bufferM - used },
+      detourBudget: {
+        total: budget.distanceM,
+        used: 0,
+        remaining: budget.distanceM,
+        totalMin: budget.minutes,
+        usedMin: 0,
+        remainingMin: budget.minutes,
+      },
     });
   }
 
@@ -227,4 +409,96 @@ export class ErrandService {
       })),
     };
   }
+
+  /** Stops with the request-wide time constraint filled into windows they don't set themselves. */
+  private applyTimeConstraint(inp: NavigateWithStopsIn, departAt: number): StopRequest[] {
+    const tc = inp.timeConstraint;
+    if (!tc) return inp.stops;
+    const offset = inp.utcOffsetMinutes ?? -new Date(departAt).getTimezoneOffset();
+    const at = new Date(nextClockTime(tc.time, departAt, offset)).toISOString();
+    return inp.stops.map((s) =>
+      tc.kind === 'before' ? { ...s, latestArrival: s.latestArrival ?? at } : { ...s, earliestArrival: s.earliestArrival ?? at },
+    );
+  }
+
+  /** "closest first": stops by road distance from the origin (matrix row 0), straight-line without a matrix. */
+  private nearestFirst(
+    origin: Coordinates,
+    stops: Array<{ id: string; location: Coordinates }>,
+    matrix: DistanceMatrixResult | null,
+  ): string[] {
+    const fromOrigin = (i: number) => matrix?.distancesM[0]?.[i + 1] ?? haversineM(origin, stops[i].location);
+    const order = stops.map((_, i) => i).sort((a, b) => fromOrigin(a) - fromOrigin(b));
+    return ['start', ...order.map((i) => stops[i].id), 'end'];
+  }
+
+  /**
+   * Pick one place per stop query so the whole trip has the least detour (distance or
+   * time, per `objective`), e.g. the
+   * Starbucks on the way rather than the one nearest the origin. Returns each stop's
+   * runner-ups (best first) as `alternatives`, plus the road matrix over the chosen places.
+   */
+  private async chooseBranches(
+    origin: Coordinates,
+    destination: Coordinates,
+    candidates: ResolvedStop[],
+    objective: OptimizationObjective,
+  ): Promise<{ resolved: ResolvedStop[]; matrix: DistanceMatrixResult | null }> {
+    const options = candidates.map((r) => [r.place, ...(r.alternatives ?? [])]);
+    const groups = candidates.map((r, gi) => ({
+      query: r.query,
+      candidates: options[gi].map((p) => ({ id: p.placeId, location: p.location })),
+    }));
+    const points = [origin, ...options.flat().map((p) => p.location), destination];
+    const fullMatrix = await this.roadMatrix(points);
+    const selection = this.optimization.chooseCandidates(origin, destination, groups, fullMatrix, objective);
+
+    const matrixIdx = [0];
+    let offset = 1;
+    const resolved = candidates.map((r, gi) => {
+      const c = selection.chosen[gi];
+      matrixIdx.push(offset + c);
+      offset += options[gi].length;
+      const alternatives = selection.ranked[gi].filter((i) => i !== c).map((i) => options[gi][i]);
+      return { query: r.query, place: options[gi][c], ...(alternatives.length && { alternatives }) };
+    });
+    matrixIdx.push(points.length - 1);
+    return { resolved, matrix: sliceMatrix(fullMatrix, matrixIdx) };
+  }
+
+  /**
+   * Check the stop's opening hours at its ETA. When it will be closed, offer the best
+   * nearby place in the same category that is open at (approximately) the same time.
+   */
+  private async checkOpenOnArrival(
+    stop: ResolvedStop,
+    category: string,
+    arrivalTime: number,
+    bufferM: number,
+  ): Promise<{ openStatus: ArrivalOpenStatus; alternative?: PlaceCandidate }> {
+    const details = await this.placeSearch.getPlaceDetails(stop.place.placeId).catch(() => null);
+    const openStatus = arrivalOpenStatus(details?.openingHours, arrivalTime);
+    if (openStatus !== 'CLOSED_ON_ARRIVAL') return { openStatus };
+
+    const radiusM = Math.max(bufferM * 2, 2000);
+    const candidates = await this.placeSearch.searchPlaces(category, stop.place.location, radiusM, 5).catch(() => []);
+    for (const c of candidates) {
+      if (c.placeId === stop.place.placeId) continue;
+      const d = await this.placeSearch.getPlaceDetails(c.placeId).catch(() => null);
+      if (d && isOpenAt(d.openingHours, arrivalTime)) return { openStatus, alternative: d };
+    }
+    return { openStatus };
+  }
+
+  /**
+   * Road distance matrix for stop ordering. Returns null when the matrix is unavailable
+   * (too many points, API error), so the optimizer falls back to haversine.
+   */
+  private async roadMatrix(points: Coordinates[]): Promise<DistanceMatrixResult | null> {
+    try {
+      return await this.maps.getDistanceMatrix(points);
+    } catch {
+      return null;
+    }
+  }
 }
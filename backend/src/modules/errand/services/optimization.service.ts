@@ -1,8 +1,18 @@
 import { Injectable } from '@nestjs/common';
 import type { Coordinates } from '../../../common/types';
+import type { DistanceMatrixResult } from '../../maps/google-maps.service';
 
 const METERS_PER_MILE = 1609.34;
 
+/** Largest stop count solved exactly (Held-Karp is O(n^2 * 2^n)). */
+const EXACT_MAX_STOPS = 8;
+
+/** Assumed driving speed when no road durations are available (~30 km/h urban). */
+const FALLBACK_SPEED_M_PER_MIN = 500;
+
+/** Cost (meters, or minutes) traded per minute of lateness; large enough that lateness always dominates. */
+const LATE_PENALTY_M_PER_MIN = 1_000_000;
+
 function haversineMeters(a: Coordinates, b: Coordinates): number {
   const R = 6371000; // Earth radius in meters
   const dLat = ((b.lat - a.lat) * Math.PI) / 180;
@@ -18,59 +28,289 @@ function haversineMeters(a: Coordinates, b: Coordinates): number {
 export interface StopInput {
   id: string;
   location: Coordinates;
+  /** Arrival window in minutes after departure. Arriving before earliestMin waits until it. */
+  window?: { earliestMin?: number; latestMin?: number };
+  /** Minutes spent at the stop before continuing. */
+  dwellMin?: number;
+}
+
+/** 'exact': Held-Karp DP (branch and bound with time windows). 'nearest_neighbor_2opt': nearest neighbor improved by 2-opt and Or-opt. */
+export type OptimizationAlgorithm = 'exact' | 'nearest_neighbor_2opt';
+
+/** 'road': driving distances from the maps distance matrix. 'haversine': straight-line fallback. */
+export type OptimizationMetric = 'road' | 'haversine';
+
+/** What the stop order minimizes: driving distance, or driving time ("fastest"). */
+export type OptimizationObjective = 'distance' | 'duration';
+
+/** Planned timing at a stop, in minutes after departure. */
+export interface ScheduledStop {
+  id: string;
+  arrivalMin: number;
+  departureMin: number;
+  /** Minutes past window.latestMin on arrival; 0 when on time or unconstrained. */
+  lateByMin: number;
 }
 
 export interface OptimizationResult {
   sequence: string[];
   totalDistanceM: number;
   legs: Array<{ from: string; to: string; distanceM: number }>;
+  algorithm: OptimizationAlgorithm;
+  metric: OptimizationMetric;
+  schedule: ScheduledStop[];
+  /** Ids of stops whose latest arrival cannot be met by the chosen order. */
+  lateStopIds: string[];
+}
+
+/** One stop query with the places that could satisfy it (e.g. several branches of a chain). */
+export interface CandidateGroup {
+  query: string;
+  candidates: StopInput[];
+}
+
+export interface CandidateSelection {
+  /** Index into each group's candidates of the place to visit. */
+  chosen: number[];
+  /** Each group's candidate indices ranked by route length when swapped into the chosen slot, chosen first. */
+  ranked: number[][];
+  totalDistanceM: number;
+  algorithm: OptimizationAlgorithm;
+}
+
+/**
+ * Cost matrix over nodes: 0 = start, 1..n = stops[0..n-1], n + 1 = end.
+ * A road matrix passed to the optimizer must use the same node order.
+ */
+type CostMatrix = number[][];
+
+interface Problem {
+  stops: StopInput[];
+  /** What the search minimizes: meters, or minutes for the 'duration' objective. */
+  dist: CostMatrix;
+  timeMin: CostMatrix;
+  hasWindows: boolean;
 }
 
 @Injectable()
 export class OptimizationService {
   /**
-   * Optimize stop order: start -> stops -> end using nearest neighbor.
-   * Returns sequence of ids and leg distances (haversine).
+   * Optimize stop order: start -> stops -> end.
+   * Up to EXACT_MAX_STOPS stops are solved exactly; larger lists use nearest neighbor
+   * followed by 2-opt / Or-opt improvement. Leg distances and durations come from the road
+   * matrix when given; missing cells (and a missing matrix) fall back to haversine.
+   * When stops carry time windows, lateness is minimized first and distance (or, for the
+   * 'duration' objective, driving time) second.
    */
   optimizeStopOrder(
     start: Coordinates,
     end: Coordinates,
     stops: StopInput[],
+    matrix?: DistanceMatrixResult | null,
+    objective: OptimizationObjective = 'distance',
   ): OptimizationResult {
-    const order = this.nearestNeighbor(start, end, stops);
-    const totalDistanceM = this.calculateTotalDistanceOrdered(start, end, stops, order);
+    const meters = this.buildProblem(start, end, stops, matrix);
+    const p = this.withObjective(meters, objective);
+    const n = stops.length;
+    const algorithm: OptimizationAlgorithm = n <= EXACT_MAX_STOPS ? 'exact' : 'nearest_neighbor_2opt';
+    let order: number[];
+    if (algorithm === 'nearest_neighbor_2opt') {
+      order = this.improveOrder(p, this.nearestNeighborOnMatrix(p.dist, n));
+    } else if (p.hasWindows) {
+      order = this.branchAndBound(p, this.improveOrder(p, this.nearestNeighborOnMatrix(p.dist, n)));
+    } else {
+      order = this.heldKarp(p.dist, n);
+    }
+
     const legs: Array<{ from: string; to: string; distanceM: number }> = [];
-    let prev = start;
+    let prevNode = 0;
     let prevId = 'start';
-    for (let i = 0; i < order.length; i++) {
-      const idx = order[i];
-      const stop = stops[idx];
-      const d = haversineMeters(prev, stop.location);
-      legs.push({ from: prevId, to: stop.id, distanceM: d });
-      prev = stop.location;
-      prevId = stop.id;
+    for (const idx of order) {
+      legs.push({ from: prevId, to: stops[idx].id, distanceM: meters.dist[prevNode][idx + 1] });
+      prevNode = idx + 1;
+      prevId = stops[idx].id;
     }
-    legs.push({ from: prevId, to: 'end', distanceM: haversineMeters(prev, end) });
+    legs.push({ from: prevId, to: 'end', distanceM: meters.dist[prevNode][n + 1] });
+    const totalDistanceM = this.pathCost(meters.dist, order);
     const sequence = ['start', ...order.map((i) => stops[i].id), 'end'];
-    return { sequence, totalDistanceM, legs };
+    const schedule = this.schedule(p, order);
+    const lateStopIds = schedule.filter((s) => s.lateByMin > 0).map((s) => s.id);
+    return { sequence, totalDistanceM, legs, algorithm, metric: matrix ? 'road' : 'haversine', schedule, lateStopIds };
+  }
+
+  /**
+   * Pick one candidate per group so the start -> stops -> end path is shortest, or
+   * quickest for the 'duration' objective (generalized TSP). Small instances use Held-Karp over groups; larger ones start from
+   * the candidate closest to the straight line and improve order and choice locally.
+   * A road matrix must be over [start, ...all candidates in group order, end].
+   */
+  chooseCandidates(
+    start: Coordinates,
+    end: Coordinates,
+    groups: CandidateGroup[],
+    matrix?: DistanceMatrixResult | null,
+    objective: OptimizationObjective = 'distance',
+  ): CandidateSelection {
+    const flat = groups.flatMap((g) => g.candidates);
+    const groupOf = groups.flatMap((g, gi) => g.candidates.map(() => gi));
+    const offsets: number[] = [];
+    let offset = 0;
+    for (const g of groups) {
+      offsets.push(offset);
+      offset += g.candidates.length;
+    }
+    const meters = this.buildProblem(start, end, flat, matrix);
+    const p = this.withObjective(meters, objective);
+    const n = groups.length;
+
+    let order: number[];
+    let algorithm: OptimizationAlgorithm;
+    if (n <= EXACT_MAX_STOPS) {
+      order = this.heldKarpGrouped(p.dist, groupOf, n);
+      algorithm = 'exact';
+    } else {
+      const endNode = flat.length + 1;
+      const viaCost = (f: number) => p.dist[0][f + 1] + p.dist[f + 1][endNode];
+      const initial = groups.map((g, gi) => {
+        let best = offsets[gi];
+        for (let f = offsets[gi] + 1; f < offsets[gi] + g.candidates.length; f++) if (viaCost(f) < viaCost(best)) best = f;
+        return best;
+      });
+      order = this.improveOrder({ ...p, hasWindows: false }, this.nearestNeighborSubset(p.dist, initial));
+      let improved = true;
+      while (improved) {
+        improved = false;
+        for (let pos = 0; pos < order.length; pos++) {
+          const gi = groupOf[order[pos]];
+          for (let c = 0; c < groups[gi].candidates.length; c++) {
+            const cand = [...order];
+            cand[pos] = offsets[gi] + c;
+            if (this.pathCost(p.dist, cand) < this.pathCost(p.dist, order) - 1e-9) {
+              order = cand;
+              improved = true;
+            }
+          }
+        }
+      }
+      algorithm = 'nearest_neighbor_2opt';
+    }
+
+    const chosen = new Array<number>(n).fill(0);
+    order.forEach((flatIdx) => (chosen[groupOf[flatIdx]] = flatIdx - offsets[groupOf[flatIdx]]));
+    const ranked = groups.map((g, gi) => {
+      const pos = order.findIndex((f) => groupOf[f] === gi);
+      const costWith = (c: number) => {
+        const cand = [...order];
+        cand[pos] = offsets[gi] + c;
+        return this.pathCost(p.dist, cand);
+      };
+      return g.candidates
+        .map((_, c) => ({ c, cost: c === chosen[gi] ? -Infinity : costWith(c) }))
+        .sort((a, b) => a.cost - b.cost)
+        .map((x) => x.c);
+    });
+    return { chosen, ranked, totalDistanceM: this.pathCost(meters.dist, order), algorithm };
   }
 
   /**
    * Nearest neighbor: start -> nearest unvisited stop -> ... -> end.
    * Returns indices into stops array in visit order.
    */
-  nearestNeighbor(start: Coordinates, end: Coordinates, stops: StopInput[]): number[] {
-    const n = stops.length;
+  nearestNeighbor(
+    start: Coordinates,
+    end: Coordinates,
+    stops: StopInput[],
+    matrix?: DistanceMatrixResult | null,
+  ): number[] {
+    return this.nearestNeighborOnMatrix(this.buildProblem(start, end, stops, matrix).dist, stops.length);
+  }
+
+  /**
+   * Total distance in meters for sequence: start -> stops[order[0]] -> ... -> end.
+   * Uses the road matrix for segment distances when given, haversine otherwise.
+   */
+  calculateTotalDistance(
+    start: Coordinates,
+    end: Coordinates,
+    stops: StopInput[],
+    order: number[],
+    matrix?: DistanceMatrixResult | null,
+  ): number {
+    return this.pathCost(this.buildProblem(start, end, stops, matrix).dist, order);
+  }
+
+  /** Convert meters to miles. */
+  metersToMiles(m: number): number {
+    return m / METERS_PER_MILE;
+  }
+
+  private buildProblem(
+    start: Coordinates,
+    end: Coordinates,
+    stops: StopInput[],
+    matrix?: DistanceMatrixResult | null,
+  ): Problem {
+    const nodes = [start, ...stops.map((s) => s.location), end];
+    const dist = nodes.map((a, i) => nodes.map((b, j) => matrix?.distancesM[i]?.[j] ?? haversineMeters(a, b)));
+    const timeMin = nodes.map((a, i) =>
+      nodes.map((b, j) => matrix?.durationsMin[i]?.[j] ?? dist[i][j] / FALLBACK_SPEED_M_PER_MIN),
+    );
+    const hasWindows = stops.some((s) => s.window?.earliestMin != null || s.window?.latestMin != null);
+    return { stops, dist, timeMin, hasWindows };
+  }
+
+  /** The problem searched on driving minutes instead of meters for the 'duration' objective. */
+  private withObjective(p: Problem, objective: OptimizationObjective): Problem {
+    return objective === 'duration' ? { ...p, dist: p.timeMin } : p;
+  }
+
+  private pathCost(m: CostMatrix, order: number[]): number {
+    let d = 0;
+    let prev = 0;
+    for (const i of order) {
+      d += m[prev][i + 1];
+      prev = i + 1;
+    }
+    return d + m[prev][m.length - 1];
+  }
+
+  /** Arrival and departure at each stop, waiting for earliestMin and adding dwell time. */
+  private schedule(p: Problem, order: number[]): ScheduledStop[] {
+    const out: ScheduledStop[] = [];
+    let t = 0;
+    let prev = 0;
+    for (const i of order) {
+      const stop = p.stops[i];
+      t += p.timeMin[prev][i + 1];
+      const arrivalMin = t;
+      const latest = stop.window?.latestMin;
+      const lateByMin = latest != null ? Math.max(0, arrivalMin - latest) : 0;
+      t = Math.max(t, stop.window?.earliestMin ?? t) + (stop.dwellMin ?? 0);
+      out.push({ id: stop.id, arrivalMin, departureMin: t, lateByMin });
+      prev = i + 1;
+    }
+    return out;
+  }
+
+  /** Objective: distance, plus a dominating penalty for total lateness when windows apply. */
+  private objective(p: Problem, order: number[]): number {
+    const d = this.pathCost(p.dist, order);
+    if (!p.hasWindows) return d;
+    const late = this.schedule(p, order).reduce((s, x) => s + x.lateByMin, 0);
+    return d + late * LATE_PENALTY_M_PER_MIN;
+  }
+
+  private nearestNeighborOnMatrix(m: CostMatrix, n: number): number[] {
     const used = new Set<number>();
     const order: number[] = [];
-    let cur: Coordinates = start;
+    let cur = 0;
 
     while (order.length < n) {
       let best = -1;
       let bestD = Infinity;
       for (let i = 0; i < n; i++) {
         if (used.has(i)) continue;
-        const d = haversineMeters(cur, stops[i].location);
+        const d = m[cur][i + 1];
         if (d < bestD) {
           bestD = d;
           best = i;
@@ -79,42 +319,211 @@ export class OptimizationService {
       if (best < 0) break;
       order.push(best);
       used.add(best);
-      cur = stops[best].location;
+      cur = best + 1;
+    }
+    return order;
+  }
+
+  /** Nearest neighbor restricted to the given stop indices. */
+  private nearestNeighborSubset(m: CostMatrix, subset: number[]): number[] {
+    const left = [...subset];
+    const order: number[] = [];
+    let cur = 0;
+    while (left.length) {
+      let bi = 0;
+      for (let i = 1; i < left.length; i++) if (m[cur][left[i] + 1] < m[cur][left[bi] + 1]) bi = i;
+      cur = left[bi] + 1;
+      order.push(...left.splice(bi, 1));
     }
     return order;
   }
 
   /**
-   * Total distance in meters for sequence: start -> stops[order[0]] -> ... -> end.
-   * Uses haversine for segment distances.
+   * Held-Karp over groups: dp[mask][c] = cheapest path from start visiting one candidate
+   * of each group in `mask`, ending at candidate c. Returns candidate indices in visit order.
    */
-  calculateTotalDistance(
-    start: Coordinates,
-    end: Coordinates,
-    stops: StopInput[],
-    order: number[],
-  ): number {
-    return this.calculateTotalDistanceOrdered(start, end, stops, order);
+  private heldKarpGrouped(m: CostMatrix, groupOf: number[], n: number): number[] {
+    if (n === 0) return [];
+    const total = groupOf.length;
+    const full = (1 << n) - 1;
+    const end = total + 1;
+    const dp: number[][] = Array.from({ length: full + 1 }, () => new Array<number>(total).fill(Infinity));
+    const parent: number[][] = Array.from({ length: full + 1 }, () => new Array<number>(total).fill(-1));
+    for (let c = 0; c < total; c++) dp[1 << groupOf[c]][c] = m[0][c + 1];
+
+    for (let mask = 1; mask <= full; mask++) {
+      for (let c = 0; c < total; c++) {
+        const cur = dp[mask][c];
+        if (!(mask & (1 << groupOf[c])) || cur === Infinity) continue;
+        for (let k = 0; k < total; k++) {
+          if (mask & (1 << groupOf[k])) continue;
+          const next = mask | (1 << groupOf[k]);
+          const d = cur + m[c + 1][k + 1];
+          if (d < dp[next][k]) {
+            dp[next][k] = d;
+            parent[next][k] = c;
+          }
+        }
+      }
+    }
+
+    let last = 0;
+    let best = Infinity;
+    for (let c = 0; c < total; c++) {
+      const d = dp[full][c] + m[c + 1][end];
+      if (d < best) {
+        best = d;
+        last = c;
+      }
+    }
+
+    const order: number[] = [];
+    let mask = full;
+    let c = last;
+    while (c >= 0) {
+      order.push(c);
+      const p = parent[mask][c];
+      mask &= ~(1 << groupOf[c]);
+      c = p;
+    }
+    return order.reverse();
   }
 
-  private calculateTotalDistanceOrdered(
-    start: Coordinates,
-    end: Coordinates,
-    stops: StopInput[],
-    order: number[],
-  ): number {
-    let d = 0;
-    let prev = start;
-    for (const i of order) {
-      d += haversineMeters(prev, stops[i].location);
-      prev = stops[i].location;
+  /**
+   * Held-Karp DP over subsets for the open path start -> all stops -> end.
+   * dp[mask][j] = cheapest path from start visiting exactly `mask`, ending at stop j.
+   */
+  private heldKarp(m: CostMatrix, n: number): number[] {
+    if (n === 0) return [];
+    const full = (1 << n) - 1;
+    const end = n + 1;
+    const dp: number[][] = Array.from({ length: full + 1 }, () => new Array<number>(n).fill(Infinity));
+    const parent: number[][] = Array.from({ length: full + 1 }, () => new Array<number>(n).fill(-1));
+    for (let j = 0; j < n; j++) dp[1 << j][j] = m[0][j + 1];
+
+    for (let mask = 1; mask <= full; mask++) {
+      for (let j = 0; j < n; j++) {
+        const cur = dp[mask][j];
+        if (!(mask & (1 << j)) || cur === Infinity) continue;
+        for (let k = 0; k < n; k++) {
+          if (mask & (1 << k)) continue;
+          const next = mask | (1 << k);
+          const d = cur + m[j + 1][k + 1];
+          if (d < dp[next][k]) {
+            dp[next][k] = d;
+            parent[next][k] = j;
+          }
+        }
+      }
+    }
+
+    let last = 0;
+    let best = Infinity;
+    for (let j = 0; j < n; j++) {
+      const d = dp[full][j] + m[j + 1][end];
+      if (d < best) {
+        best = d;
+        last = j;
+      }
+    }
+
+    const order: number[] = [];
+    let mask = full;
+    let j = last;
+    while (j >= 0) {
+      order.push(j);
+      const p = parent[mask][j];
+      mask &= ~(1 << j);
+      j = p;
     }
-    d += haversineMeters(prev, end);
-    return d;
+    return order.reverse();
   }
 
-  /** Convert meters to miles. */
-  metersToMiles(m: number): number {
-    return m / METERS_PER_MILE;
+  /**
+   * Exact search for time-windowed stops. Subset DP is not exact once arrival times
+   * matter, so enumerate orders depth-first, pruning any prefix whose distance plus
+   * lateness penalty already reaches the incumbent (seeded with a heuristic order).
+   */
+  private branchAndBound(p: Problem, incumbent: number[]): number[] {
+    const n = p.stops.length;
+    let best = [...incumbent];
+    let bestCost = this.objective(p, best);
+    const order: number[] = [];
+    const used = new Array<boolean>(n).fill(false);
+
+    const visit = (prev: number, t: number, dist: number, late: number): void => {
+      if (dist + late * LATE_PENALTY_M_PER_MIN >= bestCost) return;
+      if (order.length === n) {
+        const total = dist + p.dist[prev][n + 1] + late * LATE_PENALTY_M_PER_MIN;
+        if (total < bestCost) {
+          bestCost = total;
+          best = [...order];
+        }
+        return;
+      }
+      for (let i = 0; i < n; i++) {
+        if (used[i]) continue;
+        const stop = p.stops[i];
+        const arrival = t + p.timeMin[prev][i + 1];
+        const latest = stop.window?.latestMin;
+        const lateHere = latest != null ? Math.max(0, arrival - latest) : 0;
+        const departure = Math.max(arrival, stop.window?.earliestMin ?? arrival) + (stop.dwellMin ?? 0);
+        used[i] = true;
+        order.push(i);
+        visit(i + 1, departure, dist + p.dist[prev][i + 1], late + lateHere);
+        order.pop();
+        used[i] = false;
+      }
+    };
+
+    visit(0, 0, 0, 0);
+    return best;
+  }
+
+  /**
+   * Local search: 2-opt segment reversal and Or-opt segment relocation (1-3 stops),
+   * repeated until no move improves the objective. Only strict improvements are accepted,
+   * so the result is never worse than the input order.
+   */
+  private improveOrder(p: Problem, initial: number[]): number[] {
+    let order = [...initial];
+    let cost = this.objective(p, order);
+    const n = order.length;
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+
+      for (let i = 0; i < n - 1; i++) {
+        for (let k = i + 1; k < n; k++) {
+          const cand = [...order.slice(0, i), ...order.slice(i, k + 1).reverse(), ...order.slice(k + 1)];
+          const c = this.objective(p, cand);
+          if (c < cost - 1e-9) {
+            order = cand;
+            cost = c;
+            improved = true;
+          }
+        }
+      }
+
+      for (let len = 1; len <= 3; len++) {
+        for (let i = 0; i + len <= n; i++) {
+          const seg = order.slice(i, i + len);
+          const rest = [...order.slice(0, i), ...order.slice(i + len)];
+          for (let pos = 0; pos <= rest.length; pos++) {
+            if (pos === i) continue;
+            const cand = [...rest.slice(0, pos), ...seg, ...rest.slice(pos)];
+            const c = this.objective(p, cand);
+            if (c < cost - 1e-9) {
+              order = cand;
+              cost = c;
+              improved = true;
+              break;
+            }
+          }
+        }
+      }
+    }
+    return order;
   }
 }
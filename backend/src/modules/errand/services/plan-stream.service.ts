@@ -0,0 +1,173 @@
+import { HttpException, Injectable, Logger } from '@nestjs/common';
+import { ConfidenceRouterService } from '../../nlu/confidence-router.service';
+import type { OrderPreference, StopDetail, TimeConstraint } from '../../nlu/entity-extractor';
+import { NluService, type NLUResponse } from '../../nlu/nlu.service';
+import { ReferenceResolverService } from '../../nlu/reference-resolver.service';
+import { AnchorService } from '../../user/anchor.service';
+import { ErrandTemplateService, type ErrandTemplate } from '../../user/errand-template.service';
+import { UserService } from '../../user/user.service';
+import type { PlanStreamDto } from '../dtos/plan-stream.dto';
+import { DetourBufferService } from './detour-buffer.service';
+import { ErrandService, type NavigateWithStopsIn, type PlanProgress } from './errand.service';
+import { SavedRouteService } from './saved-route.service';
+import { TemplateRunService } from './template-run.service';
+
+/**
+ * Server-sent event names, in the order they arrive: intent, then (when planning)
+ * destination, one stop per requested stop, route, budget and result; done ends the
+ * stream, error replaces whatever was still to come.
+ */
+export type PlanStreamEvent = 'intent' | PlanProgress['stage'] | 'result' | 'error' | 'done';
+
+const PLANNABLE_INTENTS = new Set(['navigate_with_stops', 'navigate_direct']);
+
+/**
+ * The /nlu/process → /errand/navigate-with-stops round trip as one request that reports
+ * each stage as it finishes, so the app can show staged progress and partial results.
+ */
+@Injectable()
+export class PlanStreamService {
+  private readonly logger = new Logger(PlanStreamService.name);
+
+  constructor(
+    private readonly nlu: NluService,
+    private readonly router: ConfidenceRouterService,
+    private readonly references: ReferenceResolverService,
+    private readonly errand: ErrandService,
+    private readonly detour: DetourBufferService,
+    private readonly user: UserService,
+    private readonly anchors: AnchorService,
+    private readonly savedRoutes: SavedRouteService,
+    private readonly templates: ErrandTemplateService,
+    private readonly templateRuns: TemplateRunService,
+  ) {}
+
+  /** Never throws: failures are sent as an `error` event. */
+  async run(userId: string, dto: PlanStreamDto, send: (event: PlanStreamEvent, data: unknown) => void): Promise<void> {
+    try {
+      // A template explicitly asked for ("do my Saturday run") needs no parse.
+      const template = await this.templates.findByPhrase(userId, dto.utterance).catch(() => null);
+      let res: NLUResponse;
+      let recorded: Record<string, unknown>;
+      if (template) {
+        res = this.templateResponse(dto, template);
+        recorded = res.entities;
+      } else {
+        const parsed = await this.nlu.process(dto.utterance, dto.context);
+        const disambiguation = await this.references.candidates(parsed, { userId, origin: dto.origin, preferences: dto.preferences });
+        res = { ...parsed, entities: { ...parsed.entities, ...disambiguation } };
+        recorded = parsed.entities;
+      }
+      const planning = template != null || this.shouldPlan(res);
+      send('intent', { response: res, planning });
+      await this.user.recordTurnSafely(userId, {
+        conversationId: res.conversationId,
+        utterance: dto.utterance,
+        intent: res.intent,
+        confidence: res.confidence,
+        entities: recorded,
+        agent: res.agent,
+        systemResponse: this.nlu.summarize(res),
+      });
+      if (!planning) {
+        send('done', { planned: false });
+        return;
+      }
+
+      const progress = ({ stage, ...data }: PlanProgress) => send(stage, data);
+      const result = template
+        ? await this.templateRuns.run(userId, template, dto, progress)
+        : await this.planParsed(userId, dto, res, progress);
+      if (res.conversationId) {
+        await this.user.attachRouteToLatestTurn(userId, res.conversationId, result.route.id).catch(() => null);
+      }
+      send('result', { route: result.route, excludedStops: result.excludedStops });
+      send('done', { planned: true });
+    } catch (err) {
+      send('error', this.errorBody(err));
+    }
+  }
+
+  /** Plan what the parse asked for and save the route; "home" or "work" is the user's anchor. */
+  private async planParsed(userId: string, dto: PlanStreamDto, res: NLUResponse, progress: (p: PlanProgress) => void) {
+    const e = res.entities as {
+      destination: string;
+      stops?: string[];
+      stopDetails?: StopDetail[];
+      orderPreference?: OrderPreference;
+      radius?: number;
+      timeConstraint?: TimeConstraint;
+    };
+    const stored = await this.user.preferencesSafely(userId);
+    const anchors = await this.anchors.list(userId);
+    const inp: NavigateWithStopsIn = {
+      origin: dto.origin,
+      destination: { name: e.destination },
+      stops: (e.stops ?? []).map((name, i) => ({
+        name,
+        category: e.stopDetails?.[i]?.category,
+        brand: e.stopDetails?.[i]?.brand,
+      })),
+      anchors,
+      departureTime: dto.departureTime,
+      preferences: this.detour.preferencesFrom({ ...stored, ...dto.preferences }),
+      orderPreference: e.orderPreference,
+      radiusM: e.radius,
+      timeConstraint: e.timeConstraint,
+      utcOffsetMinutes: dto.utcOffsetMinutes,
+    };
+    const result = await this.errand.navigateWithStops(inp, progress);
+    return { ...result, route: await this.savedRoutes.save(userId, inp, result.route) };
+  }
+
+  /** What the app sees for a template run: the template's errand, as a certain parse. */
+  private templateResponse(dto: PlanStreamDto, t: ErrandTemplate): NLUResponse {
+    return {
+      intent: 'navigate_with_stops',
+      confidence: 1,
+      entities: {
+        destination: t.destination.name,
+        stops: t.stops.map((s) => s.name),
+        template: { id: t.id, name: t.name },
+      },
+      agent: 'local',
+      utterance: dto.utterance,
+      processingTime: 0,
+      conversationId: dto.context?.conversationId,
+    };
+  }
+
+  /**
+   * Plan right away only when the app would: a route intent with a destination, confident
+   * enough to execute under the intent's policy, and nothing left to disambiguate.
+   */
+  private shouldPlan(res: NLUResponse): boolean {
+    const { destination, disambiguationCandidates } = res.entities as {
+      destination?: unknown;
+      disambiguationCandidates?: unknown[];
+    };
+    const policy = this.router.policyFor(res.intent);
+    return (
+      PLANNABLE_INTENTS.has(res.intent) &&
+      typeof destination === 'string' &&
+      destination.trim() !== '' &&
+      !disambiguationCandidates?.length &&
+      res.confidence >= policy.high &&
+      !policy.alwaysConfirm
+    );
+  }
+
+  /** Same `{ code, message, suggestions }` the HTTP endpoints return. */
+  private errorBody(err: unknown): { code: string; message: string; suggestions?: unknown } {
+    if (err instanceof HttpException) {
+      const body = err.getResponse() as { error?: { code?: string; message?: string; suggestions?: unknown } };
+      return {
+        code: body?.error?.code ?? `HTTP_${err.getStatus()}`,
+        message: body?.error?.message ?? err.message,
+        suggestions: body?.error?.suggestions,
+      };
+    }
+    this.logger.error(err instanceof Error ? err.message : String(err));
+    return { code: 'SERVER_ERROR', message: err instanceof Error ? err.message : 'An unexpected error occurred' };
+  }
+}
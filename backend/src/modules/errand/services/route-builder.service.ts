@@ -3,9 +3,14 @@ import type { Coordinates } from '../../../common/types';
 import type { DetourStatus } from '../../../common/constants/detour.constants';
 import type { DirectionsResult } from '../../maps/google-maps.service';
 import type { PlaceCandidate } from '../../places/google-places.service';
+import type { ArrivalOpenStatus } from '../../places/opening-hours';
 
 const M_TO_MI = 1 / 1609.34;
 
+function toOption(p: PlaceCandidate): { id: string; name: string; address?: string; location: Coordinates; rating?: number } {
+  return { id: p.placeId, name: p.name, address: p.address, location: p.location, rating: p.rating };
+}
+
 export interface RouteBuildInput {
   origin: { name: string; location: Coordinates };
   destination: { name: string; location: Coordinates };
@@ -14,9 +19,16 @@ export interface RouteBuildInput {
     detourCostM: number;
     status: DetourStatus;
     order: number;
+    arrivalTime?: number;
+    timeWindow?: { earliest?: number; latest?: number };
+    timeWindowMet?: boolean;
+    openStatus?: ArrivalOpenStatus;
+    alternative?: PlaceCandidate;
+    runnerUps?: PlaceCandidate[];
   }>;
   directions: DirectionsResult;
-  detourBudget: { total: number; used: number; remaining: number };
+  /** Meters (total/used/remaining) and minutes (usedMin; totalMin/remainingMin with a minute limit). */
+  detourBudget: { total: number; used: number; remaining: number; totalMin?: number; usedMin: number; remainingMin?: number };
 }
 
 @Injectable()
@@ -40,13 +52,25 @@ export class RouteBuilderService {
       rating?: number;
       isOpen?: boolean;
       order: number;
+      /** Estimated arrival (epoch ms). */
+      arrivalTime?: number;
+      /** Requested arrival window (epoch ms). */
+      timeWindow?: { earliest?: number; latest?: number };
+      /** False when the estimated arrival is after timeWindow.latest. */
+      timeWindowMet?: boolean;
+      /** Opening hours checked against arrivalTime. */
+      openStatus?: ArrivalOpenStatus;
+      /** Open place in the same category, offered when openStatus is CLOSED_ON_ARRIVAL. */
+      alternative?: { id: string; name: string; address?: string; location: Coordinates; rating?: number };
+      /** Other places matching the same request, best first ("use a different Starbucks"). */
+      runnerUps?: Array<{ id: string; name: string; address?: string; location: Coordinates; rating?: number }>;
     }>;
     waypoints: Array<{ id: string; location: Coordinates; type: 'start' | 'stop' | 'destination'; stopId?: string }>;
     legs: Array<{ id: string; startWaypoint: string; endWaypoint: string; distance: number; duration: number; polyline: string }>;
     totalDistance: number;
     totalTime: number;
     polyline: string;
-    detourBudget: { total: number; used: number; remaining: number };
+    detourBudget: { total: number; used: number; remaining: number; totalMin?: number; usedMin: number; remainingMin?: number };
     createdAt: number;
   } {
     const { origin, destination, orderedStops, directions, detourBudget } = input;
@@ -73,6 +97,12 @@ export class RouteBuilderService {
         rating: s.place.rating,
         isOpen: s.place.isOpen,
         order: s.order,
+        arrivalTime: s.arrivalTime,
+        timeWindow: s.timeWindow,
+        timeWindowMet: s.timeWindowMet,
+        openStatus: s.openStatus,
+        alternative: s.alternative && toOption(s.alternative),
+        runnerUps: s.runnerUps?.map(toOption),
       };
     });
 
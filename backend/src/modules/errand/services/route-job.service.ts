@@ -0,0 +1,190 @@
+import { getQueueToken } from '@nestjs/bull';
+import { HttpException, Inject, Injectable, Logger, OnModuleInit, Optional } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import type { Job, JobStatus, Queue } from 'bull';
+import { OPTIMIZE_ROUTE_QUEUE } from '../../queue/queue.module';
+import { ErrandService, type NavigateWithStopsIn, type PlanProgress } from './errand.service';
+import { SavedRouteService, type PlannedRoute } from './saved-route.service';
+
+export type RouteJobStatus = 'waiting' | 'active' | 'completed' | 'failed';
+
+export interface RouteJobProgress {
+  /** 0–100. */
+  percent: number;
+  /** Last PlanProgress stage reached. */
+  stage?: PlanProgress['stage'];
+}
+
+export interface RouteJobResult {
+  route: PlannedRoute;
+  excludedStops?: Array<{ name: string; reason: string }>;
+}
+
+export interface RouteJob {
+  id: string;
+  status: RouteJobStatus;
+  progress: RouteJobProgress;
+  /** Same body as POST /errand/navigate-with-stops, once completed. */
+  result?: RouteJobResult;
+  error?: string;
+  createdAt: string;
+}
+
+interface OptimizeRouteData {
+  userId: string;
+  inp: NavigateWithStopsIn;
+}
+
+/** In-process stand-in for a Bull job. */
+interface LocalJob extends RouteJob {
+  data: OptimizeRouteData;
+  finishedAt?: number;
+}
+
+/** Jobs planned at once, per process. */
+const CONCURRENCY = 2;
+
+/** Finished jobs (and their results) are kept this long for polling. */
+const KEEP_FINISHED_SEC = 3600;
+
+/** What the HTTP endpoint would have said: the `{ error: { message } }` body of an HttpException. */
+function errorMessage(e: unknown): string {
+  if (e instanceof HttpException) {
+    const body = e.getResponse() as { error?: { message?: string } };
+    return body?.error?.message ?? e.message;
+  }
+  return e instanceof Error ? e.message : String(e);
+}
+
+/**
+ * optimize_route jobs: a navigate-with-stops plan (saved like any other) run outside the
+ * request that asked for it. Jobs go to the Bull queue when QueueModule is registered and
+ * Redis is reachable, otherwise they run in this process and live in memory.
+ */
+@Injectable()
+export class RouteJobService implements OnModuleInit {
+  private readonly logger = new Logger(RouteJobService.name);
+  private readonly local = new Map<string, LocalJob>();
+  private readonly pending: LocalJob[] = [];
+  private running = 0;
+
+  constructor(
+    private readonly errand: ErrandService,
+    private readonly savedRoutes: SavedRouteService,
+    @Optional() @Inject(getQueueToken(OPTIMIZE_ROUTE_QUEUE)) private readonly queue?: Queue<OptimizeRouteData>,
+  ) {}
+
+  onModuleInit() {
+    if (!this.queue) return;
+    this.queue
+      .process(CONCURRENCY, (job: Job<OptimizeRouteData>) =>
+        this.plan(job.data, (p) => job.progress(p).catch(() => undefined)).catch((e) => {
+          throw new Error(errorMessage(e));
+        }),
+      )
+      .catch((e) => this.logger.warn(`optimize_route worker stopped: ${e instanceof Error ? e.message : e}`));
+    this.queue.on('error', (e) => this.logger.warn(`optimize_route queue: ${e.message}`));
+  }
+
+  async submit(userId: string, inp: NavigateWithStopsIn): Promise<RouteJob> {
+    const data: OptimizeRouteData = { userId, inp };
+    if (this.queueReady()) {
+      const job = await this.queue!.add(data, {
+        jobId: randomUUID(),
+        removeOnComplete: { age: KEEP_FINISHED_SEC },
+        removeOnFail: { age: KEEP_FINISHED_SEC },
+      });
+      return this.fromBull(job, 'waiting');
+    }
+    this.prune();
+    const job: LocalJob = {
+      id: randomUUID(),
+      status: 'waiting',
+      progress: { percent: 0 },
+      createdAt: new Date().toISOString(),
+      data,
+    };
+    this.local.set(job.id, job);
+    this.pending.push(job);
+    this.drain();
+    return this.view(job);
+  }
+
+  /** Null when the job does not exist, has expired or belongs to someone else. */
+  async get(userId: string, jobId: string): Promise<RouteJob | null> {
+    const local = this.local.get(jobId);
+    if (local) return local.data.userId === userId ? this.view(local) : null;
+    if (!this.queue) return null;
+    const job = await this.queue.getJob(jobId).catch(() => null);
+    if (!job || job.data.userId !== userId) return null;
+    return this.fromBull(job, await job.getState());
+  }
+
+  /** Plan and save; progress is reported as a percentage of the stages navigateWithStops goes through. */
+  private async plan(data: OptimizeRouteData, report: (p: RouteJobProgress) => void): Promise<RouteJobResult> {
+    const stops = Math.max(1, data.inp.stops.length);
+    let stopsDone = 0;
+    const result = await this.errand.navigateWithStops(data.inp, (p) => {
+      if (p.stage === 'destination') report({ percent: 10, stage: p.stage });
+      else if (p.stage === 'stop') report({ percent: 10 + Math.round((60 * ++stopsDone) / stops), stage: p.stage });
+      else if (p.stage === 'route') report({ percent: 80, stage: p.stage });
+      else report({ percent: 90, stage: p.stage });
+    });
+    const route = await this.savedRoutes.save(data.userId, data.inp, result.route);
+    return { route, excludedStops: result.excludedStops };
+  }
+
+  /** Redis can be configured and still down; then Bull would hold the job until it comes back. */
+  private queueReady(): boolean {
+    return this.queue?.client.status === 'ready';
+  }
+
+  private drain() {
+    while (this.running < CONCURRENCY && this.pending.length) {
+      const job = this.pending.shift()!;
+      this.running++;
+      job.status = 'active';
+      this.plan(job.data, (p) => (job.progress = p))
+        .then((result) => {
+          job.status = 'completed';
+          job.progress = { ...job.progress, percent: 100 };
+          job.result = result;
+        })
+        .catch((e) => {
+          job.status = 'failed';
+          job.error = errorMessage(e);
+          this.logger.warn(`optimize_route job ${job.id} failed: ${job.error}`);
+        })
+        .finally(() => {
+          job.finishedAt = Date.now();
+          this.running--;
+          this.drain();
+        });
+    }
+  }
+
+  private prune() {
+    const cutoff = Date.now() - KEEP_FINISHED_SEC * 1000;
+    for (const [id, job] of this.local) {
+      if (job.finishedAt && job.finishedAt < cutoff) this.local.delete(id);
+    }
+  }
+
+  private view({ data: _data, finishedAt: _finishedAt, ...job }: LocalJob): RouteJob {
+    return { ...job, progress: { ...job.progress } };
+  }
+
+  private fromBull(job: Job<OptimizeRouteData>, state: JobStatus | 'stuck'): RouteJob {
+    const status: RouteJobStatus =
+      state === 'completed' || state === 'failed' || state === 'active' ? state : 'waiting';
+    const progress = job.progress();
+    return {
+      id: String(job.id),
+      status,
+      progress: status === 'completed' ? { ...progress, percent: 100 } : typeof progress === 'object' ? progress : { percent: 0 },
+      result: status === 'completed' ? job.returnvalue : undefined,
+      error: status === 'failed' ? job.failedReason : undefined,
+      createdAt: new Date(job.timestamp).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,137 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { ErrandService, type NavigateWithStopsIn } from './errand.service';
+import type { RouteBuilderService } from './route-builder.service';
+
+export type PlannedRoute = ReturnType<RouteBuilderService['build']>;
+
+export interface SavedRouteSummary {
+  id: string;
+  origin: { lat: number; lng: number };
+  destination: { name?: string; location: { lat: number; lng: number } };
+  stopNames: string[];
+  /** Miles. */
+  totalDistance: number;
+  /** Minutes. */
+  totalTime: number;
+  optimizationScore?: number;
+  createdAt: string;
+}
+
+export interface ReplanOverrides {
+  /** Defaults to the saved route's origin. */
+  origin?: { lat: number; lng: number };
+  /** ISO 8601; defaults to now. */
+  departureTime?: string;
+  utcOffsetMinutes?: number;
+}
+
+const MI_TO_M = 1609.34;
+
+/**
+ * Every planned route, per user: listed on the Route tab as recent trips and replayable
+ * ("same errand as yesterday") from the planning input stored alongside it.
+ */
+@Injectable()
+export class SavedRouteService {
+  private readonly logger = new Logger(SavedRouteService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly errand: ErrandService,
+  ) {}
+
+  /**
+   * Persist a planned route and return it under its row id. Best effort, like conversation
+   * turns: when the write fails the route keeps its builder id and planning still succeeds.
+   */
+  async save(userId: string, inp: NavigateWithStopsIn, route: PlannedRoute): Promise<PlannedRoute> {
+    try {
+      const row = await this.prisma.route.create({
+        data: {
+          userId,
+          startLatitude: route.origin.location.lat,
+          startLongitude: route.origin.location.lng,
+          endLatitude: route.destination.location.lat,
+          endLongitude: route.destination.location.lng,
+          destinationName: route.destination.name,
+          stops: route.stops as object,
+          totalDistanceM: Math.round(route.totalDistance * MI_TO_M),
+          totalTimeMin: Math.round(route.totalTime),
+          optimizationScore: this.optimizationScore(route),
+          // Replan from the resolved destination instead of geocoding the name again.
+          request: { ...inp, destination: { name: route.destination.name, location: route.destination.location } } as object,
+          plan: route as object,
+        },
+      });
+      return { ...route, id: row.id };
+    } catch (e) {
+      this.logger.warn(`Could not save route: ${e instanceof Error ? e.message : e}`);
+      return route;
+    }
+  }
+
+  /** Most recent first. */
+  async list(userId: string, limit = 20, offset = 0): Promise<{ routes: SavedRouteSummary[]; total: number }> {
+    const rows = await this.prisma.route.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      skip: offset,
+    });
+    const total = await this.prisma.route.count({ where: { userId } });
+    const routes = rows.map((r) => ({
+      id: r.id,
+      origin: { lat: r.startLatitude, lng: r.startLongitude },
+      destination: { name: r.destinationName ?? undefined, location: { lat: r.endLatitude, lng: r.endLongitude } },
+      stopNames: ((r.stops as Array<{ name?: string }>) ?? []).map((s) => s.name ?? ''),
+      totalDistance: r.totalDistanceM / MI_TO_M,
+      totalTime: r.totalTimeMin,
+      optimizationScore: r.optimizationScore ?? undefined,
+      createdAt: r.createdAt.toISOString(),
+    }));
+    return { routes, total };
+  }
+
+  /** The route as it was returned when planned, or null when it is not the user's. */
+  async get(userId: string, routeId: string): Promise<PlannedRoute | null> {
+    const r = await this.prisma.route.findFirst({ where: { id: routeId, userId } });
+    if (!r?.plan) return null;
+    return { ...(r.plan as unknown as PlannedRoute), id: r.id };
+  }
+
+  async delete(userId: string, routeId: string): Promise<boolean> {
+    const r = await this.prisma.route.deleteMany({ where: { id: routeId, userId } });
+    return r.count > 0;
+  }
+
+  /**
+   * Plan the saved errand again with current traffic and opening hours; the result is saved
+   * as a new route. Per-stop arrival windows were absolute times for the original trip and are
+   * dropped; a relative timeConstraint ("before 5pm") still applies. Null when not found.
+   */
+  async replan(
+    userId: string,
+    routeId: string,
+    overrides: ReplanOverrides = {},
+  ): Promise<{ route: PlannedRoute; excludedStops?: Array<{ name: string; reason: string }> } | null> {
+    const r = await this.prisma.route.findFirst({ where: { id: routeId, userId }, select: { request: true } });
+    if (!r?.request) return null;
+    const saved = r.request as unknown as NavigateWithStopsIn;
+    const inp: NavigateWithStopsIn = {
+      ...saved,
+      origin: overrides.origin ?? saved.origin,
+      stops: saved.stops.map(({ earliestArrival: _e, latestArrival: _l, ...s }) => s),
+      departureTime: overrides.departureTime,
+      utcOffsetMinutes: overrides.utcOffsetMinutes ?? saved.utcOffsetMinutes,
+    };
+    const result = await this.errand.navigateWithStops(inp);
+    return { ...result, route: await this.save(userId, inp, result.route) };
+  }
+
+  /** Share of the detour budget left unused, 0..1 (1 = no detour at all). */
+  private optimizationScore(route: PlannedRoute): number {
+    const { total, remaining } = route.detourBudget;
+    return total > 0 ? Math.min(1, Math.max(0, remaining / total)) : 1;
+  }
+}
@@ -0,0 +1,61 @@
+import { Injectable } from '@nestjs/common';
+import type { Coordinates } from '../../../common/types';
+import { AnchorService } from '../../user/anchor.service';
+import type { ErrandTemplate } from '../../user/errand-template.service';
+import { UserService } from '../../user/user.service';
+import { DetourBufferService } from './detour-buffer.service';
+import { ErrandService, type NavigateWithStopsIn, type PlanProgress } from './errand.service';
+import { SavedRouteService, type PlannedRoute } from './saved-route.service';
+
+export interface TemplateRunOptions {
+  /** Current location; the route starts here. */
+  origin: Coordinates;
+  /** ISO 8601; defaults to now. */
+  departureTime?: string;
+  utcOffsetMinutes?: number;
+  /** Per-run detour overrides, on top of the template's and the user's stored ones. */
+  preferences?: Record<string, unknown>;
+}
+
+/** Instantiates an errand template against the current location (one tap or "do my Saturday run"). */
+@Injectable()
+export class TemplateRunService {
+  constructor(
+    private readonly anchors: AnchorService,
+    private readonly user: UserService,
+    private readonly detour: DetourBufferService,
+    private readonly errand: ErrandService,
+    private readonly savedRoutes: SavedRouteService,
+  ) {}
+
+  /**
+   * Planning input for a template; the destination anchor's current location wins over its
+   * name, and a destination given by name ("home") still matches the user's anchors.
+   */
+  async planInput(userId: string, template: ErrandTemplate, opts: TemplateRunOptions): Promise<NavigateWithStopsIn> {
+    const anchors = await this.anchors.list(userId);
+    const anchor = template.destination.anchorId ? anchors.find((a) => a.id === template.destination.anchorId) : undefined;
+    const stored = await this.user.preferencesSafely(userId);
+    return {
+      origin: opts.origin,
+      destination: anchor ? { name: anchor.name, location: anchor.location } : { name: template.destination.name },
+      stops: template.stops.map((s) => ({ name: s.name, category: s.category, brand: s.brand, dwellMinutes: s.dwellMinutes })),
+      anchors,
+      departureTime: opts.departureTime,
+      preferences: this.detour.preferencesFrom({ ...stored, ...template.preferences, ...opts.preferences }),
+      utcOffsetMinutes: opts.utcOffsetMinutes,
+    };
+  }
+
+  /** Plan the template and save the route like any other. */
+  async run(
+    userId: string,
+    template: ErrandTemplate,
+    opts: TemplateRunOptions,
+    onProgress?: (p: PlanProgress) => void,
+  ): Promise<{ route: PlannedRoute; excludedStops?: Array<{ name: string; reason: string }> }> {
+    const inp = await this.planInput(userId, template, opts);
+    const result = await this.errand.navigateWithStops(inp, onProgress);
+    return { route: await this.savedRoutes.save(userId, inp, result.route), excludedStops: result.excludedStops };
+  }
+}
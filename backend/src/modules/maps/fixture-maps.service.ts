@@ -0,0 +1,24 @@
+import { Injectable } from '@nestjs/common';
+import type { Coordinates } from '../../common/types';
+import { findIntersection, LANDMARKS, nearestAddress, PLACES } from '../../fixtures/synthetic-city';
+import { GoogleMapsService, type GeocodeResult } from './google-maps.service';
+
+/**
+ * GoogleMapsService for fixture mode: geocodes against the synthetic city.
+ * Directions and matrices already go through the (fixture) routing provider.
+ */
+@Injectable()
+export class FixtureMapsService extends GoogleMapsService {
+  async geocode(address: string): Promise<GeocodeResult | null> {
+    const q = address.trim().toLowerCase();
+    const landmark = LANDMARKS.find((l) => l.names.includes(q) || l.address.toLowerCase() === q);
+    if (landmark) return { address: landmark.address, location: landmark.location };
+    const place = PLACES.find((p) => p.name.toLowerCase() === q || p.address.toLowerCase() === q);
+    if (place) return { address: place.address, location: place.location };
+    return findIntersection(q);
+  }
+
+  async reverseGeocode(location: Coordinates): Promise<GeocodeResult | null> {
+    return { address: nearestAddress(location), location };
+  }
+}
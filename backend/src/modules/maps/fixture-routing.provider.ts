@@ -0,0 +1,122 @@
+import { Injectable } from '@nestjs/common';
+import type { Coordinates } from '../../common/types';
+import { ROAD_EDGES, ROAD_NODES } from '../../fixtures/synthetic-city';
+import { encodePolyline, haversineM } from './polyline';
+import type { DirectionsLeg, DirectionsResult, DistanceMatrixResult, RoutingProvider } from './routing-provider';
+
+/** Speed for the straight-line hop between a point and its nearest intersection. */
+const ACCESS_M_PER_MIN = 250;
+
+interface ShortestPaths {
+  durationMin: number[];
+  distanceM: number[];
+  prev: number[];
+}
+
+/**
+ * Offline routing over the synthetic-city road graph (fixture mode).
+ * Points snap to their nearest intersection; paths are fastest-time Dijkstra.
+ */
+@Injectable()
+export class FixtureRoutingProvider implements RoutingProvider {
+  readonly name = 'fixture';
+
+  private readonly adjacency: Array<Array<{ to: number; distanceM: number; durationMin: number }>>;
+
+  constructor() {
+    this.adjacency = ROAD_NODES.map(() => []);
+    for (const e of ROAD_EDGES) this.adjacency[e.from].push({ to: e.to, distanceM: e.distanceM, durationMin: e.durationMin });
+  }
+
+  async getDirections(origin: Coordinates, destination: Coordinates, waypoints?: Coordinates[]): Promise<DirectionsResult | null> {
+    const points = [origin, ...(waypoints ?? []), destination];
+    const path: Coordinates[] = [];
+    const legs: DirectionsLeg[] = [];
+    for (let i = 0; i + 1 < points.length; i++) {
+      const leg = this.leg(points[i], points[i + 1]);
+      if (!leg) return null;
+      path.push(...(i === 0 ? leg.path : leg.path.slice(1)));
+      legs.push({ distanceM: leg.distanceM, durationMin: leg.durationMin, startLocation: points[i], endLocation: points[i + 1] });
+    }
+    return {
+      polyline: encodePolyline(path),
+      totalDistanceM: legs.reduce((s, l) => s + l.distanceM, 0),
+      totalDurationMin: legs.reduce((s, l) => s + l.durationMin, 0),
+      legs,
+    };
+  }
+
+  async getDistanceMatrix(points: Coordinates[]): Promise<DistanceMatrixResult | null> {
+    const snapped = points.map((p) => this.snap(p));
+    const distancesM: Array<Array<number | null>> = [];
+    const durationsMin: Array<Array<number | null>> = [];
+    for (let i = 0; i < points.length; i++) {
+      const sp = this.dijkstra(snapped[i].node);
+      distancesM.push([]);
+      durationsMin.push([]);
+      for (let j = 0; j < points.length; j++) {
+        if (i === j) {
+          distancesM[i].push(0);
+          durationsMin[i].push(0);
+          continue;
+        }
+        const n = snapped[j].node;
+        const reachable = Number.isFinite(sp.durationMin[n]);
+        const accessM = snapped[i].offsetM + snapped[j].offsetM;
+        distancesM[i].push(reachable ? sp.distanceM[n] + accessM : null);
+        durationsMin[i].push(reachable ? sp.durationMin[n] + accessM / ACCESS_M_PER_MIN : null);
+      }
+    }
+    return { distancesM, durationsMin };
+  }
+
+  private leg(from: Coordinates, to: Coordinates): { path: Coordinates[]; distanceM: number; durationMin: number } | null {
+    const a = this.snap(from);
+    const b = this.snap(to);
+    const sp = this.dijkstra(a.node);
+    if (!Number.isFinite(sp.durationMin[b.node])) return null;
+    const nodes: number[] = [];
+    for (let n = b.node; n !== -1; n = sp.prev[n]) nodes.unshift(n);
+    const accessM = a.offsetM + b.offsetM;
+    return {
+      path: [from, ...nodes.map((n) => ROAD_NODES[n]), to],
+      distanceM: sp.distanceM[b.node] + accessM,
+      durationMin: sp.durationMin[b.node] + accessM / ACCESS_M_PER_MIN,
+    };
+  }
+
+  private snap(p: Coordinates): { node: number; offsetM: number } {
+    let best = { node: 0, offsetM: Infinity };
+    ROAD_NODES.forEach((n, i) => {
+      const d = haversineM(p, n);
+      if (d < best.offsetM) best = { node: i, offsetM: d };
+    });
+    return best;
+  }
+
+  /** Fastest paths from `source`; the graph is 64 nodes, so a linear scan beats a heap. */
+  private dijkstra(source: number): ShortestPaths {
+    const n = ROAD_NODES.length;
+    const durationMin = new Array<number>(n).fill(Infinity);
+    const distanceM = new Array<number>(n).fill(Infinity);
+    const prev = new Array<number>(n).fill(-1);
+    const done = new Array<boolean>(n).fill(false);
+    durationMin[source] = 0;
+    distanceM[source] = 0;
+    for (;;) {
+      let u = -1;
+      for (let i = 0; i < n; i++) if (!done[i] && (u < 0 || durationMin[i] < durationMin[u])) u = i;
+      if (u < 0 || !Number.isFinite(durationMin[u])) break;
+      done[u] = true;
+      for (const e of this.adjacency[u]) {
+        const t = durationMin[u] + e.durationMin;
+        if (t < durationMin[e.to]) {
+          durationMin[e.to] = t;
+          distanceM[e.to] = distanceM[u] + e.distanceM;
+          prev[e.to] = u;
+        }
+      }
+    }
+    return { durationMin, distanceM, prev };
+  }
+}
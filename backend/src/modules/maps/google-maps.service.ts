@@ -1,22 +1,12 @@
 import { createHash } from 'crypto';
-import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { HttpException, HttpStatus, Inject, Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { CacheService, CACHE_TTL } from '../cache/cache.service';
+import { cassetteFetch } from '../cassette/cassette';
 import type { Coordinates } from '../../common/types';
+import { ROUTING_PROVIDER, type DirectionsResult, type DistanceMatrixResult, type RoutingProvider } from './routing-provider';
 
-export interface DirectionsLeg {
-  distanceM: number;
-  durationMin: number;
-  startLocation: Coordinates;
-  endLocation: Coordinates;
-}
-
-export interface DirectionsResult {
-  polyline: string;
-  totalDistanceM: number;
-  totalDurationMin: number;
-  legs: DirectionsLeg[];
-}
+export type { DirectionsLeg, DirectionsResult, DistanceMatrixResult } from './routing-provider';
 
 export interface GeocodeResult {
   address: string;
@@ -31,6 +21,7 @@ export class GoogleMapsService {
   constructor(
     private config: ConfigService,
     private cache: CacheService,
+    @Inject(ROUTING_PROVIDER) private routing: RoutingProvider,
   ) {
     this.apiKey = this.config.get<string>('GOOGLE_MAPS_API_KEY') ?? '';
   }
@@ -53,7 +44,7 @@ export class GoogleMapsService {
     Object.entries({ ...params, key: this.apiKey }).forEach(([k, v]) =>
       url.searchParams.set(k, v),
     );
-    const res = await fetch(url.toString());
+    const res = await cassetteFetch(url.toString());
     if (!res.ok) {
       const t = await res.text();
       if (res.status === 429) {
@@ -78,8 +69,8 @@ export class GoogleMapsService {
   }
 
   /**
-   * Get directions from origin to destination with optional waypoints.
-   * Uses Routes API (v2 computeRoutes). Returns polyline, total distance (m), total duration (min), and legs.
+   * Get directions from origin to destination with optional waypoints, from the configured
+   * routing provider. Returns polyline, total distance (m), total duration (min), and legs.
    */
   async getDirections(
     origin: Coordinates,
@@ -87,114 +78,32 @@ export class GoogleMapsService {
     waypoints?: Coordinates[],
   ): Promise<DirectionsResult | null> {
     const wp = waypoints?.length ? waypoints.map((w) => `${w.lat},${w.lng}`).join('|') : '';
-    const key = `route:${origin.lat}:${origin.lng}:${destination.lat}:${destination.lng}:${wp}`;
+    const key = `route:${this.routing.name}:${origin.lat}:${origin.lng}:${destination.lat}:${destination.lng}:${wp}`;
     const cached = await this.cache.get<DirectionsResult>(key);
     if (cached) return cached;
 
-    if (!this.apiKey?.trim()) {
-      throw new HttpException(
-        {
-          error: {
-            code: 'MISSING_API_KEY',
-            message: 'GOOGLE_MAPS_API_KEY is not set.',
-            suggestions: ['Set GOOGLE_MAPS_API_KEY in .env', 'Ensure the key has Routes API enabled'],
-          },
-        },
-        HttpStatus.SERVICE_UNAVAILABLE,
-      );
-    }
-
-    const body = {
-      origin: { location: { latLng: { latitude: origin.lat, longitude: origin.lng } } },
-      destination: { location: { latLng: { latitude: destination.lat, longitude: destination.lng } } },
-      ...(waypoints?.length
-        ? {
-            intermediates: waypoints.map((w) => ({
-              location: { latLng: { latitude: w.lat, longitude: w.lng } },
-            })),
-          }
-        : {}),
-      travelMode: 'DRIVE',
-      polylineQuality: 'OVERVIEW',
-      polylineEncoding: 'ENCODED_POLYLINE',
-    };
-
-    const url = 'https://routes.googleapis.com/directions/v2:computeRoutes';
-    const res = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Goog-Api-Key': this.apiKey,
-        'X-Goog-FieldMask':
-          'routes.duration,routes.distanceMeters,routes.polyline.encodedPolyline,routes.legs.startLocation,routes.legs.endLocation,routes.legs.distanceMeters,routes.legs.duration',
-      },
-      body: JSON.stringify(body),
-    });
-
-    const text = await res.text();
-    if (!res.ok) {
-      if (res.status === 429) {
-        throw new HttpException(
-          {
-            error: {
-              code: 'API_QUOTA_EXCEEDED',
-              message: 'Routes API quota exceeded.',
-              suggestions: ['Retry later', 'Check quota in Google Cloud Console'],
-            },
-          },
-          HttpStatus.TOO_MANY_REQUESTS,
-        );
-      }
-      throw new Error(`Routes API error: ${res.status} ${text}`);
-    }
-
-    let json: {
-      routes?: Array<{
-        distanceMeters?: number;
-        duration?: string;
-        polyline?: { encodedPolyline?: string };
-        legs?: Array<{
-          startLocation?: { latitude?: number; longitude?: number };
-          endLocation?: { latitude?: number; longitude?: number };
-          distanceMeters?: number;
-          duration?: string;
-        }>;
-      }>;
-    };
-    try {
-      json = JSON.parse(text);
-    } catch {
-      throw new Error('Routes API returned invalid JSON');
-    }
-
-    const route = json.routes?.[0];
-    if (!route) return null;
-
-    const parseDurationSec = (s: string | undefined): number => {
-      if (!s) return 0;
-      const m = /^(\d+)s$/.exec(s);
-      return m ? parseInt(m[1], 10) : 0;
-    };
-
-    const legs: DirectionsLeg[] = (route.legs ?? []).map((leg) => ({
-      distanceM: leg.distanceMeters ?? 0,
-      durationMin: Math.round(parseDurationSec(leg.duration) / 60),
-      startLocation: {
-        lat: leg.startLocation?.latitude ?? 0,
-        lng: leg.startLocation?.longitude ?? 0,
-      },
-      endLocation: {
-        lat: leg.endLocation?.latitude ?? 0,
-        lng: leg.endLocation?.longitude ?? 0,
-      },
-    }));
+    const out = await this.routing.getDirections(origin, destination, waypoints);
+    if (out) await this.cache.set(key, out, CACHE_TTL.ROUTE_SEC);
+    return out;
+  }
 
-    const totalDistanceM = route.distanceMeters ?? legs.reduce((s, l) => s + l.distanceM, 0);
-    const totalDurationMin = Math.round(parseDurationSec(route.duration) / 60) || legs.reduce((s, l) => s + l.durationMin, 0);
-    const polyline = route.polyline?.encodedPolyline ?? '';
+  /**
+   * Driving distance/duration matrix between every pair of points, from the configured
+   * routing provider. Returns null when the provider cannot serve a matrix this large.
+   */
+  async getDistanceMatrix(points: Coordinates[]): Promise<DistanceMatrixResult | null> {
+    if (points.length === 0) return { distancesM: [], durationsMin: [] };
+
+    const h = createHash('sha256')
+      .update(points.map((p) => `${p.lat},${p.lng}`).join('|'))
+      .digest('hex')
+      .slice(0, 24);
+    const key = `matrix:${this.routing.name}:${h}`;
+    const cached = await this.cache.get<DistanceMatrixResult>(key);
+    if (cached) return cached;
 
-    const out: DirectionsResult = { polyline, totalDistanceM, totalDurationMin, legs };
-    await this.cache.set(key, out, CACHE_TTL.ROUTE_SEC);
+    const out = await this.routing.getDistanceMatrix(points);
+    if (out) await this.cache.set(key, out, CACHE_TTL.ROUTE_SEC);
     return out;
   }
 
@@ -0,0 +1,217 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Coordinates } from '../../common/types';
+import { cassetteFetch } from '../cassette/cassette';
+import type { DirectionsLeg, DirectionsResult, DistanceMatrixResult, RoutingProvider } from './routing-provider';
+
+/** Routes API computeRouteMatrix element limit (origins x destinations) without traffic-aware routing. */
+const MATRIX_MAX_ELEMENTS = 625;
+
+function parseDurationSec(s: string | undefined): number {
+  if (!s) return 0;
+  const m = /^(\d+)s$/.exec(s);
+  return m ? parseInt(m[1], 10) : 0;
+}
+
+/**
+ * Routing via Google Routes API (v2).
+ */
+@Injectable()
+export class GoogleRoutesProvider implements RoutingProvider {
+  readonly name = 'google';
+  private readonly apiKey: string;
+
+  constructor(private config: ConfigService) {
+    this.apiKey = this.config.get<string>('GOOGLE_MAPS_API_KEY') ?? '';
+  }
+
+  /**
+   * Get directions from origin to destination with optional waypoints.
+   * Uses Routes API (v2 computeRoutes). Returns polyline, total distance (m), total duration (min), and legs.
+   */
+  async getDirections(
+    origin: Coordinates,
+    destination: Coordinates,
+    waypoints?: Coordinates[],
+  ): Promise<DirectionsResult | null> {
+    if (!this.apiKey?.trim()) {
+      throw new HttpException(
+        {
+          error: {
+            code: 'MISSING_API_KEY',
+            message: 'GOOGLE_MAPS_API_KEY is not set.',
+            suggestions: ['Set GOOGLE_MAPS_API_KEY in .env', 'Ensure the key has Routes API enabled'],
+          },
+        },
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+
+    const body = {
+      origin: { location: { latLng: { latitude: origin.lat, longitude: origin.lng } } },
+      destination: { location: { latLng: { latitude: destination.lat, longitude: destination.lng } } },
+      ...(waypoints?.length
+        ? {
+            intermediates: waypoints.map((w) => ({
+              location: { latLng: { latitude: w.lat, longitude: w.lng } },
+            })),
+          }
+        : {}),
+      travelMode: 'DRIVE',
+      polylineQuality: 'OVERVIEW',
+      polylineEncoding: 'ENCODED_POLYLINE',
+    };
+
+    const url = 'https://routes.googleapis.com/directions/v2:computeRoutes';
+    const res = await cassetteFetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Goog-Api-Key': this.apiKey,
+        'X-Goog-FieldMask':
+          'routes.duration,routes.distanceMeters,routes.polyline.encodedPolyline,routes.legs.startLocation,routes.legs.endLocation,routes.legs.distanceMeters,routes.legs.duration',
+      },
+      body: JSON.stringify(body),
+    });
+
+    const text = await res.text();
+    if (!res.ok) {
+      if (res.status === 429) {
+        throw new HttpException(
+          {
+            error: {
+              code: 'API_QUOTA_EXCEEDED',
+              message: 'Routes API quota exceeded.',
+              suggestions: ['Retry later', 'Check quota in Google Cloud Console'],
+            },
+          },
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+      throw new Error(`Routes API error: ${res.status} ${text}`);
+    }
+
+    let json: {
+      routes?: Array<{
+        distanceMeters?: number;
+        duration?: string;
+        polyline?: { encodedPolyline?: string };
+        legs?: Array<{
+          startLocation?: { latitude?: number; longitude?: number };
+          endLocation?: { latitude?: number; longitude?: number };
+          distanceMeters?: number;
+          duration?: string;
+        }>;
+      }>;
+    };
+    try {
+      json = JSON.parse(text);
+    } catch {
+      throw new Error('Routes API returned invalid JSON');
+    }
+
+    const route = json.routes?.[0];
+    if (!route) return null;
+
+    const legs: DirectionsLeg[] = (route.legs ?? []).map((leg) => ({
+      distanceM: leg.distanceMeters ?? 0,
+      durationMin: Math.round(parseDurationSec(leg.duration) / 60),
+      startLocation: {
+        lat: leg.startLocation?.latitude ?? 0,
+        lng: leg.startLocation?.longitude ?? 0,
+      },
+      endLocation: {
+        lat: leg.endLocation?.latitude ?? 0,
+        lng: leg.endLocation?.longitude ?? 0,
+      },
+    }));
+
+    const totalDistanceM = route.distanceMeters ?? legs.reduce((s, l) => s + l.distanceM, 0);
+    const totalDurationMin = Math.round(parseDurationSec(route.duration) / 60) || legs.reduce((s, l) => s + l.durationMin, 0);
+    const polyline = route.polyline?.encodedPolyline ?? '';
+
+    return { polyline, totalDistanceM, totalDurationMin, legs };
+  }
+
+  /**
+   * Driving distance/duration matrix between every pair of points.
+   * Uses Routes API (v2 computeRouteMatrix). Returns null when the matrix would exceed the element limit.
+   */
+  async getDistanceMatrix(points: Coordinates[]): Promise<DistanceMatrixResult | null> {
+    if (points.length === 0) return { distancesM: [], durationsMin: [] };
+    if (points.length * points.length > MATRIX_MAX_ELEMENTS) return null;
+
+    if (!this.apiKey?.trim()) {
+      throw new HttpException(
+        {
+          error: {
+            code: 'MISSING_API_KEY',
+            message: 'GOOGLE_MAPS_API_KEY is not set.',
+            suggestions: ['Set GOOGLE_MAPS_API_KEY in .env', 'Ensure the key has Routes API enabled'],
+          },
+        },
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+
+    const waypoints = points.map((p) => ({
+      waypoint: { location: { latLng: { latitude: p.lat, longitude: p.lng } } },
+    }));
+    const url = 'https://routes.googleapis.com/distanceMatrix/v2:computeRouteMatrix';
+    const res = await cassetteFetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Goog-Api-Key': this.apiKey,
+        'X-Goog-FieldMask': 'originIndex,destinationIndex,distanceMeters,duration,condition',
+      },
+      body: JSON.stringify({ origins: waypoints, destinations: waypoints, travelMode: 'DRIVE' }),
+    });
+
+    const text = await res.text();
+    if (!res.ok) {
+      if (res.status === 429) {
+        throw new HttpException(
+          {
+            error: {
+              code: 'API_QUOTA_EXCEEDED',
+              message: 'Routes API quota exceeded.',
+              suggestions: ['Retry later', 'Check quota in Google Cloud Console'],
+            },
+          },
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+      throw new Error(`Route Matrix API error: ${res.status} ${text}`);
+    }
+
+    let elements: Array<{
+      originIndex?: number;
+      destinationIndex?: number;
+      distanceMeters?: number;
+      duration?: string;
+      condition?: string;
+    }>;
+    try {
+      elements = JSON.parse(text);
+    } catch {
+      throw new Error('Route Matrix API returned invalid JSON');
+    }
+    if (!Array.isArray(elements)) return null;
+
+    const n = points.length;
+    const grid = (): Array<Array<number | null>> => points.map((_, i) => points.map((_, j) => (i === j ? 0 : null)));
+    const distancesM = grid();
+    const durationsMin = grid();
+    for (const e of elements) {
+      const i = e.originIndex ?? 0;
+      const j = e.destinationIndex ?? 0;
+      if (i >= n || j >= n || e.condition !== 'ROUTE_EXISTS') continue;
+      distancesM[i][j] = e.distanceMeters ?? 0;
+      durationsMin[i][j] = parseDurationSec(e.duration) / 60;
+    }
+
+    return { distancesM, durationsMin };
+  }
+
+}
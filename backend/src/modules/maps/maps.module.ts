@@ -1,8 +1,34 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { isFixtureMode } from '../../fixtures/fixture-mode';
+import { CacheService } from '../cache/cache.service';
+import { FixtureMapsService } from './fixture-maps.service';
+import { FixtureRoutingProvider } from './fixture-routing.provider';
 import { GoogleMapsService } from './google-maps.service';
+import { GoogleRoutesProvider } from './google-routes.provider';
+import { OsrmRoutingProvider } from './osrm-routing.provider';
+import { ROUTING_PROVIDER, type RoutingProvider } from './routing-provider';
 
 @Module({
-  providers: [GoogleMapsService],
+  providers: [
+    GoogleRoutesProvider,
+    OsrmRoutingProvider,
+    FixtureRoutingProvider,
+    {
+      provide: ROUTING_PROVIDER,
+      useFactory: (config: ConfigService, google: GoogleRoutesProvider, osrm: OsrmRoutingProvider, fixture: FixtureRoutingProvider) => {
+        if (isFixtureMode(config)) return fixture;
+        return config.get<string>('ROUTING_PROVIDER') === 'osrm' ? osrm : google;
+      },
+      inject: [ConfigService, GoogleRoutesProvider, OsrmRoutingProvider, FixtureRoutingProvider],
+    },
+    {
+      provide: GoogleMapsService,
+      useFactory: (config: ConfigService, cache: CacheService, routing: RoutingProvider) =>
+        isFixtureMode(config) ? new FixtureMapsService(config, cache, routing) : new GoogleMapsService(config, cache, routing),
+      inject: [ConfigService, CacheService, ROUTING_PROVIDER],
+    },
+  ],
   exports: [GoogleMapsService],
 })
 export class MapsModule {}
@@ -0,0 +1,110 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Coordinates } from '../../common/types';
+import { cassetteFetch } from '../cassette/cassette';
+import type { DirectionsLeg, DirectionsResult, DistanceMatrixResult, RoutingProvider } from './routing-provider';
+
+/** osrm-routed default --max-table-size. */
+const TABLE_MAX_POINTS = 100;
+
+/**
+ * Routing via a self-hosted OSRM HTTP server (osrm-routed, or anything serving the
+ * OSRM v1 route/table API). OSRM's `polyline` geometry is the Google encoding at
+ * precision 5, so it is passed through unchanged.
+ */
+@Injectable()
+export class OsrmRoutingProvider implements RoutingProvider {
+  readonly name = 'osrm';
+  private readonly baseUrl: string;
+  private readonly profile: string;
+
+  constructor(private config: ConfigService) {
+    this.baseUrl = (this.config.get<string>('OSRM_BASE_URL') ?? 'http://localhost:5000').replace(/\/+$/, '');
+    this.profile = this.config.get<string>('OSRM_PROFILE') ?? 'driving';
+  }
+
+  private async get<T>(service: 'route' | 'table', points: Coordinates[], params: Record<string, string>): Promise<T | null> {
+    const coords = points.map((p) => `${p.lng},${p.lat}`).join(';');
+    const url = new URL(`${this.baseUrl}/${service}/v1/${this.profile}/${coords}`);
+    Object.entries(params).forEach(([k, v]) => url.searchParams.set(k, v));
+    let res: Response;
+    try {
+      res = await cassetteFetch(url.toString());
+    } catch (e) {
+      if (e instanceof HttpException) throw e;
+      throw new HttpException(
+        {
+          error: {
+            code: 'ROUTING_UNAVAILABLE',
+            message: `OSRM server at ${this.baseUrl} is not reachable.`,
+            suggestions: ['Start osrm-routed or check OSRM_BASE_URL', 'Set ROUTING_PROVIDER=google to use Google Routes'],
+          },
+        },
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+    const json = (await res.json().catch(() => null)) as ({ code?: string; message?: string } & T) | null;
+    if (!json) throw new Error(`OSRM ${service} error: ${res.status} invalid JSON`);
+    if (json.code === 'NoRoute' || json.code === 'NoSegment') return null;
+    if (!res.ok || json.code !== 'Ok') throw new Error(`OSRM ${service} error: ${res.status} ${json.message ?? json.code}`);
+    return json;
+  }
+
+  /**
+   * Get directions from origin to destination with optional waypoints (OSRM route service).
+   */
+  async getDirections(
+    origin: Coordinates,
+    destination: Coordinates,
+    waypoints?: Coordinates[],
+  ): Promise<DirectionsResult | null> {
+    const json = await this.get<{
+      routes?: Array<{
+        distance?: number;
+        duration?: number;
+        geometry?: string;
+        legs?: Array<{ distance?: number; duration?: number }>;
+      }>;
+      waypoints?: Array<{ location?: [number, number] }>;
+    }>('route', [origin, ...(waypoints ?? []), destination], { overview: 'full', geometries: 'polyline' });
+    const route = json?.routes?.[0];
+    if (!route) return null;
+
+    const snapped = (i: number, fallback: Coordinates): Coordinates => {
+      const loc = json?.waypoints?.[i]?.location;
+      return loc ? { lat: loc[1], lng: loc[0] } : fallback;
+    };
+    const inputs = [origin, ...(waypoints ?? []), destination];
+    const legs: DirectionsLeg[] = (route.legs ?? []).map((leg, i) => ({
+      distanceM: leg.distance ?? 0,
+      durationMin: Math.round((leg.duration ?? 0) / 60),
+      startLocation: snapped(i, inputs[i]),
+      endLocation: snapped(i + 1, inputs[i + 1]),
+    }));
+
+    return {
+      polyline: route.geometry ?? '',
+      totalDistanceM: route.distance ?? legs.reduce((s, l) => s + l.distanceM, 0),
+      totalDurationMin: Math.round((route.duration ?? 0) / 60),
+      legs,
+    };
+  }
+
+  /**
+   * Distance/duration matrix between every pair of points (OSRM table service).
+   */
+  async getDistanceMatrix(points: Coordinates[]): Promise<DistanceMatrixResult | null> {
+    if (points.length === 0) return { distancesM: [], durationsMin: [] };
+    if (points.length > TABLE_MAX_POINTS) return null;
+
+    const json = await this.get<{
+      distances?: Array<Array<number | null>>;
+      durations?: Array<Array<number | null>>;
+    }>('table', points, { annotations: 'distance,duration' });
+    if (!json?.distances || !json.durations) return null;
+    return {
+      distancesM: json.distances,
+      durationsMin: json.durations.map((row) => row.map((s) => (s == null ? null : s / 60))),
+    };
+  }
+}
@@ -0,0 +1,134 @@
+/** Google encoded polyline encode/decode and route-corridor geometry. @see https://developers.google.com/maps/documentation/utilities/polylinealgorithm */
+
+import type { Coordinates } from '../../common/types';
+
+const EARTH_RADIUS_M = 6371000;
+
+/** Great-circle distance in meters. */
+export function haversineM(a: Coordinates, b: Coordinates): number {
+  const dLat = ((b.lat - a.lat) * Math.PI) / 180;
+  const dLng = ((b.lng - a.lng) * Math.PI) / 180;
+  const x =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((a.lat * Math.PI) / 180) * Math.cos((b.lat * Math.PI) / 180) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(x));
+}
+
+export function decodePolyline(encoded: string): Coordinates[] {
+  if (!encoded || encoded.length === 0) return [];
+
+  const points: Coordinates[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  while (index < encoded.length) {
+    let b: number;
+    let shift = 0;
+    let result = 0;
+    do {
+      b = encoded.charCodeAt(index++) - 63;
+      result |= (b & 0x1f) << shift;
+      shift += 5;
+    } while (b >= 0x20);
+    lat += (result & 1) !== 0 ? ~(result >> 1) : result >> 1;
+
+    shift = 0;
+    result = 0;
+    do {
+      b = encoded.charCodeAt(index++) - 63;
+      result |= (b & 0x1f) << shift;
+      shift += 5;
+    } while (b >= 0x20);
+    lng += (result & 1) !== 0 ? ~(result >> 1) : result >> 1;
+
+    points.push({ lat: lat / 1e5, lng: lng / 1e5 });
+  }
+
+  return points;
+}
+
+export function encodePolyline(path: Coordinates[]): string {
+  let out = '';
+  let prevLat = 0;
+  let prevLng = 0;
+  const encodeValue = (v: number) => {
+    let n = v < 0 ? ~(v << 1) : v << 1;
+    while (n >= 0x20) {
+      out += String.fromCharCode((0x20 | (n & 0x1f)) + 63);
+      n >>= 5;
+    }
+    out += String.fromCharCode(n + 63);
+  };
+  for (const p of path) {
+    const lat = Math.round(p.lat * 1e5);
+    const lng = Math.round(p.lng * 1e5);
+    encodeValue(lat - prevLat);
+    encodeValue(lng - prevLng);
+    prevLat = lat;
+    prevLng = lng;
+  }
+  return out;
+}
+
+/** Total length of a path in meters. */
+export function pathLengthM(path: Coordinates[]): number {
+  let d = 0;
+  for (let i = 1; i < path.length; i++) d += haversineM(path[i - 1], path[i]);
+  return d;
+}
+
+/**
+ * Points every `spacingM` along the path, including both ends.
+ */
+export function samplePath(path: Coordinates[], spacingM: number): Coordinates[] {
+  if (path.length === 0) return [];
+  const out: Coordinates[] = [path[0]];
+  let sinceLast = 0;
+  for (let i = 1; i < path.length; i++) {
+    const a = path[i - 1];
+    const b = path[i];
+    const seg = haversineM(a, b);
+    let pos = spacingM - sinceLast;
+    while (pos <= seg) {
+      const t = pos / seg;
+      out.push({ lat: a.lat + (b.lat - a.lat) * t, lng: a.lng + (b.lng - a.lng) * t });
+      pos += spacingM;
+    }
+    sinceLast = (sinceLast + seg) % spacingM;
+  }
+  const last = path[path.length - 1];
+  const tail = out[out.length - 1];
+  if (tail.lat !== last.lat || tail.lng !== last.lng) out.push(last);
+  return out;
+}
+
+/**
+ * Closest point on the path to `point`: how far along the path it is (alongM) and
+ * how far off the path the point lies (offsetM). Segments are projected on a local
+ * equirectangular plane, which is accurate at route scale.
+ */
+export function projectOntoPath(path: Coordinates[], point: Coordinates): { alongM: number; offsetM: number } {
+  if (path.length === 0) return { alongM: 0, offsetM: Infinity };
+  if (path.length === 1) return { alongM: 0, offsetM: haversineM(path[0], point) };
+
+  const mPerDegLat = (Math.PI / 180) * EARTH_RADIUS_M;
+  const mPerDegLng = mPerDegLat * Math.cos((point.lat * Math.PI) / 180);
+  let best = { alongM: 0, offsetM: Infinity };
+  let along = 0;
+  for (let i = 1; i < path.length; i++) {
+    const a = path[i - 1];
+    const b = path[i];
+    const bx = (b.lng - a.lng) * mPerDegLng;
+    const by = (b.lat - a.lat) * mPerDegLat;
+    const px = (point.lng - a.lng) * mPerDegLng;
+    const py = (point.lat - a.lat) * mPerDegLat;
+    const len2 = bx * bx + by * by;
+    const t = len2 > 0 ? Math.max(0, Math.min(1, (px * bx + py * by) / len2)) : 0;
+    const offsetM = Math.hypot(px - bx * t, py - by * t);
+    const seg = haversineM(a, b);
+    if (offsetM < best.offsetM) best = { alongM: along + seg * t, offsetM };
+    along += seg;
+  }
+  return best;
+}
@@ -0,0 +1,39 @@
+import type { Coordinates } from '../../common/types';
+
+export interface DirectionsLeg {
+  distanceM: number;
+  durationMin: number;
+  startLocation: Coordinates;
+  endLocation: Coordinates;
+}
+
+export interface DirectionsResult {
+  /** Google encoded polyline (precision 5). */
+  polyline: string;
+  totalDistanceM: number;
+  totalDurationMin: number;
+  legs: DirectionsLeg[];
+}
+
+/**
+ * Road-network matrix between points, indexed [from][to] in input order.
+ * A null cell means the routing engine found no route for that pair.
+ */
+export interface DistanceMatrixResult {
+  distancesM: Array<Array<number | null>>;
+  durationsMin: Array<Array<number | null>>;
+}
+
+/**
+ * Routing engine behind GoogleMapsService.getDirections / getDistanceMatrix.
+ * Selected by ROUTING_PROVIDER (google | osrm); caching stays in GoogleMapsService.
+ */
+export interface RoutingProvider {
+  /** Short id, also used to namespace cache keys. */
+  readonly name: string;
+  getDirections(origin: Coordinates, destination: Coordinates, waypoints?: Coordinates[]): Promise<DirectionsResult | null>;
+  /** Null when the engine cannot serve a matrix of this size. */
+  getDistanceMatrix(points: Coordinates[]): Promise<DistanceMatrixResult | null>;
+}
+
+export const ROUTING_PROVIDER = 'ROUTING_PROVIDER';
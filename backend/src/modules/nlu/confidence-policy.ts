@@ -0,0 +1,79 @@
+/**
+ * Per-intent confidence policy: when a parse executes, asks for confirmation or escalates.
+ * The client fetches it from GET /nlu/confidence-policy instead of hard-coding thresholds.
+ */
+
+import { CONFIDENCE_THRESHOLDS } from '../../common/constants/confidence.constants';
+import { INTENTS, type Intent } from './nlu-schema';
+
+export interface IntentPolicy {
+  /** At or above: execute without asking. */
+  high: number;
+  /** At or above (and below `high`): confirm. Below: escalate / offer alternatives. */
+  medium: number;
+  /** Confirm even at high confidence, e.g. before overwriting a saved place. */
+  alwaysConfirm?: boolean;
+}
+
+export interface ConfidencePolicy {
+  default: IntentPolicy;
+  /** Every intent, with the default filled in where there is no override. */
+  intents: Record<Intent, IntentPolicy>;
+  /** Low-confidence answers the client retries before escalating. */
+  maxRetries: number;
+}
+
+const DEFAULT_POLICY: IntentPolicy = { high: CONFIDENCE_THRESHOLDS.HIGH, medium: CONFIDENCE_THRESHOLDS.MEDIUM };
+
+/** Cancelling is cheap to get wrong; saving an anchor is not. */
+const DEFAULT_OVERRIDES: Partial<Record<Intent, Partial<IntentPolicy>>> = {
+  cancel: { high: 0.5, medium: 0.4 },
+  set_anchor: { alwaysConfirm: true },
+};
+
+const DEFAULT_MAX_RETRIES = 2;
+
+interface PolicyOverrides {
+  default?: Partial<IntentPolicy>;
+  intents?: Record<string, Partial<IntentPolicy>>;
+  maxRetries?: number;
+}
+
+function checkPolicy(where: string, p: IntentPolicy): void {
+  for (const key of ['high', 'medium'] as const) {
+    if (typeof p[key] !== 'number' || p[key] < 0 || p[key] > 1) {
+      throw new Error(`NLU_CONFIDENCE_POLICY: ${where}.${key} must be a number between 0 and 1`);
+    }
+  }
+  if (p.medium > p.high) throw new Error(`NLU_CONFIDENCE_POLICY: ${where}.medium must not exceed ${where}.high`);
+  if (p.alwaysConfirm !== undefined && typeof p.alwaysConfirm !== 'boolean') {
+    throw new Error(`NLU_CONFIDENCE_POLICY: ${where}.alwaysConfirm must be a boolean`);
+  }
+}
+
+/**
+ * Built-in policy with NLU_CONFIDENCE_POLICY (JSON, same shape, every field optional) on top,
+ * e.g. {"intents":{"find_place":{"high":0.7}}}. Throws on unknown intents or bad thresholds.
+ */
+export function loadConfidencePolicy(raw?: string): ConfidencePolicy {
+  const overrides: PolicyOverrides = raw?.trim() ? JSON.parse(raw) : {};
+  for (const name of Object.keys(overrides.intents ?? {})) {
+    if (!(INTENTS as readonly string[]).includes(name)) {
+      throw new Error(`NLU_CONFIDENCE_POLICY: unknown intent "${name}"`);
+    }
+  }
+
+  const base = { ...DEFAULT_POLICY, ...overrides.default };
+  checkPolicy('default', base);
+  const intents = {} as Record<Intent, IntentPolicy>;
+  for (const intent of INTENTS) {
+    intents[intent] = { ...base, ...DEFAULT_OVERRIDES[intent], ...overrides.intents?.[intent] };
+    checkPolicy(`intents.${intent}`, intents[intent]);
+  }
+
+  const maxRetries = overrides.maxRetries ?? DEFAULT_MAX_RETRIES;
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+    throw new Error('NLU_CONFIDENCE_POLICY: maxRetries must be a non-negative integer');
+  }
+  return { default: base, intents, maxRetries };
+}
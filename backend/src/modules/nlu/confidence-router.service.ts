@@ -1,6 +1,8 @@
 import { Injectable } from '@nestjs/common';
-import { CONFIDENCE_THRESHOLDS } from '../../common/constants/confidence.constants';
+import { ConfigService } from '@nestjs/config';
+import { loadConfidencePolicy, type ConfidencePolicy, type IntentPolicy } from './confidence-policy';
 import type { FastAgentResult } from './gemini-fast.service';
+import type { Intent } from './nlu-schema';
 
 export type RoutingAction = 'EXECUTE' | 'CONFIRM' | 'CLARIFY' | 'ESCALATE_TO_ADVANCED';
 
@@ -12,18 +14,30 @@ export interface RoutingDecision {
 
 @Injectable()
 export class ConfidenceRouterService {
+  readonly policy: ConfidencePolicy;
+
+  /** Without `config` (tests, eval) the built-in policy applies. */
+  constructor(config?: ConfigService) {
+    this.policy = loadConfidencePolicy(config?.get<string>('NLU_CONFIDENCE_POLICY'));
+  }
+
+  policyFor(intent: string): IntentPolicy {
+    return this.policy.intents[intent as Intent] ?? this.policy.default;
+  }
+
   routeByConfidence(result: FastAgentResult): RoutingDecision {
-    const { confidence, requires_advanced } = result;
-    const shouldEscalate = confidence < CONFIDENCE_THRESHOLDS.MEDIUM || requires_advanced;
+    const { confidence } = result;
+    const p = this.policyFor(result.intent);
+    const shouldEscalate = this.shouldEscalateToAdvanced(result);
 
     let action: RoutingAction = 'EXECUTE';
     if (shouldEscalate) action = 'ESCALATE_TO_ADVANCED';
-    else if (confidence < CONFIDENCE_THRESHOLDS.HIGH) action = 'CONFIRM';
+    else if (confidence < p.high || p.alwaysConfirm) action = 'CONFIRM';
 
     return { action, confidence, shouldEscalate };
   }
 
   shouldEscalateToAdvanced(result: FastAgentResult): boolean {
-    return result.confidence < CONFIDENCE_THRESHOLDS.MEDIUM || result.requires_advanced;
+    return result.confidence < this.policyFor(result.intent).medium || result.requires_advanced;
   }
 }
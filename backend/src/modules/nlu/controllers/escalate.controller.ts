@@ -1,17 +1,36 @@
-import { Body, Controller, Post, UseGuards } from '@nestjs/common';
+import { Body, Controller, Post, Req, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
 import { AuthGuard } from '../../../common/guards/auth.guard';
+import { UserService } from '../../user/user.service';
 import { EscalateDto } from '../dtos/nlu.dto';
 import { NluService } from '../nlu.service';
+import { ReferenceResolverService } from '../reference-resolver.service';
 
 @Controller()
 @UseGuards(AuthGuard)
 export class EscalateController {
-  constructor(private readonly nlu: NluService) {}
+  constructor(
+    private readonly nlu: NluService,
+    private readonly user: UserService,
+    private readonly references: ReferenceResolverService,
+  ) {}
 
   @Post('escalate-to-llm')
-  async escalateToLlm(@Body() dto: EscalateDto) {
-    return this.nlu.escalate(dto.utterance, {
+  async escalateToLlm(@Req() req: Request & { user?: { sub: string } }, @Body() dto: EscalateDto) {
+    const res = await this.nlu.escalate(dto.utterance, {
       conversationHistory: dto.conversationHistory,
     });
+    const conversationId = typeof dto.context?.conversationId === 'string' ? dto.context.conversationId : undefined;
+    const userId = await this.user.recordTurnSafely(req, {
+      conversationId,
+      utterance: dto.utterance,
+      intent: res.intent,
+      confidence: res.confidence,
+      entities: res.entities,
+      agent: res.agent,
+      systemResponse: this.nlu.summarize(res),
+    });
+    const disambiguation = await this.references.candidates(res, { userId, origin: dto.currentLocation });
+    return { ...res, entities: { ...res.entities, ...disambiguation }, ...(conversationId && { conversationId }) };
   }
 }
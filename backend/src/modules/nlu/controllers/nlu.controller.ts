@@ -1,15 +1,41 @@
-import { Body, Controller, Post, UseGuards } from '@nestjs/common';
+import { Body, Controller, Get, Post, Req, UseGuards } from '@nestjs/common';
+import { Request } from 'express';
 import { AuthGuard } from '../../../common/guards/auth.guard';
+import { UserService } from '../../user/user.service';
+import { ConfidenceRouterService } from '../confidence-router.service';
 import { NluProcessDto } from '../dtos/nlu.dto';
 import { NluService } from '../nlu.service';
+import { ReferenceResolverService } from '../reference-resolver.service';
 
 @Controller('nlu')
 @UseGuards(AuthGuard)
 export class NluController {
-  constructor(private readonly nlu: NluService) {}
+  constructor(
+    private readonly nlu: NluService,
+    private readonly user: UserService,
+    private readonly references: ReferenceResolverService,
+    private readonly router: ConfidenceRouterService,
+  ) {}
 
   @Post('process')
-  async process(@Body() dto: NluProcessDto) {
-    return this.nlu.process(dto.utterance, dto.context);
+  async process(@Req() req: Request & { user?: { sub: string } }, @Body() dto: NluProcessDto) {
+    const res = await this.nlu.process(dto.utterance, dto.context);
+    const userId = await this.user.recordTurnSafely(req, {
+      conversationId: res.conversationId,
+      utterance: dto.utterance,
+      intent: res.intent,
+      confidence: res.confidence,
+      entities: res.entities,
+      agent: res.agent,
+      systemResponse: this.nlu.summarize(res),
+    });
+    const disambiguation = await this.references.candidates(res, { userId, origin: dto.currentLocation });
+    return { ...res, entities: { ...res.entities, ...disambiguation } };
+  }
+
+  /** Thresholds and per-intent rules the client applies to /nlu/process results. */
+  @Get('confidence-policy')
+  confidencePolicy() {
+    return this.router.policy;
   }
 }
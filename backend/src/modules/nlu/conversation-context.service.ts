@@ -0,0 +1,192 @@
+import { randomUUID } from 'crypto';
+import { Injectable } from '@nestjs/common';
+import { CacheService, CACHE_TTL } from '../cache/cache.service';
+import { cassetteState, writeCassetteState } from '../cassette/cassette';
+import type { TurnConstraints } from './entity-extractor';
+
+/** A place the user could be referring to: a route stop or one of its runner-ups/alternative. */
+export interface RoutePlaceRef {
+  id: string;
+  name: string;
+  address?: string;
+}
+
+/** The route the client is showing, sent with the utterance so follow-ups can refer to it. */
+export interface RouteContext {
+  destination?: string;
+  /** In route order. */
+  stops: Array<RoutePlaceRef & { options?: RoutePlaceRef[] }>;
+}
+
+/** Plan accumulated over the turns of one conversation. */
+export interface ConversationState {
+  conversationId: string;
+  turn: number;
+  lastIntent?: string;
+  destination: string | null;
+  /** Stop queries as the user phrased them ("coffee", "gas"). */
+  stops: string[];
+  /** "before 5", "closest first", "within a mile": kept until a new plan replaces them. */
+  constraints?: TurnConstraints;
+  route?: RouteContext;
+}
+
+export interface ParsedTurn {
+  intent: string;
+  destination?: string | null;
+  stops?: string[];
+  constraints?: TurnConstraints;
+}
+
+/** Entities after merging a turn into the conversation. */
+export interface ResolvedEntities extends TurnConstraints {
+  destination: string | null;
+  stops: string[];
+  /** remove_stop: route stops the user referred to. */
+  removeStopIds?: string[];
+  /** modify_route: "make it the one on Main St" → swap `stopId` for `place`. */
+  replaceStop?: { stopId: string; place: RoutePlaceRef };
+}
+
+const ORDINALS = new Map<string, number>([
+  ['first', 0], ['second', 1], ['third', 2], ['fourth', 3], ['fifth', 4],
+  ['1st', 0], ['2nd', 1], ['3rd', 2], ['4th', 3], ['5th', 4],
+]);
+
+/** "the one on Main St", "the Main St one", "the one near the park". */
+const LOCATION_REF = /\b(?:on|at|near|by|off)\s+(?:the\s+)?([a-z0-9][a-z0-9 .'&-]*?)(?:\s+(?:instead|please|one))?\s*$|\bthe\s+([a-z0-9][a-z0-9 .'&-]*?)\s+one\b/;
+
+function norm(s: string): string {
+  return s.toLowerCase().replace(/[^a-z0-9&\s]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function mentions(text: string, term: string): boolean {
+  const t = norm(text);
+  const q = norm(term);
+  return q.length > 0 && t.length > 0 && (t.includes(q) || q.includes(t));
+}
+
+/**
+ * Multi-turn NLU state keyed by conversationId, kept in the cache for
+ * CACHE_TTL.CONVERSATION_SEC. Merges partial updates (add/remove stop, "make it the
+ * one on Main St") into the plan instead of starting over.
+ */
+@Injectable()
+export class ConversationContextService {
+  constructor(private readonly cache: CacheService) {}
+
+  /**
+   * Load the conversation, or start one. A client without server state (expired,
+   * or first call) can seed it with the previous turn's intent and entities.
+   */
+  async load(
+    conversationId: string | undefined,
+    seed?: { previousIntent?: string; previousEntities?: Record<string, unknown>; currentRoute?: RouteContext },
+  ): Promise<ConversationState> {
+    const key = conversationId ? this.key(conversationId) : undefined;
+    const stored = key ? await cassetteState(key, () => this.cache.get<ConversationState>(key)) : null;
+    const state: ConversationState = stored ?? {
+      conversationId: conversationId ?? randomUUID(),
+      turn: 0,
+      lastIntent: seed?.previousIntent,
+      destination: typeof seed?.previousEntities?.destination === 'string' ? seed.previousEntities.destination : null,
+      stops: Array.isArray(seed?.previousEntities?.stops) ? seed.previousEntities.stops.map(String) : [],
+    };
+    if (seed?.currentRoute) state.route = seed.currentRoute;
+    return state;
+  }
+
+  async save(state: ConversationState): Promise<void> {
+    await writeCassetteState(() => this.cache.set(this.key(state.conversationId), state, CACHE_TTL.CONVERSATION_SEC));
+  }
+
+  async clear(conversationId: string): Promise<void> {
+    await writeCassetteState(() => this.cache.delete(this.key(conversationId)));
+  }
+
+  /**
+   * Merge one parsed turn into the state (mutates it) and return the entities the
+   * client should act on.
+   */
+  apply(state: ConversationState, parsed: ParsedTurn, utterance: string): ResolvedEntities {
+    state.turn += 1;
+    const stops = parsed.stops ?? [];
+    const refs: Pick<ResolvedEntities, 'removeStopIds' | 'replaceStop'> = {};
+
+    switch (parsed.intent) {
+      case 'navigate_with_stops':
+      case 'navigate_direct':
+        state.destination = parsed.destination || state.destination;
+        state.stops = parsed.intent === 'navigate_direct' ? [] : stops;
+        state.constraints = parsed.constraints;
+        break;
+      case 'add_stop':
+        state.destination = parsed.destination || state.destination;
+        state.stops = [...state.stops, ...stops.filter((s) => !state.stops.some((x) => norm(x) === norm(s)))];
+        state.constraints = { ...state.constraints, ...parsed.constraints };
+        break;
+      case 'remove_stop': {
+        const ids = new Set<string>();
+        for (const term of stops) {
+          const ref = this.findRouteStop(state, term);
+          if (ref) ids.add(ref.id);
+          state.stops = state.stops.filter((s) => !mentions(s, term) && !(ref && mentions(ref.name, s)));
+        }
+        if (ids.size) refs.removeStopIds = [...ids];
+        break;
+      }
+      case 'modify_route': {
+        const replace = this.resolveReplacement(state, utterance);
+        if (replace) refs.replaceStop = replace;
+        state.constraints = { ...state.constraints, ...parsed.constraints };
+        break;
+      }
+      case 'cancel':
+        state.destination = null;
+        state.stops = [];
+        state.constraints = undefined;
+        state.route = undefined;
+        break;
+      default:
+        // confirm / deny / find_place / etc. leave the plan as it is
+        break;
+    }
+
+    state.lastIntent = parsed.intent;
+    return { destination: state.destination, stops: [...state.stops], ...state.constraints, ...refs };
+  }
+
+  /** One-line summary for the advanced agent's context. */
+  describe(state: ConversationState): string | undefined {
+    if (!state.turn) return undefined;
+    const parts = [`Previous intent: ${state.lastIntent ?? 'none'}`, `destination: ${state.destination ?? 'none'}`, `stops: ${state.stops.join(', ') || 'none'}`];
+    if (state.route?.stops.length) parts.push(`route stops: ${state.route.stops.map((s) => s.name).join(', ')}`);
+    return parts.join('; ');
+  }
+
+  /** "the second stop", "the last one", "Starbucks". */
+  private findRouteStop(state: ConversationState, term: string): RoutePlaceRef | undefined {
+    const stops = state.route?.stops ?? [];
+    const t = norm(term);
+    const word = t.split(' ')[0];
+    if (word === 'last') return stops[stops.length - 1];
+    const i = ORDINALS.get(word);
+    if (i !== undefined) return stops[i];
+    return stops.find((s) => mentions(s.name, t));
+  }
+
+  private resolveReplacement(state: ConversationState, utterance: string): ResolvedEntities['replaceStop'] {
+    const m = LOCATION_REF.exec(norm(utterance));
+    const where = (m?.[1] ?? m?.[2])?.trim();
+    if (!where) return undefined;
+    for (const stop of state.route?.stops ?? []) {
+      const place = stop.options?.find((o) => mentions(o.address ?? '', where) || mentions(o.name, where));
+      if (place) return { stopId: stop.id, place };
+    }
+    return undefined;
+  }
+
+  private key(conversationId: string): string {
+    return `conversation:${conversationId}`;
+  }
+}
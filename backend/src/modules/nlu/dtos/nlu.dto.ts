@@ -1,15 +1,34 @@
 import { Type } from 'class-transformer';
-import { IsNumber, IsObject, IsOptional, IsString, ValidateNested } from 'class-validator';
+import { IsArray, IsNumber, IsObject, IsOptional, IsString, ValidateNested } from 'class-validator';
 
 class LatLngDto {
   @IsNumber() lat: number;
   @IsNumber() lng: number;
 }
 
-class NluContextDto {
+class RoutePlaceRefDto {
+  @IsString() id: string;
+  @IsString() name: string;
+  @IsOptional() @IsString() address?: string;
+}
+
+class RouteStopDto extends RoutePlaceRefDto {
+  /** Runner-ups and the open-on-arrival alternative. */
+  @IsOptional() @IsArray() @ValidateNested({ each: true }) @Type(() => RoutePlaceRefDto) options?: RoutePlaceRefDto[];
+}
+
+/** Route on screen, so follow-ups ("remove the second stop") can refer to it. */
+class RouteContextDto {
+  @IsOptional() @IsString() destination?: string;
+  /** In route order. */
+  @IsArray() @ValidateNested({ each: true }) @Type(() => RouteStopDto) stops: RouteStopDto[];
+}
+
+export class NluContextDto {
   @IsOptional() @IsString() previousIntent?: string;
   @IsOptional() @IsObject() previousEntities?: Record<string, unknown>;
   @IsOptional() @IsString() conversationId?: string;
+  @IsOptional() @ValidateNested() @Type(() => RouteContextDto) currentRoute?: RouteContextDto;
 }
 
 export class NluProcessDto {
@@ -0,0 +1,201 @@
+/**
+ * Deterministic extraction of the entities beyond destination/stops: time constraint,
+ * order preference, search radius, brand and category, anchor reference. Runs on every
+ * parse regardless of which agent produced it, so values are normalized the same way.
+ */
+
+/** No 'cheapest': there is no price data to order by. */
+export type OrderPreference = 'nearest' | 'fastest';
+
+/** "before 5" → { kind: 'before', time: '17:00' }; time is the user's local clock time. */
+export interface TimeConstraint {
+  kind: 'before' | 'after';
+  time: string;
+}
+
+export interface StopDetail {
+  /** The stop as listed in `stops`. */
+  name: string;
+  /** Display name of a recognized chain, e.g. "Shell". */
+  brand?: string;
+  category?: string;
+}
+
+export interface ExtractedEntities {
+  timeConstraint?: TimeConstraint;
+  orderPreference?: OrderPreference;
+  /** Search radius in meters ("within a mile" → 1609). */
+  radius?: number;
+  /** Brand of the place asked for (find_place, or the first branded stop). */
+  placeName?: string;
+  category?: string;
+  /** Destination when it names an anchor ("home", "work"). */
+  anchorReference?: string;
+  /** Per stop, in `stops` order. */
+  stopDetails?: StopDetail[];
+}
+
+const METERS_PER_MILE = 1609.34;
+
+/** [pattern on normalized text, display name, category]. */
+const BRANDS: Array<[RegExp, string, string]> = [
+  [/\bshell\b/, 'Shell', 'gas station'],
+  [/\bchevron\b/, 'Chevron', 'gas station'],
+  [/\bexxon\b/, 'Exxon', 'gas station'],
+  [/\bmobil\b/, 'Mobil', 'gas station'],
+  [/\bbp\b/, 'BP', 'gas station'],
+  [/\barco\b/, 'ARCO', 'gas station'],
+  [/\bstarbucks\b/, 'Starbucks', 'coffee'],
+  [/\bpeets\b/, "Peet's Coffee", 'coffee'],
+  [/\bdunkin\b/, "Dunkin'", 'coffee'],
+  [/\bwalgreens\b/, 'Walgreens', 'pharmacy'],
+  [/\bcvs\b/, 'CVS', 'pharmacy'],
+  [/\brite aid\b/, 'Rite Aid', 'pharmacy'],
+  [/\bsafeway\b/, 'Safeway', 'grocery store'],
+  [/\btrader joes?\b/, "Trader Joe's", 'grocery store'],
+  [/\bwhole foods\b/, 'Whole Foods', 'grocery store'],
+  [/\bkroger\b/, 'Kroger', 'grocery store'],
+  [/\bcostco\b/, 'Costco', 'warehouse store'],
+  [/\btarget\b/, 'Target', 'department store'],
+  [/\bwalmart\b/, 'Walmart', 'department store'],
+  [/\bchase\b/, 'Chase', 'bank'],
+  [/\bwells fargo\b/, 'Wells Fargo', 'bank'],
+  [/\bbank of america\b/, 'Bank of America', 'bank'],
+  [/\bhome depot\b/, 'The Home Depot', 'hardware store'],
+  [/\blowes\b/, "Lowe's", 'hardware store'],
+  [/\bmcdonalds\b/, "McDonald's", 'restaurant'],
+  [/\bchick fil a\b/, 'Chick-fil-A', 'restaurant'],
+];
+
+const CATEGORIES: Array<[RegExp, string]> = [
+  [/\b(?:gas|fuel|petrol)(?: station)?\b/, 'gas station'],
+  [/\b(?:coffee|cafe|espresso|latte)\b/, 'coffee'],
+  [/\b(?:pharmacy|drugstore|drug store|prescription|medicine)\b/, 'pharmacy'],
+  [/\b(?:grocery|groceries|supermarket)\b/, 'grocery store'],
+  [/\b(?:atm|cash)\b/, 'atm'],
+  [/\bbank\b/, 'bank'],
+  [/\b(?:post office|mail|package|stamps)\b/, 'post office'],
+  [/\b(?:dry cleaner|dry cleaners|dry cleaning|laundry)\b/, 'dry cleaner'],
+  [/\bhardware\b/, 'hardware store'],
+];
+
+const ANCHORS = new Set(['home', 'work', 'office', 'gym', 'school']);
+
+/**
+ * On lowercased text that keeps hyphens, so "before 7-Eleven" is not a time. Bare "by"
+ * needs am/pm, a colon or a time word ("stop by 7-Eleven", "by the park" are places).
+ */
+const TIME =
+  /\b(before|by(?=\s+(?:noon|midnight|\d{1,2}(?::\d{2}|\s*(?:[ap]\.?m\b|oclock))))|until|no later than|not before|after)\s+(noon|midnight|(\d{1,2})(?::(\d{2}))?\s*([ap]\.?m\b\.?|oclock)?)(?![\w-])/;
+
+const ORDER: Array<[RegExp, OrderPreference]> = [
+  [/\b(?:closest|nearest)(?: (?:one|ones|stop|stops|place|places))? first\b|\bin order of distance\b/, 'nearest'],
+  [/\b(?:fastest|quickest)\b|\bas (?:fast|quick(?:ly)?) as possible\b/, 'fastest'],
+];
+
+const RADIUS = /\bwithin\s+(half a|a|an|one|\d+(?:\.\d+)?)\s*(miles?|mi|kilometers?|kilometres?|km|meters?|metres?|m|blocks?)\b/;
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[’']/g, '').replace(/[^a-z0-9:\s]/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/** Lowercase without apostrophes ("o'clock" → "oclock"), punctuation kept. */
+function lower(text: string): string {
+  return text.toLowerCase().replace(/[’']/g, '');
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+/** Bare hours read as the next sensible daytime hour: 1-6 → pm, 7-11 → am. */
+function parseTime(text: string): TimeConstraint | undefined {
+  const m = TIME.exec(text);
+  if (!m) return undefined;
+  const kind = m[1] === 'after' || m[1] === 'not before' ? 'after' : 'before';
+  if (m[2] === 'noon') return { kind, time: '12:00' };
+  if (m[2] === 'midnight') return { kind, time: '00:00' };
+  let hour = Number(m[3]);
+  const minute = m[4] ? Number(m[4]) : 0;
+  const suffix = m[5]?.replace(/\./g, '');
+  if (hour > 23 || minute > 59) return undefined;
+  if (suffix === 'pm' && hour < 12) hour += 12;
+  else if (suffix === 'am' && hour === 12) hour = 0;
+  else if (suffix !== 'am' && suffix !== 'pm' && hour >= 1 && hour <= 6) hour += 12;
+  return { kind, time: `${pad(hour)}:${pad(minute)}` };
+}
+
+function parseRadius(text: string): number | undefined {
+  const m = RADIUS.exec(text);
+  if (!m) return undefined;
+  const amount = m[1] === 'half a' ? 0.5 : m[1] === 'a' || m[1] === 'an' || m[1] === 'one' ? 1 : Number(m[1]);
+  const unit = m[2];
+  let meters: number;
+  if (unit.startsWith('mi')) meters = amount * METERS_PER_MILE;
+  else if (unit.startsWith('k')) meters = amount * 1000;
+  else if (unit.startsWith('block')) meters = amount * 150;
+  else meters = amount;
+  return meters > 0 ? Math.round(meters) : undefined;
+}
+
+export function findBrand(text: string): { brand: string; category: string } | undefined {
+  const t = normalize(text);
+  const hit = BRANDS.find(([re]) => re.test(t));
+  return hit && { brand: hit[1], category: hit[2] };
+}
+
+export function categoryOf(text: string): string | undefined {
+  const t = normalize(text);
+  return findBrand(t)?.category ?? CATEGORIES.find(([re]) => re.test(t))?.[1];
+}
+
+export function stopDetails(stops: string[]): StopDetail[] {
+  return stops.map((name) => {
+    const brand = findBrand(name);
+    const category = brand?.category ?? categoryOf(name);
+    return { name, ...(brand && { brand: brand.brand }), ...(category && { category }) };
+  });
+}
+
+/** Constraints that carry over between turns of a conversation. */
+export type TurnConstraints = Pick<ExtractedEntities, 'timeConstraint' | 'orderPreference' | 'radius'>;
+
+export function constraintsOf(e: ExtractedEntities): TurnConstraints {
+  const { timeConstraint, orderPreference, radius } = e;
+  return { ...(timeConstraint && { timeConstraint }), ...(orderPreference && { orderPreference }), ...(radius && { radius }) };
+}
+
+/** The utterance without time/order/radius phrases, so grammars don't read "5" as a destination. */
+export function stripConstraints(utterance: string): string {
+  let text = lower(utterance);
+  for (const re of [TIME, RADIUS, ...ORDER.map(([r]) => r)]) text = text.replace(re, ' ');
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/** Extract the extra entities from the utterance and the parsed destination/stops. */
+export function extractEntities(
+  utterance: string,
+  intent: string,
+  parsed: { destination?: string | null; stops?: string[] },
+): ExtractedEntities {
+  const text = normalize(utterance);
+  const stops = parsed.stops ?? [];
+  const out: ExtractedEntities = {};
+
+  const time = parseTime(lower(utterance));
+  if (time) out.timeConstraint = time;
+  const order = ORDER.find(([re]) => re.test(text))?.[1];
+  if (order) out.orderPreference = order;
+  const radius = parseRadius(text);
+  if (radius) out.radius = radius;
+
+  const destination = parsed.destination ? normalize(parsed.destination) : '';
+  if (ANCHORS.has(destination)) out.anchorReference = destination;
+
+  const details = stopDetails(stops);
+  if (details.length) out.stopDetails = details;
+  const subject = intent === 'find_place' && destination ? stopDetails([destination])[0] : details.find((d) => d.brand) ?? details[0];
+  if (subject?.brand) out.placeName = subject.brand;
+  if (subject?.category) out.category = subject.category;
+  return out;
+}
@@ -0,0 +1,26 @@
+import { Injectable } from '@nestjs/common';
+import { ADVANCED_PARSES, FAST_PARSES, normalizeUtterance } from '../../fixtures/nlu-parses';
+import { GeminiAdvancedService, type AdvancedAgentResult } from './gemini-advanced.service';
+import { GeminiFastService, type FastAgentResult } from './gemini-fast.service';
+
+/** Fast agent for fixture mode: canned parses, unknown utterances escalate. */
+@Injectable()
+export class FixtureGeminiFastService extends GeminiFastService {
+  async parse(utterance: string): Promise<FastAgentResult> {
+    const canned = FAST_PARSES[normalizeUtterance(utterance)];
+    return canned ? { ...canned, stops: [...(canned.stops ?? [])] } : { intent: 'unknown', confidence: 0, requires_advanced: true };
+  }
+}
+
+/** Advanced agent for fixture mode: canned answers, falling back to the fast parse. */
+@Injectable()
+export class FixtureGeminiAdvancedService extends GeminiAdvancedService {
+  async process(utterance: string, _context?: { previousResult?: string; history?: string }): Promise<AdvancedAgentResult> {
+    const key = normalizeUtterance(utterance);
+    const canned = ADVANCED_PARSES[key];
+    if (canned) return { ...canned, stops: [...(canned.stops ?? [])] };
+    const fast = FAST_PARSES[key];
+    if (fast) return { intent: fast.intent, destination: fast.destination, stops: [...(fast.stops ?? [])], confidence: fast.confidence };
+    return { intent: 'unknown', confidence: 0 };
+  }
+}
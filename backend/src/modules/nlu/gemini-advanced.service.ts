@@ -1,6 +1,8 @@
-import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { generateContent } from './gemini-client';
+import { completeStructured, type LlmProvider } from './llm-provider';
+import { createLlmProvider } from './llm-provider.factory';
+import { ADVANCED_RESPONSE_SCHEMA, validateAdvancedResult } from './nlu-schema';
 
 const SYSTEM = `You are an advanced travel assistant with complex reasoning capabilities.
 The fast parser returned a low-confidence result. Apply deeper analysis.
@@ -31,47 +33,18 @@ export interface AdvancedAgentResult {
 
 @Injectable()
 export class GeminiAdvancedService {
-  private readonly apiKey: string;
-  private readonly model: string;
+  private readonly llm: LlmProvider;
 
-  constructor(private config: ConfigService) {
-    this.apiKey = this.config.get<string>('GEMINI_API_KEY') ?? '';
-    this.model = this.config.get<string>('GEMINI_ADVANCED_MODEL') ?? 'gemini-2.0-flash-exp';
+  /** `llm` defaults to the provider configured for the advanced tier. */
+  constructor(config: ConfigService, llm?: LlmProvider) {
+    this.llm = llm ?? createLlmProvider(config, 'advanced');
   }
 
   async process(utterance: string, context?: { previousResult?: string; history?: string }): Promise<AdvancedAgentResult> {
-    if (!this.apiKey?.trim()) {
-      throw new HttpException(
-        {
-          error: {
-            code: 'MISSING_API_KEY',
-            message: 'GEMINI_API_KEY is not set. Add it to .env or set the environment variable.',
-            suggestions: ['Copy .env.example to .env and set GEMINI_API_KEY', 'Get a key at https://aistudio.google.com/apikey'],
-          },
-        },
-        HttpStatus.SERVICE_UNAVAILABLE,
-      );
-    }
     let user = utterance;
     if (context?.previousResult) user = `Previous parse: ${context.previousResult}\n\nUser: ${utterance}`;
     if (context?.history) user = `Context: ${context.history}\n\nUser: ${user}`;
 
-    const raw = await generateContent(this.apiKey, this.model, SYSTEM, user);
-    const cleaned = raw.replace(/```json?\s*|\s*```/g, '').trim();
-    let obj: unknown;
-    try {
-      obj = JSON.parse(cleaned);
-    } catch {
-      return { intent: 'unknown', confidence: 0 };
-    }
-    const o = obj as Record<string, unknown>;
-    return {
-      intent: typeof o.intent === 'string' ? o.intent : 'unknown',
-      destination: o.destination != null ? String(o.destination) : null,
-      stops: Array.isArray(o.stops) ? o.stops.map(String) : [],
-      confidence: typeof o.confidence === 'number' ? Math.max(0, Math.min(1, o.confidence)) : 0,
-      disambiguation_needed: Boolean(o.disambiguation_needed),
-      reasoning: typeof o.reasoning === 'string' ? o.reasoning : undefined,
-    };
+    return completeStructured(this.llm, SYSTEM, user, ADVANCED_RESPONSE_SCHEMA, validateAdvancedResult);
   }
 }
@@ -0,0 +1,49 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { cassetteFetch } from '../cassette/cassette';
+import { llmHttpError, type LlmProvider, type LlmRequest } from './llm-provider';
+
+const BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+/** Google Gemini generateContent; the schema is sent as response_schema. */
+export class GeminiLlmProvider implements LlmProvider {
+  readonly name = 'gemini';
+
+  constructor(
+    private readonly apiKey: string,
+    readonly model: string,
+  ) {}
+
+  async complete(req: LlmRequest): Promise<string> {
+    if (!this.apiKey?.trim()) {
+      throw new HttpException(
+        {
+          error: {
+            code: 'MISSING_API_KEY',
+            message: 'GEMINI_API_KEY is not set. Add it to .env or set the environment variable.',
+            suggestions: ['Copy .env.example to .env and set GEMINI_API_KEY', 'Get a key at https://aistudio.google.com/apikey'],
+          },
+        },
+        HttpStatus.SERVICE_UNAVAILABLE,
+      );
+    }
+    const url = `${BASE}/${this.model}:generateContent?key=${encodeURIComponent(this.apiKey)}`;
+    const res = await cassetteFetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        system_instruction: { parts: [{ text: req.system }] },
+        contents: req.messages.map((m) => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+        generation_config: {
+          temperature: 0.1,
+          max_output_tokens: 1024,
+          ...(req.schema && { response_mime_type: 'application/json', response_schema: req.schema }),
+        },
+      }),
+    });
+    if (!res.ok) throw await llmHttpError('Gemini', res);
+    const json = (await res.json()) as {
+      candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+    };
+    return json.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+  }
+}
@@ -0,0 +1,32 @@
+import type { ConfigService } from '@nestjs/config';
+import { GeminiLlmProvider } from './gemini-llm.provider';
+import type { LlmProvider, LlmTier } from './llm-provider';
+import { LocalLlmProvider } from './local-llm.provider';
+import { OpenAiLlmProvider } from './openai-llm.provider';
+
+/**
+ * Provider for one agent tier: LLM_<TIER>_PROVIDER picks the adapter (default gemini),
+ * <ADAPTER>_<TIER>_MODEL the model, so e.g. the fast tier can run on a local model
+ * while escalations still go to Gemini.
+ */
+export function createLlmProvider(config: ConfigService, tier: LlmTier): LlmProvider {
+  const t = tier.toUpperCase();
+  switch (config.get<string>(`LLM_${t}_PROVIDER`)) {
+    case 'openai':
+      return new OpenAiLlmProvider(
+        config.get<string>('OPENAI_BASE_URL') ?? 'https://api.openai.com/v1',
+        config.get<string>('OPENAI_API_KEY') ?? '',
+        config.get<string>(`OPENAI_${t}_MODEL`) ?? 'gpt-4o-mini',
+      );
+    case 'local':
+      return new LocalLlmProvider(
+        config.get<string>('LOCAL_LLM_BASE_URL') ?? 'http://localhost:11434',
+        config.get<string>(`LOCAL_LLM_${t}_MODEL`) ?? 'llama3.1:8b',
+      );
+    default:
+      return new GeminiLlmProvider(
+        config.get<string>('GEMINI_API_KEY') ?? '',
+        config.get<string>(`GEMINI_${t}_MODEL`) ?? 'gemini-2.0-flash-exp',
+      );
+  }
+}
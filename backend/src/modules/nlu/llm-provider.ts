@@ -0,0 +1,88 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { parseModelJson, type ResponseSchema, type Validation } from './nlu-schema';
+
+/** The fast agent parses every utterance; the advanced agent gets the escalations. */
+export type LlmTier = 'fast' | 'advanced';
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  system: string;
+  messages: LlmMessage[];
+  /** Ask for JSON of this shape (each adapter maps it to its API's structured output). */
+  schema?: ResponseSchema;
+}
+
+/**
+ * Chat model behind an NLU agent. Selected per tier by LLM_FAST_PROVIDER /
+ * LLM_ADVANCED_PROVIDER (gemini | openai | local); see createLlmProvider.
+ */
+export interface LlmProvider {
+  /** Short id for logs and error messages. */
+  readonly name: string;
+  readonly model: string;
+  /** Text of the model's reply. */
+  complete(req: LlmRequest): Promise<string>;
+}
+
+/** Turn a non-2xx response into the error the NLU layer reports. */
+export async function llmHttpError(provider: string, res: Response): Promise<Error> {
+  const t = await res.text();
+  if (res.status === 429) {
+    return new HttpException(
+      {
+        error: {
+          code: 'API_QUOTA_EXCEEDED',
+          message: `${provider} API quota exceeded.`,
+          suggestions: ['Retry later', 'Check the quota or rate limits of the configured model'],
+        },
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+  return new Error(`${provider} API error: ${res.status} ${t}`);
+}
+
+/**
+ * Ask for JSON matching `schema` and validate it. Invalid output gets one repair
+ * round-trip (the model sees its reply and what was wrong with it); if that fails
+ * too, throws MODEL_OUTPUT_INVALID.
+ */
+export async function completeStructured<T>(
+  llm: LlmProvider,
+  system: string,
+  userText: string,
+  schema: ResponseSchema,
+  validate: (obj: unknown) => Validation<T>,
+): Promise<T> {
+  const messages: LlmMessage[] = [{ role: 'user', content: userText }];
+  const check = (raw: string): Validation<T> => {
+    const parsed = parseModelJson(raw);
+    return parsed.ok ? validate(parsed.value) : parsed;
+  };
+
+  const raw = await llm.complete({ system, messages, schema });
+  const first = check(raw);
+  if (first.ok) return first.value;
+
+  messages.push(
+    { role: 'assistant', content: raw },
+    { role: 'user', content: `That reply was invalid: ${first.errors.join('; ')}. Reply again with only the corrected JSON object.` },
+  );
+  const second = check(await llm.complete({ system, messages, schema }));
+  if (second.ok) return second.value;
+
+  throw new HttpException(
+    {
+      error: {
+        code: 'MODEL_OUTPUT_INVALID',
+        message: `${llm.name} (${llm.model}) returned a parse that does not match the schema: ${second.errors.join('; ')}.`,
+        suggestions: ['Rephrase the request', 'Retry; model output varies between calls'],
+      },
+    },
+    HttpStatus.BAD_GATEWAY,
+  );
+}
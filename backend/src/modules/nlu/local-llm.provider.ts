@@ -0,0 +1,33 @@
+import { cassetteFetch } from '../cassette/cassette';
+import { llmHttpError, type LlmProvider, type LlmRequest } from './llm-provider';
+import { toJsonSchema } from './nlu-schema';
+
+/**
+ * Self-hosted model server with the Ollama chat API (POST /api/chat, non-streaming).
+ * The schema goes in `format`, which constrains decoding to matching JSON.
+ */
+export class LocalLlmProvider implements LlmProvider {
+  readonly name = 'local';
+
+  constructor(
+    private readonly baseUrl: string,
+    readonly model: string,
+  ) {}
+
+  async complete(req: LlmRequest): Promise<string> {
+    const res = await cassetteFetch(`${this.baseUrl.replace(/\/+$/, '')}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'system', content: req.system }, ...req.messages],
+        stream: false,
+        options: { temperature: 0.1, num_predict: 1024 },
+        ...(req.schema && { format: toJsonSchema(req.schema) }),
+      }),
+    });
+    if (!res.ok) throw await llmHttpError('Local LLM', res);
+    const json = (await res.json()) as { message?: { content?: string } };
+    return json.message?.content ?? '';
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Rule-based parser for the core intents, used when Gemini is unavailable or
+ * cannot make sense of an utterance. Deterministic and offline; returns null for
+ * anything outside its grammar rather than guessing.
+ */
+
+import { stripConstraints } from './entity-extractor';
+import type { FastAgentResult } from './gemini-fast.service';
+
+/** Confidence for a full grammar match; at or above CONFIDENCE_THRESHOLDS.HIGH so it executes. */
+const MATCH_CONFIDENCE = 0.85;
+/** Confidence for single-word replies (yes / no / cancel). */
+const REPLY_CONFIDENCE = 0.95;
+
+const CONFIRM = /^(?:yes|yeah|yep|yup|sure|ok|okay|confirm|correct|sounds good|do it|go ahead|lets go|thats right)(?: please)?$/;
+const DENY = /^(?:no|nope|nah|not that|wrong|thats wrong)(?: thanks| thank you)?$/;
+const CANCEL = /^(?:cancel|stop|never ?mind|forget it|quit|abort)(?: it| that| the route| navigation)?$/;
+
+const SET_ANCHOR = [
+  /^(?:set|save|mark|make|remember)\s+(?:this(?: place| location| address| spot)?|here|my (?:current )?location|where i am)\s+(?:as|to be|to)\s+(?:my\s+)?(.+)$/,
+  /^(?:this|here)\s+is\s+(?:my\s+)?(home|work|office|gym|school)$/,
+];
+
+const REMOVE_STOP = /^(?:please\s+)?(?:remove|drop|skip|delete|take out|take off|forget|cancel)\s+(.+?)(?:\s+(?:from|off)\s+(?:the|my)\s+(?:route|trip|list))?$/;
+const ADD_STOP =
+  /^(?:please\s+)?(?:can you\s+)?(?:also\s+)?(?:add|stop (?:at|for|by)|get(?! me\b)|grab|include)\s+(.+?)(?:\s+(?:to|on)\s+(?:the|my)\s+(?:route|trip|list))?$/;
+
+/** "actually make it the one on Main St", "use the Elm St one instead". */
+const MODIFY_ROUTE =
+  /^(?:actually\s+|no\s+|wait\s+)*(?:make it|use|switch to|change (?:it )?to|go to|i meant|pick|try)\s+the\s+(?:one\s+(?:on|at|near|by)\s+.+|.+\s+one)(?:\s+instead)?$/;
+
+const NAV_VERB =
+  /^(?:please\s+)?(?:take me|navigate(?: me)?|drive(?: me)?|go|head|get me|bring me|route me|directions|i (?:need|want) to (?:go|get|head)|lets go|lets head)\b\s*/;
+/** Where a stop list starts after the destination: "home with coffee", "to work via the bank". */
+const STOPS_AFTER_DEST = /,?\s+(?:with|via|(?:and |but )?(?:stop|stopping) (?:at|for|by)|and (?:grab|get|pick up))\s+/;
+/** Destination at the end: "gas on the way home", "coffee before work". */
+const DEST_AT_END = /\s+(?:on (?:the|my) way(?: to| back to| back)?|en route to|before(?: going to| heading to| i go to)?|and then(?: go| head)?(?: to)?|then(?: go| head)?(?: to)?)\s+(.+)$/;
+
+const LEADING_FILLER =
+  /^(?:i (?:need|want|have) to\s+|i need\s+|i want\s+|can you\s+|please\s+|also\s+)*(?:stop (?:at|for|by)\s+|get\s+|grab\s+|pick up\s+|buy\s+|drop off\s+|fill up (?:on|with)\s+|visit\s+)?/;
+const ARTICLES = /^(?:a|an|the|some|my)\s+/;
+
+/** Everyday words that search better as a place category. */
+const STOP_SYNONYMS: Record<string, string> = {
+  prescription: 'pharmacy',
+  medicine: 'pharmacy',
+  cash: 'atm',
+  money: 'atm',
+  groceries: 'grocery store',
+  fuel: 'gas',
+  petrol: 'gas',
+  mail: 'post office',
+  package: 'post office',
+};
+
+function normalize(utterance: string): string {
+  return utterance
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .replace(/[^a-z0-9&\s,]/g, ' ')
+    .replace(/\s*,\s*/g, ', ')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s,]+|[\s,]+$/g, '');
+}
+
+function cleanPhrase(text: string): string {
+  let s = text.trim();
+  for (let prev = ''; prev !== s; ) {
+    prev = s;
+    s = s.replace(LEADING_FILLER, '').replace(ARTICLES, '');
+  }
+  return s.replace(/\s+(?:too|as well|also)$/, '').replace(/\s+stop$/, '').replace(/^to\s+/, '').trim();
+}
+
+function splitStops(text: string): string[] {
+  return text
+    .split(/\s*,\s*|\s+(?:and|then|&|plus)\s+/)
+    .map((s) => cleanPhrase(s))
+    .filter(Boolean)
+    .map((s) => STOP_SYNONYMS[s] ?? s);
+}
+
+function cleanDestination(text: string): string {
+  return cleanPhrase(text.replace(/\s+(?:please|now|asap)$/, '')).replace(/^back\s+/, '');
+}
+
+function result(intent: string, destination: string | null, stops: string[], confidence = MATCH_CONFIDENCE): FastAgentResult {
+  return { intent, destination, stops, confidence, requires_advanced: false };
+}
+
+/** "gas and coffee on the way home", "get coffee before work". */
+function parseStopsThenDestination(text: string): FastAgentResult | null {
+  const tail = DEST_AT_END.exec(text);
+  if (!tail) return null;
+  const destination = cleanDestination(tail[1]);
+  const stops = splitStops(text.slice(0, tail.index).replace(NAV_VERB, ''));
+  if (!destination || stops.length === 0) return null;
+  return result('navigate_with_stops', destination, stops);
+}
+
+/** "take me home", "navigate to work via the bank". */
+function parseDestinationThenStops(text: string): FastAgentResult | null {
+  const verb = NAV_VERB.exec(text);
+  if (!verb) return null;
+  const rest = text.slice(verb[0].length).replace(/^(?:to|towards)\s+/, '');
+  const marker = STOPS_AFTER_DEST.exec(rest);
+  const destination = cleanDestination(marker ? rest.slice(0, marker.index) : rest);
+  if (!destination) return null;
+  const stops = marker ? splitStops(rest.slice(marker.index + marker[0].length)) : [];
+  return stops.length ? result('navigate_with_stops', destination, stops) : result('navigate_direct', destination, []);
+}
+
+/** Parse an utterance with the local grammar; null when it does not match. */
+export function localParse(utterance: string): FastAgentResult | null {
+  const text = normalize(stripConstraints(utterance));
+  if (!text) return null;
+  const bare = text.replace(/,/g, '');
+
+  if (CONFIRM.test(bare)) return result('confirm', null, [], REPLY_CONFIDENCE);
+  if (DENY.test(bare)) return result('deny', null, [], REPLY_CONFIDENCE);
+  if (CANCEL.test(bare)) return result('cancel', null, [], REPLY_CONFIDENCE);
+
+  for (const re of SET_ANCHOR) {
+    const m = re.exec(bare);
+    if (m) return result('set_anchor', cleanDestination(m[1]), []);
+  }
+
+  if (MODIFY_ROUTE.test(bare)) return result('modify_route', null, []);
+
+  const remove = REMOVE_STOP.exec(text);
+  if (remove) {
+    const stops = splitStops(remove[1]);
+    return stops.length ? result('remove_stop', null, stops) : null;
+  }
+
+  const withDestination = parseStopsThenDestination(text);
+  if (withDestination) return withDestination;
+
+  const add = ADD_STOP.exec(text);
+  if (add) {
+    const stops = splitStops(add[1]);
+    return stops.length ? result('add_stop', null, stops) : null;
+  }
+
+  return parseDestinationThenStops(text);
+}
@@ -0,0 +1,144 @@
+/**
+ * Shape of the parses the Gemini agents must return: a response schema sent with the
+ * request, and a validator for what actually comes back.
+ */
+
+import type { AdvancedAgentResult } from './gemini-advanced.service';
+import type { FastAgentResult } from './gemini-fast.service';
+
+export const INTENTS = [
+  'navigate_with_stops',
+  'navigate_direct',
+  'find_place',
+  'add_stop',
+  'remove_stop',
+  'modify_route',
+  'get_suggestions',
+  'set_anchor',
+  'confirm',
+  'deny',
+  'cancel',
+  'unknown',
+] as const;
+
+export type Intent = (typeof INTENTS)[number];
+
+/** Gemini `response_schema` (OpenAPI subset). */
+export type ResponseSchema = Record<string, unknown>;
+
+const ENTITY_PROPERTIES = {
+  intent: { type: 'STRING', enum: [...INTENTS] },
+  destination: { type: 'STRING', nullable: true },
+  stops: { type: 'ARRAY', items: { type: 'STRING' } },
+  confidence: { type: 'NUMBER' },
+};
+
+export const FAST_RESPONSE_SCHEMA: ResponseSchema = {
+  type: 'OBJECT',
+  properties: { ...ENTITY_PROPERTIES, requires_advanced: { type: 'BOOLEAN' } },
+  required: ['intent', 'destination', 'stops', 'confidence', 'requires_advanced'],
+};
+
+export const ADVANCED_RESPONSE_SCHEMA: ResponseSchema = {
+  type: 'OBJECT',
+  properties: {
+    ...ENTITY_PROPERTIES,
+    disambiguation_needed: { type: 'BOOLEAN' },
+    reasoning: { type: 'STRING' },
+  },
+  required: ['intent', 'destination', 'stops', 'confidence'],
+};
+
+/** The same schema as standard JSON Schema, for OpenAI-compatible and Ollama structured output. */
+export function toJsonSchema(schema: ResponseSchema): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'nullable') continue;
+    if (key === 'type') out.type = schema.nullable ? [String(value).toLowerCase(), 'null'] : String(value).toLowerCase();
+    else if (key === 'items') out.items = toJsonSchema(value as ResponseSchema);
+    else if (key === 'properties') {
+      out.properties = Object.fromEntries(
+        Object.entries(value as Record<string, ResponseSchema>).map(([k, v]) => [k, toJsonSchema(v)]),
+      );
+    } else out[key] = value;
+  }
+  return out;
+}
+
+export type Validation<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export interface ParsedEntities {
+  intent: Intent;
+  destination: string | null;
+  stops: string[];
+  confidence: number;
+}
+
+/** Parse model text as JSON, tolerating a ```json fence around it. */
+export function parseModelJson(raw: string): Validation<unknown> {
+  const cleaned = raw.replace(/```json?\s*|\s*```/g, '').trim();
+  try {
+    return { ok: true, value: JSON.parse(cleaned) };
+  } catch {
+    return { ok: false, errors: ['response is not valid JSON'] };
+  }
+}
+
+/** Check the fields both agents share; extra fields are the caller's to read. */
+export function validateEntities(obj: unknown): Validation<ParsedEntities> {
+  if (!obj || typeof obj !== 'object' || Array.isArray(obj)) return { ok: false, errors: ['response must be a JSON object'] };
+  const o = obj as Record<string, unknown>;
+  const errors: string[] = [];
+
+  if (typeof o.intent !== 'string' || !(INTENTS as readonly string[]).includes(o.intent)) {
+    errors.push(`intent must be one of: ${INTENTS.join(', ')}`);
+  }
+  if (o.destination !== undefined && o.destination !== null && typeof o.destination !== 'string') {
+    errors.push('destination must be a string or null');
+  }
+  if (o.stops !== undefined && !(Array.isArray(o.stops) && o.stops.every((s) => typeof s === 'string'))) {
+    errors.push('stops must be an array of strings');
+  }
+  if (typeof o.confidence !== 'number' || Number.isNaN(o.confidence)) {
+    errors.push('confidence must be a number between 0 and 1');
+  }
+  if (errors.length) return { ok: false, errors };
+
+  return {
+    ok: true,
+    value: {
+      intent: o.intent as Intent,
+      destination: typeof o.destination === 'string' && o.destination.trim() ? o.destination : null,
+      stops: ((o.stops as string[] | undefined) ?? []).filter((s) => s.trim()),
+      confidence: Math.max(0, Math.min(1, o.confidence as number)),
+    },
+  };
+}
+
+export function validateFastResult(obj: unknown): Validation<FastAgentResult> {
+  const base = validateEntities(obj);
+  if (!base.ok) return base;
+  const flag = (obj as Record<string, unknown>).requires_advanced;
+  if (flag !== undefined && typeof flag !== 'boolean') return { ok: false, errors: ['requires_advanced must be a boolean'] };
+  return { ok: true, value: { ...base.value, requires_advanced: flag === true } };
+}
+
+export function validateAdvancedResult(obj: unknown): Validation<AdvancedAgentResult> {
+  const base = validateEntities(obj);
+  if (!base.ok) return base;
+  const o = obj as Record<string, unknown>;
+  const errors: string[] = [];
+  if (o.disambiguation_needed !== undefined && typeof o.disambiguation_needed !== 'boolean') {
+    errors.push('disambiguation_needed must be a boolean');
+  }
+  if (o.reasoning !== undefined && o.reasoning !== null && typeof o.reasoning !== 'string') errors.push('reasoning must be a string');
+  if (errors.length) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      ...base.value,
+      disambiguation_needed: o.disambiguation_needed === true,
+      reasoning: typeof o.reasoning === 'string' ? o.reasoning : undefined,
+    },
+  };
+}
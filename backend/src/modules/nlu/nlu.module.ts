@@ -1,15 +1,44 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { AuthGuard } from '../../common/guards/auth.guard';
+import { isFixtureMode } from '../../fixtures/fixture-mode';
+import { DetourBufferService } from '../errand/services/detour-buffer.service';
+import { MapsModule } from '../maps/maps.module';
+import { PlacesModule } from '../places/places.module';
+import { UserModule } from '../user/user.module';
 import { EscalateController } from './controllers/escalate.controller';
 import { NluController } from './controllers/nlu.controller';
 import { ConfidenceRouterService } from './confidence-router.service';
+import { ConversationContextService } from './conversation-context.service';
+import { FixtureGeminiAdvancedService, FixtureGeminiFastService } from './fixture-gemini.service';
 import { GeminiAdvancedService } from './gemini-advanced.service';
 import { GeminiFastService } from './gemini-fast.service';
 import { NluService } from './nlu.service';
+import { ReferenceResolverService } from './reference-resolver.service';
 
 @Module({
+  imports: [MapsModule, PlacesModule, UserModule],
   controllers: [NluController, EscalateController],
-  providers: [AuthGuard, GeminiFastService, GeminiAdvancedService, ConfidenceRouterService, NluService],
-  exports: [NluService],
+  providers: [
+    AuthGuard,
+    {
+      provide: GeminiFastService,
+      useFactory: (config: ConfigService) =>
+        isFixtureMode(config) ? new FixtureGeminiFastService(config) : new GeminiFastService(config),
+      inject: [ConfigService],
+    },
+    {
+      provide: GeminiAdvancedService,
+      useFactory: (config: ConfigService) =>
+        isFixtureMode(config) ? new FixtureGeminiAdvancedService(config) : new GeminiAdvancedService(config),
+      inject: [ConfigService],
+    },
+    ConfidenceRouterService,
+    ConversationContextService,
+    NluService,
+    DetourBufferService,
+    ReferenceResolverService,
+  ],
+  exports: [NluService, ConfidenceRouterService, ReferenceResolverService],
 })
 export class NluModule {}
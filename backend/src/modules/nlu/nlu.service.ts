@@ -1,39 +1,100 @@
 import { Injectable } from '@nestjs/common';
-import { GeminiAdvancedService } from './gemini-advanced.service';
-import { GeminiFastService } from './gemini-fast.service';
+import { ConfigService } from '@nestjs/config';
+import { GeminiAdvancedService, type AdvancedAgentResult } from './gemini-advanced.service';
+import { GeminiFastService, type FastAgentResult } from './gemini-fast.service';
 import { ConfidenceRouterService } from './confidence-router.service';
+import { ConversationContextService, type RouteContext } from './conversation-context.service';
+import { constraintsOf, extractEntities, stopDetails, type ExtractedEntities } from './entity-extractor';
+import { localParse } from './local-parser';
 
 export interface NLUResponse {
   intent: string;
   confidence: number;
   entities: Record<string, unknown>;
-  agent: 'fast' | 'advanced';
+  /** local = rule-based parser (Gemini unavailable, unparseable, or NLU_LOCAL_FIRST). */
+  agent: 'fast' | 'advanced' | 'local';
   utterance: string;
   processingTime: number;
+  /** Pass back in context.conversationId to continue the conversation. */
+  conversationId?: string;
+}
+
+export interface NluContext {
+  previousIntent?: string;
+  previousEntities?: Record<string, unknown>;
+  conversationId?: string;
+  currentRoute?: RouteContext;
 }
 
 @Injectable()
 export class NluService {
+  private readonly localFirst: boolean;
+
   constructor(
     private readonly fast: GeminiFastService,
     private readonly advanced: GeminiAdvancedService,
     private readonly router: ConfidenceRouterService,
-  ) {}
+    private readonly conversations: ConversationContextService,
+    config: ConfigService,
+  ) {
+    this.localFirst = config.get<string>('NLU_LOCAL_FIRST') === 'true';
+  }
 
-  async process(utterance: string, _context?: { previousIntent?: string; previousEntities?: unknown; conversationId?: string }): Promise<NLUResponse> {
+  /**
+   * Parse one turn and merge it into the conversation's plan, so follow-ups like
+   * "add gas too" extend the previous request instead of replacing it.
+   */
+  async process(utterance: string, context?: NluContext): Promise<NLUResponse> {
     const t0 = Date.now();
+    const state = await this.conversations.load(context?.conversationId, context);
+    const res = await this.parse(utterance, this.conversations.describe(state), t0);
+    const { destination, stops, ...extracted } = res.entities as { destination?: string | null; stops?: string[] } & ExtractedEntities;
+    const entities = this.conversations.apply(
+      state,
+      { intent: res.intent, destination, stops, constraints: constraintsOf(extracted) },
+      utterance,
+    );
+    if (res.intent === 'cancel') await this.conversations.clear(state.conversationId);
+    else await this.conversations.save(state);
+    const details = stopDetails(entities.stops);
+    return {
+      ...res,
+      entities: { ...extracted, ...entities, stopDetails: details.length ? details : undefined },
+      conversationId: state.conversationId,
+    };
+  }
+
+  /**
+   * Local grammar first when NLU_LOCAL_FIRST is set; otherwise Gemini, falling back to the
+   * local grammar when Gemini fails (missing key, quota, network) or returns nothing usable.
+   * Single turn, no conversation state; the eval harness scores this directly.
+   */
+  async parse(utterance: string, history?: string, t0 = Date.now()): Promise<NLUResponse> {
+    const local = localParse(utterance);
+    if (local && this.localFirst) return this.fromLocal(local, utterance, t0);
+    try {
+      const res = await this.processWithGemini(utterance, history, t0);
+      return res.intent === 'unknown' && local ? this.fromLocal(local, utterance, t0) : res;
+    } catch (e) {
+      if (local) return this.fromLocal(local, utterance, t0);
+      throw e;
+    }
+  }
+
+  private async processWithGemini(utterance: string, history: string | undefined, t0: number): Promise<NLUResponse> {
     const fastResult = await this.fast.parse(utterance);
     const decision = this.router.routeByConfidence(fastResult);
 
     if (decision.shouldEscalate) {
       const adv = await this.advanced.process(utterance, {
         previousResult: JSON.stringify(fastResult),
+        history,
       });
       const processingTime = Date.now() - t0;
       return {
         intent: adv.intent,
         confidence: adv.confidence,
-        entities: { destination: adv.destination, stops: adv.stops },
+        entities: this.entities(utterance, adv.intent, adv),
         agent: 'advanced',
         utterance,
         processingTime,
@@ -44,7 +105,7 @@ export class NluService {
     return {
       intent: fastResult.intent,
       confidence: fastResult.confidence,
-      entities: { destination: fastResult.destination, stops: fastResult.stops },
+      entities: this.entities(utterance, fastResult.intent, fastResult),
       agent: 'fast',
       utterance,
       processingTime,
@@ -59,15 +120,81 @@ export class NluService {
     const history = context?.conversationHistory
       ?.map((m) => `${m.role}: ${m.content}`)
       .join('\n');
-    const adv = await this.advanced.process(utterance, { history });
+    let adv: AdvancedAgentResult;
+    try {
+      adv = await this.advanced.process(utterance, { history });
+    } catch (e) {
+      const local = localParse(utterance);
+      if (local) return this.fromLocal(local, utterance, t0);
+      throw e;
+    }
     const processingTime = Date.now() - t0;
     return {
       intent: adv.intent,
       confidence: adv.confidence,
-      entities: { destination: adv.destination, stops: adv.stops },
+      entities: this.entities(utterance, adv.intent, adv),
       agent: 'advanced',
       utterance,
       processingTime,
     };
   }
+
+  private fromLocal(result: FastAgentResult, utterance: string, t0: number): NLUResponse {
+    return {
+      intent: result.intent,
+      confidence: result.confidence,
+      entities: this.entities(utterance, result.intent, result),
+      agent: 'local',
+      utterance,
+      processingTime: Date.now() - t0,
+    };
+  }
+
+  /**
+   * The agent's destination/stops plus what the extractor finds (time, order, radius, brands).
+   * `disambiguationNeeded` keeps the advanced agent's flag so the controller asks about the references.
+   */
+  private entities(
+    utterance: string,
+    intent: string,
+    parsed: { destination?: string | null; stops?: string[]; disambiguation_needed?: boolean },
+  ): Record<string, unknown> {
+    return {
+      destination: parsed.destination,
+      stops: parsed.stops,
+      ...extractEntities(utterance, intent, parsed),
+      ...(parsed.disambiguation_needed && { disambiguationNeeded: true }),
+    };
+  }
+
+  /** What the assistant understood, in words; stored as the turn's system response. */
+  summarize(res: NLUResponse): string {
+    const dest = typeof res.entities.destination === 'string' ? res.entities.destination : 'your destination';
+    const stops = Array.isArray(res.entities.stops) ? res.entities.stops.map(String) : [];
+    switch (res.intent) {
+      case 'navigate_with_stops':
+        return `Route to ${dest} with stops: ${stops.join(', ')}.`;
+      case 'navigate_direct':
+        return `Route to ${dest}.`;
+      case 'add_stop':
+      case 'remove_stop':
+        return `Stops are now: ${stops.join(', ') || 'none'}.`;
+      case 'modify_route':
+        return res.entities.replaceStop ? 'Switched to the place you picked.' : 'Which stop should change?';
+      case 'find_place':
+        return `Searching for ${dest}.`;
+      case 'get_suggestions':
+        return 'Looking for stops along your route.';
+      case 'set_anchor':
+        return `Saving this location as ${dest}.`;
+      case 'confirm':
+        return 'Confirmed.';
+      case 'deny':
+        return "Okay, let's try that again.";
+      case 'cancel':
+        return 'Cancelled.';
+      default:
+        return "Sorry, I didn't understand that.";
+    }
+  }
 }
@@ -0,0 +1,39 @@
+import { cassetteFetch } from '../cassette/cassette';
+import { llmHttpError, type LlmProvider, type LlmRequest } from './llm-provider';
+import { toJsonSchema } from './nlu-schema';
+
+/**
+ * Any OpenAI-compatible /chat/completions endpoint (OpenAI, vLLM, llama.cpp server,
+ * LM Studio, ...). The API key is optional for self-hosted servers.
+ */
+export class OpenAiLlmProvider implements LlmProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly apiKey: string,
+    readonly model: string,
+  ) {}
+
+  async complete(req: LlmRequest): Promise<string> {
+    const res = await cassetteFetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'system', content: req.system }, ...req.messages],
+        temperature: 0.1,
+        max_tokens: 1024,
+        ...(req.schema && {
+          response_format: { type: 'json_schema', json_schema: { name: 'nlu_parse', schema: toJsonSchema(req.schema) } },
+        }),
+      }),
+    });
+    if (!res.ok) throw await llmHttpError('OpenAI-compatible', res);
+    const json = (await res.json()) as { choices?: Array<{ message?: { content?: string | null } }> };
+    return json.choices?.[0]?.message?.content ?? '';
+  }
+}
@@ -0,0 +1,252 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { DetourStatus } from '../../common/constants/detour.constants';
+import type { Coordinates } from '../../common/types';
+import { DetourBufferService, type DetourPreferences } from '../errand/services/detour-buffer.service';
+import { GoogleMapsService } from '../maps/google-maps.service';
+import { haversineM } from '../maps/polyline';
+import type { PlaceCandidate } from '../places/google-places.service';
+import { PlaceSearchService } from '../places/place-search.service';
+import { AnchorService } from '../user/anchor.service';
+import { UserService } from '../user/user.service';
+import { stopDetails, type StopDetail } from './entity-extractor';
+import type { NLUResponse } from './nlu.service';
+
+const M_TO_MI = 1 / 1609.34;
+const SEARCH_RADIUS_M = 25_000;
+const MAX_CANDIDATES = 5;
+/**
+ * The cheapest candidate is picked without asking when the runner-up costs at least this
+ * much more (distance for destinations, detour for stops): 800 m or 50%, whichever is larger.
+ */
+const CLEAR_WIN_M = 800;
+const CLEAR_WIN_RATIO = 0.5;
+
+/** Intents whose destination is a place to drive to; stops are only checked when planning an errand. */
+const DESTINATION_INTENTS = new Set(['navigate_direct', 'navigate_with_stops', 'find_place']);
+const STOP_INTENTS = new Set(['navigate_with_stops']);
+
+type Anchor = Awaited<ReturnType<AnchorService['list']>>[number];
+
+/** One choice in a disambiguation list. Distances are miles, as DisambiguationDialog shows them. */
+export interface DisambiguationCandidate {
+  id: string;
+  name: string;
+  address: string;
+  source: 'anchor' | 'place';
+  /** Straight-line miles from the user's current location. */
+  distance?: number;
+  /** Stops only: estimated extra miles versus driving straight to the destination. */
+  detourCost?: number;
+  detourStatus?: DetourStatus;
+  rating?: number;
+  reviewCount?: number;
+  isOpen?: boolean;
+}
+
+export interface Disambiguation {
+  type: 'destination' | 'stop';
+  /** The reference as the user said it, e.g. "starbucks" or "the office". */
+  query: string;
+  /** Best first. */
+  candidates: DisambiguationCandidate[];
+}
+
+/** Who is asking and from where; `preferences` are per-request detour overrides. */
+export interface ReferenceContext {
+  userId?: string;
+  origin?: Coordinates;
+  preferences?: Record<string, unknown>;
+}
+
+interface Scored {
+  candidate: DisambiguationCandidate;
+  costM: number;
+}
+
+/** "Peet's Coffee" → "peetscoffee", for brand matching. */
+function compact(s: string): string {
+  return s.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function miles(m: number): number {
+  return Math.round(m * M_TO_MI * 10) / 10;
+}
+
+/**
+ * Finds place and anchor references in a parse that the planner would otherwise have to
+ * guess at ("take me to Starbucks" with three nearby, "the office" with two office anchors)
+ * and lists the choices, so the client can ask before planning.
+ *
+ * Destinations resolve the way the errand planner does: a single matching anchor or a
+ * geocodable address is not ambiguous. Stops are only checked for a named brand, or for
+ * anything when the advanced agent flagged the parse (`disambiguationNeeded`).
+ */
+@Injectable()
+export class ReferenceResolverService {
+  private readonly logger = new Logger(ReferenceResolverService.name);
+
+  constructor(
+    private readonly anchors: AnchorService,
+    private readonly maps: GoogleMapsService,
+    private readonly placeSearch: PlaceSearchService,
+    private readonly detour: DetourBufferService,
+    private readonly user: UserService,
+  ) {}
+
+  /**
+   * Entities to merge into the response: `disambiguation` (every ambiguous reference) and
+   * `disambiguationCandidates` (the first one's list, what the client asks about next).
+   * Empty when nothing is ambiguous. Best-effort: lookups that fail leave the parse as is.
+   */
+  async candidates(res: NLUResponse, where: ReferenceContext): Promise<Record<string, unknown>> {
+    try {
+      const list = await this.resolve(res, where);
+      return list.length ? { disambiguation: list, disambiguationCandidates: list[0].candidates } : {};
+    } catch (e) {
+      this.logger.warn(`Could not resolve references: ${e instanceof Error ? e.message : e}`);
+      return {};
+    }
+  }
+
+  async resolve(res: NLUResponse, where: ReferenceContext): Promise<Disambiguation[]> {
+    const { entities } = res;
+    const flagged = entities.disambiguationNeeded === true;
+    const destination = typeof entities.destination === 'string' && entities.destination.trim() ? entities.destination : undefined;
+    const stops = STOP_INTENTS.has(res.intent) && Array.isArray(entities.stops) ? stopDetails(entities.stops.map(String)) : [];
+    const out: Disambiguation[] = [];
+
+    let destinationAt: Coordinates | undefined;
+    if (destination && DESTINATION_INTENTS.has(res.intent)) {
+      const anchors = where.userId ? await this.listAnchors(where.userId) : [];
+      const d = await this.destination(destination, anchors, where.origin, flagged, res.intent === 'find_place');
+      destinationAt = d.location;
+      if (d.candidates) out.push({ type: 'destination', query: destination, candidates: d.candidates });
+    }
+    if (where.origin) {
+      let prefs: DetourPreferences | undefined;
+      for (const stop of stops) {
+        if (!stop.brand && !flagged) continue;
+        prefs ??= await this.detourPreferences(where);
+        const candidates = await this.stop(stop, where.origin, destinationAt, prefs, flagged);
+        if (candidates) out.push({ type: 'stop', query: stop.name, candidates });
+      }
+    }
+    return out;
+  }
+
+  /** Stored detour preferences under the request's, as the planner merges them. */
+  private async detourPreferences(where: ReferenceContext): Promise<DetourPreferences> {
+    let stored: Record<string, unknown> = {};
+    if (where.userId) {
+      try {
+        stored = await this.user.getPreferences(where.userId);
+      } catch (e) {
+        this.logger.warn(`Could not load preferences: ${e instanceof Error ? e.message : e}`);
+      }
+    }
+    return this.detour.preferencesFrom({ ...stored, ...where.preferences });
+  }
+
+  private async listAnchors(userId: string): Promise<Anchor[]> {
+    try {
+      return await this.anchors.list(userId);
+    } catch (e) {
+      this.logger.warn(`Could not load anchors: ${e instanceof Error ? e.message : e}`);
+      return [];
+    }
+  }
+
+  private async destination(
+    query: string,
+    anchors: Anchor[],
+    origin: Coordinates | undefined,
+    ask: boolean,
+    isSearch: boolean,
+  ): Promise<{ location?: Coordinates; candidates?: DisambiguationCandidate[] }> {
+    const q = query.toLowerCase().trim();
+    const exact = anchors.find((a) => a.name.toLowerCase() === q);
+    if (exact) return { location: exact.location };
+    const matching = anchors.filter((a) => a.name.toLowerCase().includes(q) || q.includes(a.name.toLowerCase()));
+    if (matching.length === 1) return { location: matching[0].location };
+    if (matching.length > 1) {
+      const scored = matching.map((a) => this.fromAnchor(a, origin));
+      return { candidates: this.ranked(scored) };
+    }
+
+    // "Find a pharmacy" is a search; anything else is an address first, like the planner does it.
+    if (!isSearch) {
+      const geocoded = await this.maps.geocode(query);
+      if (geocoded) return { location: geocoded.location };
+    }
+    if (!origin) return {};
+    const places = await this.placeSearch.searchPlaces(query, origin, SEARCH_RADIUS_M, MAX_CANDIDATES);
+    const scored = places.map((p) => this.fromPlace(p, origin, haversineM(origin, p.location)));
+    if (scored.length > 1 && (ask || isSearch || !this.clearWinner(scored))) return { candidates: this.ranked(scored) };
+    return { location: places[0]?.location };
+  }
+
+  /** Candidates for one stop, ranked by detour when the destination is known, else by distance. */
+  private async stop(
+    stop: StopDetail,
+    origin: Coordinates,
+    destination: Coordinates | undefined,
+    prefs: DetourPreferences,
+    ask: boolean,
+  ): Promise<DisambiguationCandidate[] | null> {
+    let places = await this.placeSearch.searchPlaces(stop.brand ?? stop.name, origin, SEARCH_RADIUS_M, MAX_CANDIDATES);
+    if (stop.brand) places = places.filter((p) => compact(p.name).includes(compact(stop.brand!)));
+    if (places.length < 2) return null;
+
+    const directM = destination ? haversineM(origin, destination) : 0;
+    const bufferM = this.detour.calculateBudget(directM, prefs).distanceM;
+    const scored = places.map((p) => {
+      if (!destination) return this.fromPlace(p, origin, haversineM(origin, p.location));
+      const extraM = Math.max(0, haversineM(origin, p.location) + haversineM(p.location, destination) - directM);
+      const s = this.fromPlace(p, origin, extraM);
+      s.candidate.detourCost = miles(extraM);
+      s.candidate.detourStatus = this.detour.getDetourStatus(extraM, bufferM);
+      return s;
+    });
+    return ask || !this.clearWinner(scored) ? this.ranked(scored) : null;
+  }
+
+  private fromAnchor(a: Anchor, origin: Coordinates | undefined): Scored {
+    const distM = origin ? haversineM(origin, a.location) : 0;
+    return {
+      candidate: {
+        id: a.id,
+        name: a.name,
+        address: a.address ?? '',
+        source: 'anchor',
+        ...(origin && { distance: miles(distM) }),
+      },
+      costM: distM,
+    };
+  }
+
+  private fromPlace(p: PlaceCandidate, origin: Coordinates, costM: number): Scored {
+    return {
+      candidate: {
+        id: p.placeId,
+        name: p.name,
+        address: p.address ?? '',
+        source: 'place',
+        distance: miles(haversineM(origin, p.location)),
+        rating: p.rating,
+        reviewCount: p.reviewCount,
+        isOpen: p.isOpen,
+      },
+      costM,
+    };
+  }
+
+  private clearWinner(scored: Scored[]): boolean {
+    const [best, next] = [...scored].sort((a, b) => a.costM - b.costM);
+    return !next || next.costM - best.costM >= Math.max(CLEAR_WIN_M, best.costM * CLEAR_WIN_RATIO);
+  }
+
+  /** Stable sort keeps the search's relevance order among equal costs. */
+  private ranked(scored: Scored[]): DisambiguationCandidate[] {
+    return [...scored].sort((a, b) => a.costM - b.costM).map((s) => s.candidate);
+  }
+}
@@ -0,0 +1,78 @@
+import { Injectable } from '@nestjs/common';
+import type { Coordinates } from '../../common/types';
+import { PLACES, type FixturePlace } from '../../fixtures/synthetic-city';
+import { haversineM } from '../maps/polyline';
+import { GooglePlacesService, type PlaceCandidate } from './google-places.service';
+import { isOpenAt } from './opening-hours';
+
+const STOPWORDS = new Set(['a', 'an', 'the', 'at', 'near', 'me', 'my', 'on', 'to', 'for', 'some', 'get', 'pick', 'up', 'shop', 'store']);
+
+function terms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w && !STOPWORDS.has(w))
+    .map((w) => (w.length > 3 && w.endsWith('s') ? w.slice(0, -1) : w));
+}
+
+/**
+ * GooglePlacesService for fixture mode: searches the synthetic city's places
+ * instead of calling the Places API.
+ */
+@Injectable()
+export class FixturePlacesService extends GooglePlacesService {
+  async textSearch(query: string, location: Coordinates, _radiusM = 10000, limit = 20): Promise<PlaceCandidate[]> {
+    const q = terms(query);
+    return PLACES.map((p) => ({ p, score: this.matchScore(p, q) }))
+      .filter((m) => m.score > 0)
+      .sort((a, b) => b.score - a.score || haversineM(location, a.p.location) - haversineM(location, b.p.location))
+      .slice(0, limit)
+      .map((m) => this.toCandidate(m.p));
+  }
+
+  async nearby(location: Coordinates, typeOrKeyword: string, radiusM = 5000, limit = 20): Promise<PlaceCandidate[]> {
+    const q = terms(typeOrKeyword.replace(/_/g, ' '));
+    return PLACES.filter((p) => (p.types.includes(typeOrKeyword) || this.matchScore(p, q) > 0) && haversineM(location, p.location) <= radiusM)
+      .sort((a, b) => haversineM(location, a.location) - haversineM(location, b.location))
+      .slice(0, limit)
+      .map((p) => this.toCandidate(p));
+  }
+
+  async autocomplete(
+    input: string,
+    location?: Coordinates,
+    _sessionToken?: string,
+  ): Promise<Array<{ placeId: string; description: string; mainText: string; secondaryText: string }>> {
+    const q = input.trim().toLowerCase();
+    if (!q) return [];
+    return PLACES.filter((p) => p.name.toLowerCase().split(/\s+/).some((w) => w.startsWith(q)) || p.name.toLowerCase().startsWith(q))
+      .sort((a, b) => (location ? haversineM(location, a.location) - haversineM(location, b.location) : a.name.localeCompare(b.name)))
+      .slice(0, 5)
+      .map((p) => ({ placeId: p.placeId, description: `${p.name}, ${p.address}`, mainText: p.name, secondaryText: p.address }));
+  }
+
+  async getPlaceDetails(placeId: string): Promise<PlaceCandidate | null> {
+    const p = PLACES.find((x) => x.placeId === placeId);
+    return p ? { ...this.toCandidate(p), openingHours: p.openingHours } : null;
+  }
+
+  /** Share of query terms found in the place's name, types or keywords. */
+  private matchScore(p: FixturePlace, queryTerms: string[]): number {
+    if (queryTerms.length === 0) return 0;
+    const vocab = new Set(terms([p.name, ...p.types.map((t) => t.replace(/_/g, ' ')), ...p.keywords].join(' ')));
+    return queryTerms.filter((t) => vocab.has(t)).length / queryTerms.length;
+  }
+
+  private toCandidate(p: FixturePlace): PlaceCandidate {
+    return {
+      placeId: p.placeId,
+      name: p.name,
+      address: p.address,
+      location: p.location,
+      rating: p.rating,
+      reviewCount: p.reviewCount,
+      types: p.types,
+      isOpen: isOpenAt(p.openingHours, Date.now()),
+    };
+  }
+}
@@ -1,7 +1,10 @@
 import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { CacheService, CACHE_TTL } from '../cache/cache.service';
+import { cassetteFetch } from '../cassette/cassette';
 import type { Coordinates } from '../../common/types';
+import type { OpeningHours } from './opening-hours';
+import type { PlaceStoreService } from './place-store.service';
 
 const BASE = 'https://maps.googleapis.com/maps/api/place';
 
@@ -14,6 +17,8 @@ export interface PlaceCandidate {
   reviewCount?: number;
   types?: string[];
   isOpen?: boolean;
+  /** Weekly hours; only populated by getPlaceDetails. */
+  openingHours?: OpeningHours;
 }
 
 @Injectable()
@@ -23,6 +28,8 @@ export class GooglePlacesService {
   constructor(
     private config: ConfigService,
     private cache: CacheService,
+    /** Postgres tier for results; absent in fixture mode. */
+    private store?: PlaceStoreService,
   ) {
     this.apiKey = this.config.get<string>('GOOGLE_PLACES_API_KEY') ?? this.config.get<string>('GOOGLE_MAPS_API_KEY') ?? '';
   }
@@ -42,7 +49,7 @@ export class GooglePlacesService {
     }
     const u = new URL(url);
     Object.entries({ ...params, key: this.apiKey }).forEach(([k, v]) => u.searchParams.set(k, v));
-    const res = await fetch(u.toString());
+    const res = await cassetteFetch(u.toString());
     if (!res.ok) {
       const t = await res.text();
       if (res.status === 429) {
@@ -89,7 +96,7 @@ export class GooglePlacesService {
       opening_hours?: { open_now?: boolean };
     }> };
     const list = json.results?.slice(0, limit) ?? [];
-    return list.map((r) => ({
+    const out = list.map((r) => ({
       placeId: r.place_id ?? '',
       name: r.name ?? '',
       address: r.formatted_address,
@@ -102,6 +109,9 @@ export class GooglePlacesService {
       types: r.types,
       isOpen: r.opening_hours?.open_now,
     }));
+    // Fire and forget: a slow database never delays the search (save() logs its own failures).
+    void this.store?.save(out);
+    return out;
   }
 
   async nearby(
@@ -125,7 +135,7 @@ export class GooglePlacesService {
       opening_hours?: { open_now?: boolean };
     }> };
     const list = json.results?.slice(0, limit) ?? [];
-    return list.map((r) => ({
+    const out = list.map((r) => ({
       placeId: r.place_id ?? '',
       name: r.name ?? '',
       address: r.vicinity,
@@ -138,6 +148,8 @@ export class GooglePlacesService {
       types: r.types,
       isOpen: r.opening_hours?.open_now,
     }));
+    void this.store?.save(out);
+    return out;
   }
 
   async autocomplete(
@@ -162,14 +174,25 @@ export class GooglePlacesService {
     }));
   }
 
+  /** Details from Redis, then the places table, then the Places API. */
   async getPlaceDetails(placeId: string): Promise<PlaceCandidate | null> {
     const key = `place:${placeId}`;
     const cached = await this.cache.get<PlaceCandidate>(key);
     if (cached) return cached;
+    const stored = await this.store?.getDetails(placeId);
+    if (stored) {
+      await this.cache.set(key, stored, CACHE_TTL.PLACE_SEC);
+      return stored;
+    }
+    return this.refreshPlaceDetails(placeId);
+  }
 
+  /** Fetch details from the Places API and write them through to both tiers. */
+  async refreshPlaceDetails(placeId: string): Promise<PlaceCandidate | null> {
+    const key = `place:${placeId}`;
     const json = (await this.fetch(`${BASE}/details/json`, {
       place_id: placeId,
-      fields: 'place_id,name,formatted_address,geometry,rating,user_ratings_total,types,opening_hours',
+      fields: 'place_id,name,formatted_address,geometry,rating,user_ratings_total,types,opening_hours,utc_offset',
     })) as { result?: {
       place_id?: string;
       name?: string;
@@ -178,7 +201,11 @@ export class GooglePlacesService {
       rating?: number;
       user_ratings_total?: number;
       types?: string[];
-      opening_hours?: { open_now?: boolean };
+      opening_hours?: {
+        open_now?: boolean;
+        periods?: Array<{ open?: { day?: number; time?: string }; close?: { day?: number; time?: string } }>;
+      };
+      utc_offset?: number;
     } };
     const r = json.result;
     if (!r?.geometry?.location) return null;
@@ -191,7 +218,18 @@ export class GooglePlacesService {
       reviewCount: r.user_ratings_total,
       types: r.types,
       isOpen: r.opening_hours?.open_now,
+      openingHours:
+        r.opening_hours?.periods?.length && r.utc_offset != null
+          ? {
+              periods: r.opening_hours.periods.map((p) => ({
+                open: { day: p.open?.day ?? 0, time: p.open?.time ?? '0000' },
+                ...(p.close && { close: { day: p.close.day ?? 0, time: p.close.time ?? '0000' } }),
+              })),
+              utcOffsetMin: r.utc_offset,
+            }
+          : undefined,
     };
+    await this.store?.save([out], { detailed: true });
     await this.cache.set(key, out, CACHE_TTL.PLACE_SEC);
     return out;
   }
@@ -0,0 +1,50 @@
+/**
+ * Opening hours as returned by Place Details (opening_hours.periods + utc_offset).
+ * Stored as-is in Place.openingHours.
+ */
+export interface OpeningHours {
+  /** day: 0 = Sunday; time: local "HHMM". A missing close means open 24h from `open`. */
+  periods: Array<{
+    open: { day: number; time: string };
+    close?: { day: number; time: string };
+  }>;
+  /** Place's offset from UTC in minutes. */
+  utcOffsetMin: number;
+}
+
+/** Whether a stop is open when the user gets there. */
+export type ArrivalOpenStatus = 'OPEN' | 'CLOSED_ON_ARRIVAL' | 'UNKNOWN';
+
+const MIN_PER_DAY = 1440;
+const MIN_PER_WEEK = 7 * MIN_PER_DAY;
+
+function weekMinute(day: number, hhmm: string): number {
+  const h = parseInt(hhmm.slice(0, 2), 10);
+  const m = parseInt(hhmm.slice(2, 4), 10);
+  return day * MIN_PER_DAY + h * 60 + m;
+}
+
+/**
+ * Whether the place is open at epoch ms `at`, in the place's local time.
+ * Returns undefined when hours are unknown.
+ */
+export function isOpenAt(hours: OpeningHours | undefined, at: number): boolean | undefined {
+  if (!hours?.periods?.length) return undefined;
+  const local = new Date(at + hours.utcOffsetMin * 60000);
+  const now = local.getUTCDay() * MIN_PER_DAY + local.getUTCHours() * 60 + local.getUTCMinutes();
+
+  for (const p of hours.periods) {
+    if (!p.close) return true;
+    const open = weekMinute(p.open.day, p.open.time);
+    let close = weekMinute(p.close.day, p.close.time);
+    if (close <= open) close += MIN_PER_WEEK; // wraps past Saturday night
+    if ((now >= open && now < close) || (now + MIN_PER_WEEK >= open && now + MIN_PER_WEEK < close)) return true;
+  }
+  return false;
+}
+
+export function arrivalOpenStatus(hours: OpeningHours | undefined, at: number): ArrivalOpenStatus {
+  const open = isOpenAt(hours, at);
+  if (open === undefined) return 'UNKNOWN';
+  return open ? 'OPEN' : 'CLOSED_ON_ARRIVAL';
+}
@@ -0,0 +1,126 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma, type Place } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CACHE_TTL } from '../cache/cache.service';
+import { activeCassette } from '../cassette/cassette';
+import type { PlaceCandidate } from './google-places.service';
+import { isOpenAt, type OpeningHours } from './opening-hours';
+
+/** Place.metadata. */
+interface PlaceMetadata {
+  types?: string[];
+  /** Written from Place Details, not just a search result; only these rows answer getPlaceDetails. */
+  detailed?: boolean;
+}
+
+/** Stale rows handled per sweep, so one sweep never bursts the Places quota. */
+const SWEEP_BATCH = 50;
+
+/**
+ * Places API results kept in Postgres (the `places` table) until they expire: the
+ * durable tier under CacheService, so details survive restarts and Redis eviction.
+ * Writes are best effort; a failed write never fails the search that produced it.
+ */
+@Injectable()
+export class PlaceStoreService {
+  private readonly logger = new Logger(PlaceStoreService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Upsert search or details results. Search results never overwrite the opening hours
+   * or extend the expiry of a detailed row.
+   */
+  async save(places: PlaceCandidate[], opts: { detailed?: boolean } = {}): Promise<void> {
+    // Under record/replay, like CacheService, nothing is stored or served.
+    if (activeCassette()) return;
+    const rows = places.filter((p) => p.placeId);
+    if (!rows.length) return;
+    const expiresAt = new Date(Date.now() + CACHE_TTL.PLACE_SEC * 1000);
+    const basics = (p: PlaceCandidate) => ({
+      name: p.name,
+      address: p.address,
+      latitude: p.location.lat,
+      longitude: p.location.lng,
+      rating: p.rating,
+      reviewCount: p.reviewCount,
+      category: p.types?.[0],
+    });
+    const details = (p: PlaceCandidate) => ({
+      openingHours: p.openingHours ? (p.openingHours as object) : Prisma.DbNull,
+      metadata: { types: p.types, detailed: true } as PlaceMetadata as object,
+      cachedAt: new Date(),
+      expiresAt,
+    });
+    try {
+      await this.prisma.$transaction(
+        rows.map((p) =>
+          this.prisma.place.upsert({
+            where: { googlePlacesId: p.placeId },
+            create: {
+              googlePlacesId: p.placeId,
+              ...basics(p),
+              ...(opts.detailed ? details(p) : { metadata: { types: p.types } as PlaceMetadata as object, expiresAt }),
+            },
+            update: { ...basics(p), ...(opts.detailed && details(p)) },
+          }),
+        ),
+      );
+    } catch (e) {
+      this.logger.warn(`Could not store ${rows.length} place(s): ${e instanceof Error ? e.message : e}`);
+    }
+  }
+
+  /** Stored details for a place, or null when missing, expired or only known from a search. */
+  async getDetails(placeId: string): Promise<PlaceCandidate | null> {
+    if (activeCassette()) return null;
+    const row = await this.prisma.place
+      .findFirst({ where: { googlePlacesId: placeId, expiresAt: { gt: new Date() } } })
+      .catch(() => null);
+    if (!row || !(row.metadata as PlaceMetadata | null)?.detailed) return null;
+    // Fire and forget: only decides whether the sweeper refreshes the row.
+    this.prisma.place
+      .update({ where: { id: row.id }, data: { lastServedAt: new Date() } })
+      .catch(() => undefined);
+    return this.toCandidate(row);
+  }
+
+  /**
+   * Expired rows, oldest first: `refresh` holds the ids of detailed rows served since they
+   * were cached (worth fetching again), `remove` the rest.
+   */
+  async stale(limit = SWEEP_BATCH): Promise<{ refresh: string[]; remove: string[] }> {
+    const rows = await this.prisma.place.findMany({
+      where: { expiresAt: { lte: new Date() } },
+      orderBy: { expiresAt: 'asc' },
+      take: limit,
+    });
+    const inUse = (r: Place) =>
+      !!(r.metadata as PlaceMetadata | null)?.detailed && r.lastServedAt != null && r.lastServedAt >= r.cachedAt;
+    return {
+      refresh: rows.filter(inUse).map((r) => r.googlePlacesId),
+      remove: rows.filter((r) => !inUse(r)).map((r) => r.googlePlacesId),
+    };
+  }
+
+  async remove(placeIds: string[]): Promise<number> {
+    if (!placeIds.length) return 0;
+    const r = await this.prisma.place.deleteMany({ where: { googlePlacesId: { in: placeIds } } });
+    return r.count;
+  }
+
+  private toCandidate(row: Place): PlaceCandidate {
+    const openingHours = (row.openingHours as unknown as OpeningHours | null) ?? undefined;
+    return {
+      placeId: row.googlePlacesId,
+      name: row.name,
+      address: row.address ?? undefined,
+      location: { lat: row.latitude, lng: row.longitude },
+      rating: row.rating ?? undefined,
+      reviewCount: row.reviewCount ?? undefined,
+      types: (row.metadata as PlaceMetadata | null)?.types,
+      isOpen: isOpenAt(openingHours, Date.now()),
+      openingHours,
+    };
+  }
+}
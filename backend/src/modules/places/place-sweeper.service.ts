@@ -0,0 +1,62 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { isFixtureMode } from '../../fixtures/fixture-mode';
+import { GooglePlacesService } from './google-places.service';
+import { PlaceStoreService } from './place-store.service';
+
+const SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Every 15 minutes, expired places rows are fetched again when their details were served
+ * since the last fetch, and deleted otherwise. Not started in fixture mode, which never
+ * writes the table.
+ */
+@Injectable()
+export class PlaceSweeperService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PlaceSweeperService.name);
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping = false;
+
+  constructor(
+    private readonly config: ConfigService,
+    private readonly store: PlaceStoreService,
+    private readonly google: GooglePlacesService,
+  ) {}
+
+  onModuleInit() {
+    if (isFixtureMode(this.config)) return;
+    this.timer = setInterval(() => void this.sweep(), SWEEP_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  /** One batch of expired rows; a Places API failure leaves the rest for the next sweep. */
+  async sweep(): Promise<{ refreshed: number; removed: number }> {
+    if (this.sweeping) return { refreshed: 0, removed: 0 };
+    this.sweeping = true;
+    try {
+      const { refresh, remove } = await this.store.stale();
+      let refreshed = 0;
+      for (const placeId of refresh) {
+        try {
+          if (await this.google.refreshPlaceDetails(placeId)) refreshed++;
+          else remove.push(placeId);
+        } catch (e) {
+          this.logger.warn(`Place refresh stopped at ${placeId}: ${e instanceof Error ? e.message : e}`);
+          break;
+        }
+      }
+      const removed = await this.store.remove(remove);
+      if (refreshed || removed) this.logger.log(`Swept places: ${refreshed} refreshed, ${removed} removed`);
+      return { refreshed, removed };
+    } catch (e) {
+      this.logger.warn(`Place sweep failed: ${e instanceof Error ? e.message : e}`);
+      return { refreshed: 0, removed: 0 };
+    } finally {
+      this.sweeping = false;
+    }
+  }
+}
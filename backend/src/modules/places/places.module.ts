@@ -1,12 +1,29 @@
 import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { isFixtureMode } from '../../fixtures/fixture-mode';
+import { CacheService } from '../cache/cache.service';
 import { PlacesController } from './controllers/places.controller';
 import { DisambiguationService } from './disambiguation.service';
+import { FixturePlacesService } from './fixture-places.service';
 import { GooglePlacesService } from './google-places.service';
 import { PlaceSearchService } from './place-search.service';
+import { PlaceStoreService } from './place-store.service';
+import { PlaceSweeperService } from './place-sweeper.service';
 
 @Module({
   controllers: [PlacesController],
-  providers: [GooglePlacesService, PlaceSearchService, DisambiguationService],
+  providers: [
+    {
+      provide: GooglePlacesService,
+      useFactory: (config: ConfigService, cache: CacheService, store: PlaceStoreService) =>
+        isFixtureMode(config) ? new FixturePlacesService(config, cache) : new GooglePlacesService(config, cache, store),
+      inject: [ConfigService, CacheService, PlaceStoreService],
+    },
+    PlaceStoreService,
+    PlaceSweeperService,
+    PlaceSearchService,
+    DisambiguationService,
+  ],
   exports: [GooglePlacesService, PlaceSearchService, DisambiguationService],
 })
 export class PlacesModule {}
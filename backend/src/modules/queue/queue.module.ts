@@ -1,6 +1,9 @@
 import { BullModule } from '@nestjs/bull';
 import { Module } from '@nestjs/common';
-import { ConfigModule, ConfigService } from '@nestjs/config';
+import { ConditionalModule, ConfigModule, ConfigService } from '@nestjs/config';
+
+export const OPTIMIZE_ROUTE_QUEUE = 'optimize_route';
+export const BATCH_PLACE_SEARCH_QUEUE = 'batch_place_search';
 
 @Module({
   imports: [
@@ -23,10 +26,18 @@ import { ConfigModule, ConfigService } from '@nestjs/config';
       inject: [ConfigService],
     }),
     BullModule.registerQueue(
-      { name: 'optimize_route' },
-      { name: 'batch_place_search' },
+      { name: OPTIMIZE_ROUTE_QUEUE },
+      { name: BATCH_PLACE_SEARCH_QUEUE },
     ),
   ],
   exports: [BullModule],
 })
-export class QueueModule {}
+export class QueueModule {
+  /**
+   * Bull queues only when REDIS_URL is set; without it nothing connects to Redis and
+   * consumers (see RouteJobService) run their jobs in-process.
+   */
+  static whenConfigured() {
+    return ConditionalModule.registerWhen(QueueModule, (env) => !!env.REDIS_URL);
+  }
+}
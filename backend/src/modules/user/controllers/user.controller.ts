@@ -2,7 +2,9 @@ import { Body, Controller, Delete, Get, Headers, HttpException, HttpStatus, Para
 import { Request } from 'express';
 import { AuthGuard } from '../../../common/guards/auth.guard';
 import { CreateAnchorDto, UpdateAnchorDto } from '../dtos/anchor.dto';
+import { CreateErrandTemplateDto, UpdateErrandTemplateDto } from '../dtos/errand-template.dto';
 import { AnchorService } from '../anchor.service';
+import { ErrandTemplateService } from '../errand-template.service';
 import { UserService } from '../user.service';
 
 @Controller('user')
@@ -11,17 +13,12 @@ export class UserController {
   constructor(
     private readonly user: UserService,
     private readonly anchor: AnchorService,
+    private readonly templates: ErrandTemplateService,
   ) {}
 
-  private async getUserId(req: Request & { user?: { sub: string } }): Promise<string> {
-    const sub = req.user?.sub ?? (req.headers['x-user-id'] as string) ?? 'dev@local';
-    const { id } = await this.user.getOrCreateByEmail(sub);
-    return id;
-  }
-
   @Get('profile')
   async getProfile(@Req() req: Request & { user?: { sub: string } }) {
-    const userId = await this.getUserId(req);
+    const userId = await this.user.idFor(req);
     const p = await this.user.getProfile(userId);
     if (!p) throw new HttpException({ error: { code: 'NOT_FOUND', message: 'User not found' } }, HttpStatus.NOT_FOUND);
     return p;
@@ -29,7 +26,7 @@ export class UserController {
 
   @Get('preferences')
   async getPreferences(@Req() req: Request & { user?: { sub: string } }) {
-    const userId = await this.getUserId(req);
+    const userId = await this.user.idFor(req);
     return this.user.getPreferences(userId);
   }
 
@@ -38,7 +35,7 @@ export class UserController {
     @Req() req: Request & { user?: { sub: string } },
     @Body() body: Record<string, unknown>,
   ) {
-    const userId = await this.getUserId(req);
+    const userId = await this.user.idFor(req);
     const p = await this.user.updatePreferences(userId, body);
     if (!p) throw new HttpException({ error: { code: 'NOT_FOUND', message: 'User not found' } }, HttpStatus.NOT_FOUND);
     return { preferences: p };
@@ -49,23 +46,25 @@ export class UserController {
     @Req() req: Request & { user?: { sub: string } },
     @Query('limit') limitStr: string | undefined,
     @Query('offset') offsetStr: string | undefined,
+    @Query('conversationId') conversationId: string | undefined,
+    @Query('intent') intent: string | undefined,
   ) {
-    const userId = await this.getUserId(req);
+    const userId = await this.user.idFor(req);
     const limit = limitStr ? parseInt(limitStr, 10) : 20;
     const offset = offsetStr ? parseInt(offsetStr, 10) : 0;
-    return this.user.getHistory(userId, limit, offset);
+    return this.user.getHistory(userId, limit, offset, { conversationId, intent });
   }
 
   @Delete('history')
   async clearHistory(@Req() req: Request & { user?: { sub: string } }) {
-    const userId = await this.getUserId(req);
+    const userId = await this.user.idFor(req);
     await this.user.clearHistory(userId);
     return {};
   }
 
   @Get('anchors')
   async getAnchors(@Req() req: Request & { user?: { sub: string } }) {
-    const userId = await this.getUserId(req);
+    const userId = await this.user.idFor(req);
     const list = await this.anchor.list(userId);
     return { anchors: list };
   }
@@ -75,7 +74,7 @@ export class UserController {
     @Req() req: Request & { user?: { sub: string } },
     @Body() dto: CreateAnchorDto,
   ) {
-    const userId = await this.getUserId(req);
+    const userId = await this.user.idFor(req);
     return this.anchor.create(userId, dto);
   }
 
@@ -85,7 +84,7 @@ export class UserController {
     @Param('id') id: string,
     @Body() dto: UpdateAnchorDto,
   ) {
-    const userId = await this.getUserId(req);
+    const userId = await this.user.idFor(req);
     const a = await this.anchor.update(id, userId, dto);
     if (!a) throw new HttpException({ error: { code: 'NOT_FOUND', message: 'Anchor not found' } }, HttpStatus.NOT_FOUND);
     return a;
@@ -96,9 +95,53 @@ export class UserController {
     @Req() req: Request & { user?: { sub: string } },
     @Param('id') id: string,
   ) {
-    const userId = await this.getUserId(req);
+    const userId = await this.user.idFor(req);
     const ok = await this.anchor.delete(id, userId);
     if (!ok) throw new HttpException({ error: { code: 'NOT_FOUND', message: 'Anchor not found' } }, HttpStatus.NOT_FOUND);
     return {};
   }
+
+  /** Errand templates, soonest recurrence first; nextRunAt is read in the utcOffsetMinutes time zone. */
+  @Get('templates')
+  async getTemplates(
+    @Req() req: Request & { user?: { sub: string } },
+    @Query('utcOffsetMinutes') offsetStr: string | undefined,
+  ) {
+    const userId = await this.user.idFor(req);
+    const offset = offsetStr ? parseInt(offsetStr, 10) : NaN;
+    const list = await this.templates.list(userId, Number.isFinite(offset) ? offset : undefined);
+    return { templates: list };
+  }
+
+  @Post('templates')
+  async createTemplate(
+    @Req() req: Request & { user?: { sub: string } },
+    @Body() dto: CreateErrandTemplateDto,
+  ) {
+    const userId = await this.user.idFor(req);
+    return this.templates.create(userId, dto);
+  }
+
+  @Put('templates/:id')
+  async updateTemplate(
+    @Req() req: Request & { user?: { sub: string } },
+    @Param('id') id: string,
+    @Body() dto: UpdateErrandTemplateDto,
+  ) {
+    const userId = await this.user.idFor(req);
+    const t = await this.templates.update(userId, id, dto);
+    if (!t) throw new HttpException({ error: { code: 'NOT_FOUND', message: 'Template not found' } }, HttpStatus.NOT_FOUND);
+    return t;
+  }
+
+  @Delete('templates/:id')
+  async deleteTemplate(
+    @Req() req: Request & { user?: { sub: string } },
+    @Param('id') id: string,
+  ) {
+    const userId = await this.user.idFor(req);
+    const ok = await this.templates.delete(userId, id);
+    if (!ok) throw new HttpException({ error: { code: 'NOT_FOUND', message: 'Template not found' } }, HttpStatus.NOT_FOUND);
+    return {};
+  }
 }
@@ -0,0 +1,54 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { WEEKDAYS, type Weekday } from '../recurrence';
+
+class TemplateDestinationDto {
+  @IsOptional() @IsString() anchorId?: string;
+  @IsOptional() @IsString() name?: string;
+}
+
+class TemplateStopDto {
+  @IsString() name: string;
+  @IsOptional() @IsString() category?: string;
+  @IsOptional() @IsString() brand?: string;
+  @IsOptional() @IsNumber() @Min(0) dwellMinutes?: number;
+}
+
+class RecurrenceDto {
+  @IsArray() @ArrayMinSize(1) @IsIn(WEEKDAYS, { each: true }) days: Weekday[];
+  /** Local "HH:mm". */
+  @IsOptional() @Matches(/^([01]\d|2[0-3]):[0-5]\d$/) time?: string;
+}
+
+export class CreateErrandTemplateDto {
+  @IsString() name: string;
+  @ValidateNested() @Type(() => TemplateDestinationDto) @IsObject() destination: TemplateDestinationDto;
+  @IsArray() @ValidateNested({ each: true }) @Type(() => TemplateStopDto) stops: TemplateStopDto[];
+  @IsOptional() @IsObject() preferences?: Record<string, unknown>;
+  @IsOptional() @ValidateNested() @Type(() => RecurrenceDto) @IsObject() recurrence?: RecurrenceDto;
+}
+
+export class UpdateErrandTemplateDto {
+  @IsOptional() @IsString() name?: string;
+  @IsOptional() @ValidateNested() @Type(() => TemplateDestinationDto) @IsObject() destination?: TemplateDestinationDto;
+  @IsOptional() @IsArray() @ValidateNested({ each: true }) @Type(() => TemplateStopDto) stops?: TemplateStopDto[];
+  @IsOptional() @IsObject() preferences?: Record<string, unknown>;
+  /** null removes the recurrence. */
+  @ValidateIf((_, v) => v !== null && v !== undefined)
+  @ValidateNested()
+  @Type(() => RecurrenceDto)
+  @IsObject()
+  recurrence?: RecurrenceDto | null;
+}
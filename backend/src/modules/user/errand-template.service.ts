@@ -0,0 +1,162 @@
+import { HttpException, HttpStatus, Injectable } from '@nestjs/common';
+import { Prisma, type ErrandTemplate as ErrandTemplateRow } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { nextOccurrence, type RecurrenceRule } from './recurrence';
+
+export interface TemplateStop {
+  name: string;
+  category?: string;
+  brand?: string;
+  dwellMinutes?: number;
+}
+
+export interface ErrandTemplateInput {
+  name: string;
+  /** A saved anchor (preferred: it survives renames) or a name to resolve when run. */
+  destination: { anchorId?: string; name?: string };
+  /** Stop queries in the order the user listed them. */
+  stops: TemplateStop[];
+  /** Detour preferences applied on top of the user's stored ones. */
+  preferences?: Record<string, unknown>;
+  recurrence?: RecurrenceRule | null;
+}
+
+export interface ErrandTemplate {
+  id: string;
+  name: string;
+  destination: { anchorId?: string; name: string };
+  stops: TemplateStop[];
+  preferences?: Record<string, unknown>;
+  recurrence?: RecurrenceRule;
+  /** Next recurrence (ISO 8601) in the time zone the list was asked for. */
+  nextRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Lowercase words only, so "Saturday-run!" and "saturday run" compare equal. */
+const words = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/** Verb (and optional determiner) that must come right before a template name to run it. */
+const RUN_PHRASE = '(?:do|run|start)(?: (?:my|the|our))?';
+
+/** Saved errand lists ("Saturday: gym, grocery, gas, home"), run by ErrandController. */
+@Injectable()
+export class ErrandTemplateService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /** Soonest recurrence first, then templates without one by name. */
+  async list(userId: string, utcOffsetMinutes?: number): Promise<ErrandTemplate[]> {
+    const rows = await this.prisma.errandTemplate.findMany({ where: { userId }, orderBy: { name: 'asc' } });
+    const now = Date.now();
+    const next = (t: ErrandTemplate) => (t.nextRunAt ? Date.parse(t.nextRunAt) : Infinity);
+    return rows.map((r) => this.toTemplate(r, now, utcOffsetMinutes)).sort((a, b) => next(a) - next(b));
+  }
+
+  async get(userId: string, templateId: string): Promise<ErrandTemplate | null> {
+    const r = await this.prisma.errandTemplate.findFirst({ where: { id: templateId, userId } });
+    return r ? this.toTemplate(r) : null;
+  }
+
+  async create(userId: string, dto: ErrandTemplateInput): Promise<ErrandTemplate> {
+    const destination = await this.destinationFor(userId, dto.destination);
+    const r = await this.prisma.errandTemplate
+      .create({
+        data: {
+          userId,
+          name: dto.name.trim(),
+          destinationAnchorId: destination.anchorId,
+          destinationName: destination.name,
+          stops: dto.stops as object[],
+          preferences: dto.preferences as object | undefined,
+          recurrence: (dto.recurrence ?? undefined) as object | undefined,
+        },
+      })
+      .catch((e) => this.rethrow(e, dto.name));
+    return this.toTemplate(r);
+  }
+
+  async update(userId: string, templateId: string, dto: Partial<ErrandTemplateInput>): Promise<ErrandTemplate | null> {
+    const destination = dto.destination && (await this.destinationFor(userId, dto.destination));
+    const r = await this.prisma.errandTemplate
+      .updateMany({
+        where: { id: templateId, userId },
+        data: {
+          ...(dto.name != null && { name: dto.name.trim() }),
+          ...(destination && { destinationAnchorId: destination.anchorId ?? null, destinationName: destination.name }),
+          ...(dto.stops != null && { stops: dto.stops as object[] }),
+          ...(dto.preferences !== undefined && { preferences: dto.preferences as object }),
+          // null clears the rule.
+          ...(dto.recurrence !== undefined && { recurrence: dto.recurrence ? (dto.recurrence as object) : Prisma.DbNull }),
+        },
+      })
+      .catch((e) => this.rethrow(e, dto.name ?? ''));
+    if (r.count === 0) return null;
+    return this.get(userId, templateId);
+  }
+
+  async delete(userId: string, templateId: string): Promise<boolean> {
+    const r = await this.prisma.errandTemplate.deleteMany({ where: { id: templateId, userId } });
+    return r.count > 0;
+  }
+
+  /**
+   * The template an utterance explicitly asks to run ("do my Saturday run", "start the gym
+   * loop"); the longest name wins when several match. A name alone is not enough: "take me
+   * to the gym" must not run a template called "Gym".
+   */
+  async findByPhrase(userId: string, utterance: string): Promise<ErrandTemplate | null> {
+    const said = ` ${words(utterance)} `;
+    const rows = await this.prisma.errandTemplate.findMany({ where: { userId } });
+    const hit = rows
+      .filter((r) => words(r.name) && new RegExp(` ${RUN_PHRASE} ${words(r.name)} `).test(said))
+      .sort((a, b) => words(b.name).length - words(a.name).length)[0];
+    return hit ? this.toTemplate(hit) : null;
+  }
+
+  private async destinationFor(
+    userId: string,
+    d: ErrandTemplateInput['destination'],
+  ): Promise<{ anchorId?: string; name: string }> {
+    if (d.anchorId) {
+      const a = await this.prisma.anchor.findFirst({ where: { id: d.anchorId, userId } });
+      if (!a) {
+        throw new HttpException({ error: { code: 'ANCHOR_NOT_FOUND', message: 'Anchor not found' } }, HttpStatus.BAD_REQUEST);
+      }
+      return { anchorId: a.id, name: a.name };
+    }
+    if (!d.name?.trim()) {
+      throw new HttpException(
+        { error: { code: 'INVALID_DESTINATION', message: 'A template needs a destination anchor or name' } },
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return { name: d.name.trim() };
+  }
+
+  private rethrow(e: unknown, name: string): never {
+    if ((e as { code?: string })?.code === 'P2002') {
+      throw new HttpException(
+        { error: { code: 'TEMPLATE_NAME_TAKEN', message: `You already have a template named "${name.trim()}"` } },
+        HttpStatus.CONFLICT,
+      );
+    }
+    throw e;
+  }
+
+  private toTemplate(r: ErrandTemplateRow, now = Date.now(), utcOffsetMinutes?: number): ErrandTemplate {
+    const recurrence = (r.recurrence as unknown as RecurrenceRule | null) ?? undefined;
+    const next = recurrence && nextOccurrence(recurrence, now, utcOffsetMinutes ?? -new Date(now).getTimezoneOffset());
+    return {
+      id: r.id,
+      name: r.name,
+      destination: { anchorId: r.destinationAnchorId ?? undefined, name: r.destinationName },
+      stops: r.stops as unknown as TemplateStop[],
+      preferences: (r.preferences as Record<string, unknown>) ?? undefined,
+      recurrence,
+      nextRunAt: next ? new Date(next).toISOString() : undefined,
+      createdAt: r.createdAt.toISOString(),
+      updatedAt: r.updatedAt.toISOString(),
+    };
+  }
+}
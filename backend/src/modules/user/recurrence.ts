@@ -0,0 +1,35 @@
+/**
+ * Weekly recurrence for errand templates ("every Saturday at 9").
+ */
+
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface RecurrenceRule {
+  days: Weekday[];
+  /** Local clock time "HH:mm"; defaults to 09:00. */
+  time?: string;
+}
+
+const DEFAULT_TIME = '09:00';
+const DAY_MS = 24 * 3600000;
+
+/**
+ * Next time the rule fires at or after `from` (epoch ms), in a time zone `utcOffsetMinutes`
+ * east of UTC. Null when the rule has no days.
+ */
+export function nextOccurrence(rule: RecurrenceRule, from: number, utcOffsetMinutes: number): number | null {
+  if (!rule.days.length) return null;
+  const [h, m] = (rule.time ?? DEFAULT_TIME).split(':').map(Number);
+  const local = new Date(from + utcOffsetMinutes * 60000);
+  const midnight = Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+  // Eight days: today's slot may already have passed when the rule has only today's weekday.
+  for (let d = 0; d <= 7; d++) {
+    const day = WEEKDAYS[(local.getUTCDay() + d) % 7];
+    if (!rule.days.includes(day)) continue;
+    const t = midnight + d * DAY_MS + (h * 60 + m) * 60000 - utcOffsetMinutes * 60000;
+    if (t >= from) return t;
+  }
+  return null;
+}
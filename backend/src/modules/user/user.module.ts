@@ -2,11 +2,12 @@ import { Module } from '@nestjs/common';
 import { AuthGuard } from '../../common/guards/auth.guard';
 import { AnchorService } from './anchor.service';
 import { UserController } from './controllers/user.controller';
+import { ErrandTemplateService } from './errand-template.service';
 import { UserService } from './user.service';
 
 @Module({
   controllers: [UserController],
-  providers: [UserService, AnchorService, AuthGuard],
-  exports: [UserService, AnchorService],
+  providers: [UserService, AnchorService, ErrandTemplateService, AuthGuard],
+  exports: [UserService, AnchorService, ErrandTemplateService],
 })
 export class UserModule {}
@@ -1,10 +1,51 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
+import type { Request } from 'express';
 import { PrismaService } from '../../prisma/prisma.service';
 
+/** Tries at a free turn number when concurrent turns of a conversation collide. */
+const TURN_ATTEMPTS = 3;
+
+/** Set by AuthGuard. */
+export type AuthedRequest = Request & { user?: { sub: string } };
+
+export interface HistoryFilters {
+  conversationId?: string;
+  intent?: string;
+}
+
+export interface ConversationTurnInput {
+  conversationId?: string;
+  utterance: string;
+  intent: string;
+  confidence: number;
+  entities: Record<string, unknown>;
+  agent: string;
+  systemResponse: string;
+}
+
 @Injectable()
 export class UserService {
+  private readonly logger = new Logger(UserService.name);
+
   constructor(private readonly prisma: PrismaService) {}
 
+  /** Id of the user making the request (created on first sight); x-user-id in development. */
+  async idFor(req: AuthedRequest): Promise<string> {
+    const sub = req.user?.sub ?? (req.headers['x-user-id'] as string) ?? 'dev@local';
+    const { id } = await this.getOrCreateByEmail(sub);
+    return id;
+  }
+
+  /** idFor, best effort: undefined (logged) when the user store is unreachable. */
+  async idForSafely(req: AuthedRequest): Promise<string | undefined> {
+    try {
+      return await this.idFor(req);
+    } catch (e) {
+      this.logger.warn(`Could not resolve user: ${e instanceof Error ? e.message : e}`);
+      return undefined;
+    }
+  }
+
   async getOrCreateByEmail(email: string): Promise<{ id: string }> {
     let u = await this.prisma.user.findUnique({ where: { email } });
     if (!u) {
@@ -32,6 +73,20 @@ export class UserService {
     return (u?.preferences as Record<string, unknown>) ?? {};
   }
 
+  /**
+   * Stored preferences for planning, best effort: none (so request or default preferences
+   * apply) when there is no user or the lookup fails. Planning never waits on the database.
+   */
+  async preferencesSafely(userId: string | undefined): Promise<Record<string, unknown>> {
+    if (!userId) return {};
+    try {
+      return await this.getPreferences(userId);
+    } catch (e) {
+      this.logger.warn(`Could not load preferences: ${e instanceof Error ? e.message : e}`);
+      return {};
+    }
+  }
+
   async updatePreferences(userId: string, prefs: Record<string, unknown>) {
     const u = await this.prisma.user.findUnique({ where: { id: userId } });
     if (!u) return null;
@@ -40,23 +95,94 @@ export class UserService {
     return next;
   }
 
-  async getHistory(userId: string, limit = 20, offset = 0) {
+  async getHistory(userId: string, limit = 20, offset = 0, filters: HistoryFilters = {}) {
+    const where = {
+      userId,
+      ...(filters.conversationId && { conversationId: filters.conversationId }),
+      ...(filters.intent && { intent: filters.intent }),
+    };
     const rows = await this.prisma.conversationHistory.findMany({
-      where: { userId },
+      where,
       orderBy: { timestamp: 'desc' },
       take: limit,
       skip: offset,
     });
-    const total = await this.prisma.conversationHistory.count({ where: { userId } });
+    const total = await this.prisma.conversationHistory.count({ where });
     const conversations = rows.map((r) => ({
       id: r.id,
+      conversationId: r.conversationId ?? undefined,
+      turn: r.turn,
       utterance: r.userMessage,
+      intent: r.intent ?? undefined,
+      confidence: r.intentConfidence ?? undefined,
+      entities: (r.entities as Record<string, unknown>) ?? undefined,
+      agent: r.agent ?? undefined,
+      routeId: r.routeId ?? undefined,
       response: r.systemResponse ?? '',
       timestamp: r.timestamp.toISOString(),
     }));
     return { conversations, total };
   }
 
+  /**
+   * Append a turn; `turn` counts up per conversation (per user when there is no conversationId).
+   * Two turns of one conversation recorded at once collide on the unique turn number; the
+   * loser reads the new last turn and tries again.
+   */
+  async recordTurn(userId: string, t: ConversationTurnInput) {
+    for (let attempt = 1; ; attempt++) {
+      const last = await this.prisma.conversationHistory.findFirst({
+        where: { userId, conversationId: t.conversationId ?? null },
+        orderBy: { turn: 'desc' },
+        select: { turn: true },
+      });
+      try {
+        return await this.prisma.conversationHistory.create({
+          data: {
+            userId,
+            conversationId: t.conversationId,
+            turn: (last?.turn ?? 0) + 1,
+            userMessage: t.utterance,
+            intent: t.intent,
+            intentConfidence: t.confidence,
+            entities: t.entities as object,
+            agent: t.agent,
+            systemResponse: t.systemResponse,
+          },
+        });
+      } catch (e) {
+        if ((e as { code?: string })?.code !== 'P2002' || attempt >= TURN_ATTEMPTS) throw e;
+      }
+    }
+  }
+
+  /**
+   * recordTurn for the requesting user (or a user id already resolved). History is best
+   * effort: a failure is logged, never thrown, so the parse still reaches the client.
+   * Returns the user id when it resolved.
+   */
+  async recordTurnSafely(user: AuthedRequest | string, t: ConversationTurnInput): Promise<string | undefined> {
+    let userId: string | undefined;
+    try {
+      userId = typeof user === 'string' ? user : await this.idFor(user);
+      await this.recordTurn(userId, t);
+    } catch (e) {
+      this.logger.warn(`Could not record conversation turn: ${e instanceof Error ? e.message : e}`);
+    }
+    return userId;
+  }
+
+  /** Link the route planned from a conversation to its latest turn. */
+  async attachRouteToLatestTurn(userId: string, conversationId: string, routeId: string) {
+    const last = await this.prisma.conversationHistory.findFirst({
+      where: { userId, conversationId },
+      orderBy: { turn: 'desc' },
+      select: { id: true },
+    });
+    if (!last) return null;
+    return this.prisma.conversationHistory.update({ where: { id: last.id }, data: { routeId } });
+  }
+
   async clearHistory(userId: string) {
     await this.prisma.conversationHistory.deleteMany({ where: { userId } });
   }
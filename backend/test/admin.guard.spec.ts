@@ -0,0 +1,17 @@
+import { HttpException, type ExecutionContext } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AdminGuard } from '../src/common/guards/admin.guard';
+
+const as = (sub: string) => ({ switchToHttp: () => ({ getRequest: () => ({ user: { sub } }) }) }) as unknown as ExecutionContext;
+
+describe('AdminGuard', () => {
+  it('lets only ADMIN_USERS through once JWT auth is on', () => {
+    const guard = new AdminGuard(new ConfigService({ JWT_SECRET: 's', ADMIN_USERS: 'ops@example.com, root@example.com' }));
+    expect(guard.canActivate(as('root@example.com'))).toBe(true);
+    expect(() => guard.canActivate(as('someone@example.com'))).toThrow(HttpException);
+  });
+
+  it('is open in development, without JWT_SECRET', () => {
+    expect(new AdminGuard(new ConfigService({})).canActivate(as('dev@local'))).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+import { ConfigService } from '@nestjs/config';
+import { CacheService } from '../src/modules/cache/cache.service';
+import { MemoryCache } from '../src/modules/cache/memory-cache';
+
+describe('MemoryCache', () => {
+  it('evicts the least recently used entry at the cap and counts per prefix', () => {
+    const m = new MemoryCache(2);
+    m.set('route:a', '1', Infinity);
+    m.set('geocode:b', '2', Infinity);
+    expect(m.get('route:a')).toBe('1'); // route:a is now the most recently used
+    m.set('reverse:c', '3', Infinity);
+
+    expect(m.get('geocode:b')).toBeNull();
+    expect(m.snapshot()).toEqual({
+      entries: 2,
+      maxEntries: 2,
+      byPrefix: {
+        'route:': { hits: 1, misses: 0, evictions: 0, expired: 0, entries: 1 },
+        'geocode:': { hits: 0, misses: 1, evictions: 1, expired: 0, entries: 0 },
+        'reverse:': { hits: 0, misses: 0, evictions: 0, expired: 0, entries: 1 },
+      },
+    });
+  });
+
+  it('drops expired entries on read and on sweep', () => {
+    const m = new MemoryCache(10);
+    m.set('route:a', '1', 1000);
+    m.set('route:b', '2', 2000);
+    m.set('route:c', '3', Infinity);
+    expect(m.get('route:a', 1500)).toBeNull();
+    expect(m.sweep(2500)).toBe(1);
+    expect(m.snapshot().byPrefix['route:']).toEqual({ hits: 0, misses: 1, evictions: 0, expired: 2, entries: 1 });
+  });
+
+  it('keeps at least one entry when the cap is below 1', () => {
+    const m = new MemoryCache(-5);
+    m.set('route:a', '1', Infinity);
+    m.set('route:b', '2', Infinity);
+    expect(m.snapshot()).toMatchObject({ entries: 1, maxEntries: 1 });
+    expect(m.get('route:b')).toBe('2');
+  });
+});
+
+describe('CacheService without Redis', () => {
+  it('stays under CACHE_MEMORY_MAX_ENTRIES and reports the memory backend', async () => {
+    const cache = new CacheService(new ConfigService({ CACHE_MEMORY_MAX_ENTRIES: 3 }));
+    for (let i = 0; i < 5; i++) await cache.set(`route:${i}`, { i }, 60);
+    await expect(cache.get('route:4')).resolves.toEqual({ i: 4 });
+    await expect(cache.get('route:0')).resolves.toBeNull();
+
+    const stats = cache.stats();
+    expect(stats).toMatchObject({ backend: 'memory', memory: { entries: 3, maxEntries: 3 } });
+    expect(stats.redisStatus).toBeUndefined();
+    expect(stats.memory.byPrefix['route:']).toMatchObject({ hits: 1, misses: 1, evictions: 2 });
+    await cache.onModuleDestroy();
+  });
+});
@@ -0,0 +1,100 @@
+import { activeCassette, cassetteFetch, cassetteNow, cassetteState, runWithCassette, writeCassetteState, type ActiveCassette } from '../src/modules/cassette/cassette';
+
+describe('cassetteFetch', () => {
+  const realFetch = global.fetch;
+  let calls: number;
+
+  beforeEach(() => {
+    calls = 0;
+    global.fetch = jest.fn(async () => {
+      calls++;
+      return new Response(JSON.stringify({ status: 'OK', n: calls }), { status: 200, headers: { 'content-type': 'application/json' } });
+    }) as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  const cassette = (mode: ActiveCassette['mode'], interactions: ActiveCassette['file']['interactions'] = []): ActiveCassette => ({
+    mode,
+    file: { name: 'bug-1', recordedAt: '2026-01-01T00:00:00.000Z', request: 'POST /api/v1/errand/navigate-with-stops', interactions },
+    cursor: new Map(),
+  });
+
+  it('records responses without the API key and replays them in order', async () => {
+    const rec = cassette('record');
+    await runWithCassette(rec, async () => {
+      await cassetteFetch('https://maps.googleapis.com/maps/api/geocode/json?address=home&key=SECRET');
+      await cassetteFetch('https://maps.googleapis.com/maps/api/geocode/json?address=home&key=SECRET');
+    });
+    expect(rec.file.interactions).toHaveLength(2);
+    expect(JSON.stringify(rec.file)).not.toContain('SECRET');
+    expect(rec.file.interactions[1].response.body).toEqual({ status: 'OK', n: 2 });
+
+    const play = cassette('replay', rec.file.interactions);
+    const bodies = await runWithCassette(play, async () => {
+      const out: unknown[] = [];
+      for (let i = 0; i < 3; i++) {
+        const res = await cassetteFetch('https://maps.googleapis.com/maps/api/geocode/json?address=home&key=OTHER');
+        out.push(await res.json());
+      }
+      return out;
+    });
+    expect(calls).toBe(2);
+    expect(bodies).toEqual([{ status: 'OK', n: 1 }, { status: 'OK', n: 2 }, { status: 'OK', n: 2 }]);
+  });
+
+  it('matches POST bodies and reports a miss as CASSETTE_MISS', async () => {
+    const rec = cassette('record');
+    await runWithCassette(rec, () => cassetteFetch('https://example.test/v1', { method: 'POST', body: '{"a":1}' }));
+    const play = cassette('replay', rec.file.interactions);
+    await expect(
+      runWithCassette(play, () => cassetteFetch('https://example.test/v1', { method: 'POST', body: '{"a":2}' })),
+    ).rejects.toMatchObject({ response: { error: { code: 'CASSETTE_MISS' } } });
+  });
+
+  it('is plain fetch outside a cassette', async () => {
+    await cassetteFetch('https://example.test/v1');
+    expect(global.fetch).toHaveBeenCalledWith('https://example.test/v1', undefined);
+  });
+});
+
+describe('cassette clock and state', () => {
+  const cassette = (mode: ActiveCassette['mode'], state?: Record<string, unknown>): ActiveCassette => ({
+    mode,
+    file: { name: 'bug-2', recordedAt: '2026-01-01T18:30:00.000Z', request: 'POST /api/v1/nlu/process', interactions: [], state },
+    cursor: new Map(),
+  });
+
+  it('runs at the recorded time', () => {
+    expect(runWithCassette(cassette('replay'), cassetteNow)).toBe(Date.parse('2026-01-01T18:30:00.000Z'));
+    expect(Math.abs(cassetteNow() - Date.now())).toBeLessThan(1000);
+  });
+
+  it('records the state read and replays it without touching the live store', async () => {
+    const store = new Map<string, unknown>([['conversation:c1', { turn: 2 }]]);
+    const seen: Array<ActiveCassette | undefined> = [];
+    const load = async () => {
+      seen.push(activeCassette());
+      return store.get('conversation:c1') ?? null;
+    };
+    const rec = cassette('record');
+    await runWithCassette(rec, async () => {
+      await expect(cassetteState('conversation:c1', load)).resolves.toEqual({ turn: 2 });
+      await writeCassetteState(async () => void store.set('conversation:c1', { turn: 3 }));
+    });
+    expect(seen).toEqual([undefined]);
+    expect(rec.file.state).toEqual({ 'conversation:c1': { turn: 2 } });
+    expect(store.get('conversation:c1')).toEqual({ turn: 3 });
+
+    const play = cassette('replay', rec.file.state);
+    await runWithCassette(play, async () => {
+      await expect(cassetteState('conversation:c1', load)).resolves.toEqual({ turn: 2 });
+      await expect(cassetteState('conversation:other', load)).resolves.toBeNull();
+      await writeCassetteState(async () => void store.set('conversation:c1', { turn: 9 }));
+    });
+    expect(seen).toHaveLength(1);
+    expect(store.get('conversation:c1')).toEqual({ turn: 3 });
+  });
+});
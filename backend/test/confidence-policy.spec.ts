@@ -0,0 +1,47 @@
+import { ConfigService } from '@nestjs/config';
+import { loadConfidencePolicy } from '../src/modules/nlu/confidence-policy';
+import { ConfidenceRouterService } from '../src/modules/nlu/confidence-router.service';
+
+describe('loadConfidencePolicy', () => {
+  it('fills every intent from the default plus the built-in overrides', () => {
+    const p = loadConfidencePolicy();
+    expect(p.default).toEqual({ high: 0.8, medium: 0.6 });
+    expect(p.intents.navigate_direct).toEqual({ high: 0.8, medium: 0.6 });
+    expect(p.intents.cancel).toEqual({ high: 0.5, medium: 0.4 });
+    expect(p.intents.set_anchor).toMatchObject({ alwaysConfirm: true });
+    expect(p.maxRetries).toBe(2);
+  });
+
+  it('applies JSON overrides on top', () => {
+    const p = loadConfidencePolicy('{"default":{"high":0.9},"intents":{"find_place":{"high":0.7,"medium":0.5}},"maxRetries":3}');
+    expect(p.intents.navigate_direct).toEqual({ high: 0.9, medium: 0.6 });
+    expect(p.intents.find_place).toEqual({ high: 0.7, medium: 0.5 });
+    expect(p.maxRetries).toBe(3);
+  });
+
+  it('rejects unknown intents and inverted thresholds', () => {
+    expect(() => loadConfidencePolicy('{"intents":{"teleport":{"high":0.5}}}')).toThrow('unknown intent "teleport"');
+    expect(() => loadConfidencePolicy('{"intents":{"find_place":{"medium":0.9}}}')).toThrow('intents.find_place.medium must not exceed');
+  });
+});
+
+describe('ConfidenceRouterService', () => {
+  const router = new ConfidenceRouterService();
+  const fast = (intent: string, confidence: number) => ({ intent, confidence, stops: [], requires_advanced: false });
+
+  it('uses the thresholds of the parsed intent', () => {
+    expect(router.routeByConfidence(fast('navigate_direct', 0.55)).action).toBe('ESCALATE_TO_ADVANCED');
+    expect(router.routeByConfidence(fast('cancel', 0.55)).action).toBe('EXECUTE');
+    expect(router.routeByConfidence(fast('navigate_direct', 0.7)).action).toBe('CONFIRM');
+  });
+
+  it('confirms alwaysConfirm intents even at high confidence', () => {
+    expect(router.routeByConfidence(fast('set_anchor', 0.99)).action).toBe('CONFIRM');
+  });
+
+  it('reads NLU_CONFIDENCE_POLICY from config', () => {
+    const custom = new ConfidenceRouterService(new ConfigService({ NLU_CONFIDENCE_POLICY: '{"intents":{"find_place":{"high":0.7,"medium":0.5}}}' }));
+    expect(custom.routeByConfidence(fast('find_place', 0.72)).action).toBe('EXECUTE');
+    expect(custom.policyFor('not_an_intent')).toEqual(custom.policy.default);
+  });
+});
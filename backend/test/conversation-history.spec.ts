@@ -0,0 +1,109 @@
+import type { PrismaService } from '../src/prisma/prisma.service';
+import { UserService } from '../src/modules/user/user.service';
+
+interface Row {
+  id: string;
+  userId: string;
+  conversationId: string | null;
+  turn: number;
+  intent?: string;
+  routeId?: string;
+}
+
+/** Just enough of conversationHistory for UserService's turn bookkeeping. */
+function fakePrisma(rows: Row[]) {
+  const matches = (r: Row, where: Partial<Row>) =>
+    Object.entries(where).every(([k, v]) => (r as unknown as Record<string, unknown>)[k] === (v ?? null));
+  return {
+    conversationHistory: {
+      findFirst: async ({ where }: { where: Partial<Row> }) =>
+        rows.filter((r) => matches(r, where)).sort((a, b) => b.turn - a.turn)[0] ?? null,
+      create: async ({ data }: { data: Row }) => {
+        if (rows.some((r) => matches(r, { userId: data.userId, conversationId: data.conversationId, turn: data.turn }))) {
+          throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+        }
+        const row = { ...data, id: `h${rows.length + 1}`, conversationId: data.conversationId ?? null };
+        rows.push(row);
+        return row;
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<Row> }) => Object.assign(rows.find((r) => r.id === where.id)!, data),
+    },
+  } as unknown as PrismaService;
+}
+
+describe('UserService conversation turns', () => {
+  const turn = (conversationId: string | undefined, intent: string) => ({
+    conversationId,
+    utterance: 'x',
+    intent,
+    confidence: 0.9,
+    entities: {},
+    agent: 'local',
+    systemResponse: 'ok',
+  });
+
+  it('numbers turns per conversation', async () => {
+    const rows: Row[] = [];
+    const users = new UserService(fakePrisma(rows));
+    await users.recordTurn('u1', turn('c1', 'navigate_with_stops'));
+    await users.recordTurn('u1', turn('c1', 'add_stop'));
+    await users.recordTurn('u1', turn('c2', 'navigate_direct'));
+    await users.recordTurn('u2', turn('c1', 'confirm'));
+    expect(rows.map((r) => [r.userId, r.conversationId, r.turn])).toEqual([
+      ['u1', 'c1', 1],
+      ['u1', 'c1', 2],
+      ['u1', 'c2', 1],
+      ['u2', 'c1', 1],
+    ]);
+  });
+
+  it('gives concurrent turns of a conversation their own numbers', async () => {
+    const rows: Row[] = [];
+    const users = new UserService(fakePrisma(rows));
+    await Promise.all([users.recordTurn('u1', turn('c1', 'add_stop')), users.recordTurn('u1', turn('c1', 'remove_stop'))]);
+    expect(rows.map((r) => [r.intent, r.turn])).toEqual([
+      ['add_stop', 1],
+      ['remove_stop', 2],
+    ]);
+  });
+
+  it('never fails the request when the turn cannot be recorded', async () => {
+    const broken = fakePrisma([]);
+    (broken.conversationHistory as unknown as { create: () => Promise<never> }).create = async () => {
+      throw new Error('database is down');
+    };
+    const users = new UserService(broken);
+    await expect(users.recordTurnSafely('u1', turn('c1', 'add_stop'))).resolves.toBe('u1');
+  });
+
+  it('attaches a route id to the latest turn of the conversation', async () => {
+    const rows: Row[] = [];
+    const users = new UserService(fakePrisma(rows));
+    await users.recordTurn('u1', turn('c1', 'navigate_with_stops'));
+    await users.recordTurn('u1', turn('c1', 'confirm'));
+    await users.attachRouteToLatestTurn('u1', 'c1', 'route-1');
+    expect(rows.map((r) => r.routeId)).toEqual([undefined, 'route-1']);
+    await expect(users.attachRouteToLatestTurn('u1', 'nope', 'route-2')).resolves.toBeNull();
+  });
+});
+
+describe('UserService best-effort lookups', () => {
+  const down = {
+    user: {
+      findUnique: async () => {
+        throw new Error('database is down');
+      },
+    },
+  } as unknown as PrismaService;
+
+  it('resolves no user instead of failing when the database is down', async () => {
+    const users = new UserService(down);
+    await expect(users.idForSafely({ user: { sub: 'a@b.c' } } as never)).resolves.toBeUndefined();
+  });
+
+  it('falls back to no stored preferences when they cannot be loaded', async () => {
+    const users = new UserService(down);
+    await expect(users.preferencesSafely('u1')).resolves.toEqual({});
+    await expect(users.preferencesSafely(undefined)).resolves.toEqual({});
+  });
+});
@@ -54,6 +54,46 @@ describe('DetourBufferService', () => {
     });
   });
 
+  describe('getDetourStatus with a time budget', () => {
+    it('uses the worse of distance and time', () => {
+      expect(service.getDetourStatus(100, 1000, 4, 5)).toBe('NOT_RECOMMENDED');
+      expect(service.getDetourStatus(800, 1000, 1, 5)).toBe('NOT_RECOMMENDED');
+      expect(service.getDetourStatus(100, 1000, 1, 5)).toBe('MINIMAL');
+    });
+
+    it('keeps NO_DETOUR for negligible extra distance', () => {
+      expect(service.getDetourStatus(30, 1000, 2, 5)).toBe('NO_DETOUR');
+    });
+  });
+
+  describe('calculateBudget', () => {
+    it('defaults to the distance buffer with no minute limit', () => {
+      const b = service.calculateBudget(16093);
+      expect(b.distanceM).toBeCloseTo(1126.51, 1);
+      expect(b.minutes).toBeUndefined();
+      expect(service.calculateBudget(0).minutes).toBeUndefined();
+    });
+
+    it('uses maxDetourPercentage and maxDetourMinutes from preferences', () => {
+      const b = service.calculateBudget(16093, { maxDetourPercentage: 0.05, maxDetourMinutes: 8 });
+      expect(b.distanceM).toBeCloseTo(804.65, 1);
+      expect(b.minutes).toBe(8);
+    });
+
+    it('clamps the preferred percentage to the absolute bounds', () => {
+      expect(service.calculateBudget(2000, { maxDetourPercentage: 0.05 }).distanceM).toBe(400);
+    });
+  });
+
+  describe('preferencesFrom', () => {
+    it('keeps only positive numeric detour fields', () => {
+      expect(service.preferencesFrom({ maxDetourPercentage: 0.07, maxDetourMinutes: '5', avoidTolls: true })).toEqual({
+        maxDetourPercentage: 0.07,
+        maxDetourMinutes: undefined,
+      });
+    });
+  });
+
   describe('isWithinBudget', () => {
     it('returns true when extra <= budget', () => {
       expect(service.isWithinBudget(100, 500)).toBe(true);
@@ -0,0 +1,63 @@
+import { categoryOf, extractEntities, stripConstraints } from '../src/modules/nlu/entity-extractor';
+import { localParse } from '../src/modules/nlu/local-parser';
+
+describe('extractEntities', () => {
+  it.each([
+    ['get gas before 5', { kind: 'before', time: '17:00' }],
+    ['pharmacy by 5:30 pm', { kind: 'before', time: '17:30' }],
+    ['coffee after 9', { kind: 'after', time: '09:00' }],
+    ['groceries before noon', { kind: 'before', time: '12:00' }],
+    ['bank by 10am', { kind: 'before', time: '10:00' }],
+    ['post office by 4 p.m.', { kind: 'before', time: '16:00' }],
+    ["home by 6 o'clock", { kind: 'before', time: '18:00' }],
+  ])('reads the time in "%s"', (utterance, timeConstraint) => {
+    expect(extractEntities(utterance, 'add_stop', {}).timeConstraint).toEqual(timeConstraint);
+  });
+
+  it('reads order preference and radius', () => {
+    expect(extractEntities('coffee and gas, closest first', 'add_stop', {})).toMatchObject({ orderPreference: 'nearest' });
+    expect(extractEntities('the quickest way past the pharmacy', 'add_stop', {})).toMatchObject({ orderPreference: 'fastest' });
+    expect(extractEntities('the cheapest gas', 'find_place', {}).orderPreference).toBeUndefined();
+    expect(extractEntities('find coffee within a mile', 'find_place', {}).radius).toBe(1609);
+    expect(extractEntities('a pharmacy within 2 km', 'find_place', {}).radius).toBe(2000);
+    expect(extractEntities('stop at the bank by the park', 'add_stop', {}).timeConstraint).toBeUndefined();
+  });
+
+  it('does not read a place name as a time', () => {
+    expect(extractEntities('stop by 7-Eleven on the way home', 'add_stop', {}).timeConstraint).toBeUndefined();
+    expect(extractEntities('get gas before 7-Eleven', 'add_stop', {}).timeConstraint).toBeUndefined();
+    expect(stripConstraints('Stop by 7-Eleven on the way home')).toBe('stop by 7-eleven on the way home');
+  });
+
+  it('only reads a station as a gas station when it says so', () => {
+    expect(categoryOf('gas station')).toBe('gas station');
+    expect(categoryOf('fuel')).toBe('gas station');
+    expect(categoryOf('train station')).toBeUndefined();
+    expect(categoryOf('police station')).toBeUndefined();
+  });
+
+  it('splits brands from categories per stop', () => {
+    const e = extractEntities('take me home with a shell station and coffee', 'navigate_with_stops', {
+      destination: 'home',
+      stops: ['shell station', 'coffee'],
+    });
+    expect(e).toMatchObject({
+      anchorReference: 'home',
+      placeName: 'Shell',
+      category: 'gas station',
+      stopDetails: [
+        { name: 'shell station', brand: 'Shell', category: 'gas station' },
+        { name: 'coffee', category: 'coffee' },
+      ],
+    });
+    expect(extractEntities('find a Starbucks', 'find_place', { destination: 'Starbucks' })).toMatchObject({
+      placeName: 'Starbucks',
+      category: 'coffee',
+    });
+  });
+
+  it('keeps the local grammar from reading the time as a destination', () => {
+    expect(stripConstraints('Get gas before 5, then head home')).toBe('get gas , then head home');
+    expect(localParse('get coffee before 5 on the way to work')).toMatchObject({ destination: 'work', stops: ['coffee'] });
+  });
+});
@@ -0,0 +1,37 @@
+import type { Coordinates } from '../src/common/types';
+import { EntityResolverService } from '../src/modules/errand/services/entity-resolver.service';
+import type { GoogleMapsService } from '../src/modules/maps/google-maps.service';
+import { haversineM } from '../src/modules/maps/polyline';
+import type { PlaceCandidate } from '../src/modules/places/google-places.service';
+import type { PlaceSearchService } from '../src/modules/places/place-search.service';
+
+const place = (placeId: string, location: Coordinates): PlaceCandidate => ({ placeId, name: 'Starbucks', location });
+
+/** Places search that only sees places within the radius of each search center. */
+function fakeSearch(places: PlaceCandidate[]) {
+  const centers: Coordinates[] = [];
+  const search = {
+    searchPlaces: async (_text: string, center: Coordinates, radiusM: number) => {
+      centers.push(center);
+      return places.filter((p) => haversineM(center, p.location) <= radiusM);
+    },
+  } as unknown as PlaceSearchService;
+  return { search, centers };
+}
+
+describe('EntityResolverService.resolveStops', () => {
+  it('finds the branch halfway along a long route, not just those near either end', async () => {
+    // ~22 km east; one branch just off the start, one on the road halfway.
+    const origin = { lat: 0, lng: 0 };
+    const destination = { lat: 0, lng: 0.2 };
+    const nearStart = place('near-start', { lat: 0.02, lng: 0 });
+    const onRoute = place('on-route', { lat: 0, lng: 0.1 });
+    const { search, centers } = fakeSearch([nearStart, onRoute]);
+    const resolver = new EntityResolverService({} as GoogleMapsService, search);
+
+    const [stop] = await resolver.resolveStops(['starbucks'], origin, 1600, { destination, candidatesPerQuery: 3 });
+    expect(stop.place.placeId).toBe('on-route');
+    expect(stop.alternatives?.map((p) => p.placeId)).toEqual(['near-start']);
+    expect(centers.length).toBeLessThanOrEqual(6);
+  });
+});
@@ -0,0 +1,71 @@
+import { HttpException } from '@nestjs/common';
+import type { PrismaService } from '../src/prisma/prisma.service';
+import { ErrandTemplateService } from '../src/modules/user/errand-template.service';
+import { nextOccurrence } from '../src/modules/user/recurrence';
+
+describe('nextOccurrence', () => {
+  // Wednesday 2026-10-21 10:00 in UTC-7.
+  const wed10 = Date.parse('2026-10-21T17:00:00.000Z');
+
+  it('finds the next listed weekday at the local time', () => {
+    expect(new Date(nextOccurrence({ days: ['sat'], time: '09:00' }, wed10, -420)!).toISOString()).toBe('2026-10-24T16:00:00.000Z');
+    expect(new Date(nextOccurrence({ days: ['wed', 'fri'], time: '18:30' }, wed10, -420)!).toISOString()).toBe('2026-10-22T01:30:00.000Z');
+  });
+
+  it('rolls over to next week once today has passed', () => {
+    expect(new Date(nextOccurrence({ days: ['wed'] }, wed10, -420)!).toISOString()).toBe('2026-10-28T16:00:00.000Z');
+    expect(nextOccurrence({ days: [] }, wed10, 0)).toBeNull();
+  });
+});
+
+describe('ErrandTemplateService', () => {
+  const row = (id: string, name: string) => ({
+    id,
+    userId: 'u1',
+    name,
+    destinationAnchorId: null,
+    destinationName: 'home',
+    stops: [{ name: 'gym' }],
+    preferences: null,
+    recurrence: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+
+  it('matches a template the utterance asks to run, longest name first', async () => {
+    const rows = [row('t1', 'Saturday run'), row('t2', 'Long Saturday run'), row('t3', 'Run')];
+    const templates = new ErrandTemplateService({ errandTemplate: { findMany: async () => rows } } as unknown as PrismaService);
+    await expect(templates.findByPhrase('u1', 'Do my saturday-run, please')).resolves.toMatchObject({ id: 't1' });
+    await expect(templates.findByPhrase('u1', 'start the long Saturday run today')).resolves.toMatchObject({ id: 't2' });
+    await expect(templates.findByPhrase('u1', 'Sunday brunch')).resolves.toBeNull();
+  });
+
+  it('does not run a template whose name is only mentioned', async () => {
+    const rows = [row('t1', 'Gym'), row('t2', 'Groceries')];
+    const templates = new ErrandTemplateService({ errandTemplate: { findMany: async () => rows } } as unknown as PrismaService);
+    await expect(templates.findByPhrase('u1', 'take me to the gym')).resolves.toBeNull();
+    await expect(templates.findByPhrase('u1', 'I need groceries on the way home')).resolves.toBeNull();
+    await expect(templates.findByPhrase('u1', 'run my gym')).resolves.toMatchObject({ id: 't1' });
+  });
+
+  it('takes the destination name from the anchor and rejects duplicate names', async () => {
+    const created: Array<Record<string, unknown>> = [];
+    const prisma = {
+      anchor: { findFirst: async ({ where }: { where: { id: string } }) => (where.id === 'a-gym' ? { id: 'a-gym', name: 'Gym' } : null) },
+      errandTemplate: {
+        create: async ({ data }: { data: Record<string, unknown> }) => {
+          if (created.some((c) => c.name === data.name)) throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+          created.push(data);
+          return { ...row('t1', data.name as string), ...data };
+        },
+      },
+    } as unknown as PrismaService;
+    const templates = new ErrandTemplateService(prisma);
+    const input = { name: 'Saturday run', destination: { anchorId: 'a-gym' }, stops: [{ name: 'gas' }], recurrence: { days: ['sat' as const] } };
+
+    const t = await templates.create('u1', input);
+    expect(t).toMatchObject({ destination: { anchorId: 'a-gym', name: 'Gym' }, recurrence: { days: ['sat'] }, nextRunAt: expect.any(String) });
+    await expect(templates.create('u1', input)).rejects.toMatchObject({ status: 409 });
+    await expect(templates.create('u1', { ...input, name: 'x', destination: { anchorId: 'other' } })).rejects.toBeInstanceOf(HttpException);
+  });
+});
@@ -0,0 +1,380 @@
+import { HttpStatus, INestApplication, ValidationPipe } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import * as request from 'supertest';
+import { intersection } from '../src/fixtures/synthetic-city';
+import { CacheModule } from '../src/modules/cache/cache.module';
+import { ErrandModule } from '../src/modules/errand/errand.module';
+import { NluModule } from '../src/modules/nlu/nlu.module';
+import { AnchorService } from '../src/modules/user/anchor.service';
+import { UserService } from '../src/modules/user/user.service';
+import { PrismaModule } from '../src/prisma/prisma.module';
+import { PrismaService } from '../src/prisma/prisma.service';
+
+/** In-memory prisma.route for the saved-routes endpoints. */
+function routeTable() {
+  const rows: Array<Record<string, unknown> & { id: string; userId: string; createdAt: Date }> = [];
+  const matches = (r: Record<string, unknown>, where: Record<string, unknown>) => Object.entries(where).every(([k, v]) => r[k] === v);
+  return {
+    create: async ({ data }: { data: Record<string, unknown> }) => {
+      const row = { ...data, id: `saved-${rows.length + 1}`, userId: data.userId as string, createdAt: new Date() };
+      rows.push(row);
+      return row;
+    },
+    findFirst: async ({ where }: { where: Record<string, unknown> }) => rows.find((r) => matches(r, where)) ?? null,
+    findMany: async ({ where }: { where: Record<string, unknown> }) => rows.filter((r) => matches(r, where)).reverse(),
+    count: async ({ where }: { where: Record<string, unknown> }) => rows.filter((r) => matches(r, where)).length,
+    deleteMany: async ({ where }: { where: Record<string, unknown> }) => {
+      const i = rows.findIndex((r) => matches(r, where));
+      if (i >= 0) rows.splice(i, 1);
+      return { count: i >= 0 ? 1 : 0 };
+    },
+  };
+}
+
+const saturdayRun = {
+  id: 'tpl-1',
+  userId: 'user-1',
+  name: 'Saturday run',
+  destinationAnchorId: null,
+  destinationName: 'work',
+  stops: [{ name: 'gas' }, { name: 'groceries' }],
+  preferences: { maxDetourPercentage: 30 },
+  recurrence: { days: ['sat'], time: '09:00' },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+/** The user's saved home, away from the synthetic city's "home" landmark. */
+const home = { id: 'anchor-home', name: 'Home', location: intersection(4, 4), type: 'home' };
+
+/** Heads "home" by name, with no anchor id. */
+const eveningRun = { ...saturdayRun, id: 'tpl-2', name: 'Evening run', destinationName: 'home', recurrence: null };
+
+describe('Fixture mode (e2e)', () => {
+  let app: INestApplication;
+  /** When set, resolving the requesting user fails as it would with Postgres down. */
+  let userStoreDown = false;
+
+  beforeAll(async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({ isGlobal: true, ignoreEnvFile: true, load: [() => ({ FIXTURE_MODE: 'true' })] }),
+        PrismaModule,
+        CacheModule,
+        ErrandModule,
+        NluModule,
+      ],
+    })
+      .overrideProvider(PrismaService)
+      .useValue({
+        route: routeTable(),
+        errandTemplate: {
+          findMany: async () => [saturdayRun, eveningRun],
+          findFirst: async ({ where }: { where: { id: string } }) => [saturdayRun, eveningRun].find((t) => t.id === where.id) ?? null,
+        },
+      })
+      .overrideProvider(UserService)
+      .useValue({
+        idFor: async () => 'user-1',
+        idForSafely: async () => (userStoreDown ? undefined : 'user-1'),
+        getPreferences: async () => ({}),
+        preferencesSafely: async () => ({}),
+        recordTurnSafely: async () => 'user-1',
+        attachRouteToLatestTurn: async () => null,
+      })
+      .overrideProvider(AnchorService)
+      .useValue({ list: async () => [home] })
+      .compile();
+
+    app = module.createNestApplication();
+    app.setGlobalPrefix('api/v1');
+    app.useGlobalPipes(new ValidationPipe({ whitelist: true, transform: true }));
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app?.close();
+  });
+
+  it('POST /api/v1/nlu/process returns the canned parse', () => {
+    return request(app.getHttpServer())
+      .post('/api/v1/nlu/process')
+      .send({ utterance: 'I need gas and groceries on the way to work.' })
+      .expect(HttpStatus.CREATED)
+      .expect((res) => {
+        expect(res.body).toMatchObject({ intent: 'navigate_with_stops', agent: 'fast', entities: { destination: 'work', stops: ['gas', 'groceries'] } });
+      });
+  });
+
+  it('POST /api/v1/nlu/process lists stop candidates when the advanced agent flags the parse', () => {
+    return request(app.getHttpServer())
+      .post('/api/v1/nlu/process')
+      .send({ utterance: 'the usual', currentLocation: intersection(1, 2) })
+      .expect(HttpStatus.CREATED)
+      .expect((res) => {
+        const { entities } = res.body;
+        expect(res.body.agent).toBe('advanced');
+        expect(entities.disambiguationNeeded).toBe(true);
+        expect(entities.disambiguation).toEqual([expect.objectContaining({ type: 'stop', query: 'coffee' })]);
+        expect(entities.disambiguationCandidates.length).toBeGreaterThan(1);
+        for (const c of entities.disambiguationCandidates) {
+          expect(c).toMatchObject({ id: expect.stringMatching(/^fx_cafe_/), distance: expect.any(Number), detourCost: expect.any(Number) });
+        }
+      });
+  });
+
+  it('POST /api/v1/nlu/process rejects a currentRoute without stops', () => {
+    return request(app.getHttpServer())
+      .post('/api/v1/nlu/process')
+      .send({ utterance: 'remove the second stop', context: { conversationId: 'c-1', currentRoute: {} } })
+      .expect(HttpStatus.BAD_REQUEST);
+  });
+
+  it('GET /api/v1/nlu/confidence-policy serves per-intent thresholds', () => {
+    return request(app.getHttpServer())
+      .get('/api/v1/nlu/confidence-policy')
+      .expect(HttpStatus.OK)
+      .expect((res) => {
+        expect(res.body.default).toEqual({ high: 0.8, medium: 0.6 });
+        expect(res.body.intents.set_anchor.alwaysConfirm).toBe(true);
+      });
+  });
+
+  it('POST /api/v1/errand/navigate-with-stops plans home → work through the synthetic city', () => {
+    return request(app.getHttpServer())
+      .post('/api/v1/errand/navigate-with-stops')
+      .send({
+        origin: intersection(1, 2),
+        destination: { name: 'work' },
+        stops: [{ name: 'gas' }, { name: 'groceries' }],
+        // Wednesday 10:00 local time, when every stop is open.
+        departureTime: '2026-10-21T17:00:00.000Z',
+        preferences: { maxDetourPercentage: 30 },
+      })
+      .expect(HttpStatus.CREATED)
+      .expect((res) => {
+        const { route, excludedStops } = res.body;
+        expect(excludedStops ?? []).toEqual([]);
+        expect(route.stops).toHaveLength(2);
+        for (const s of route.stops) expect(s.id).toMatch(/^fx_/);
+        expect(route.destination.location).toEqual(intersection(6, 5));
+        expect(route.totalDistance).toBeGreaterThan(0);
+      });
+  });
+
+  it('POST /api/v1/errand/navigate-with-stops still plans when the user store is down', async () => {
+    userStoreDown = true;
+    try {
+      await request(app.getHttpServer())
+        .post('/api/v1/errand/navigate-with-stops')
+        .send({
+          origin: intersection(1, 2),
+          destination: { name: 'work' },
+          stops: [{ name: 'gas' }],
+          departureTime: '2026-10-21T17:00:00.000Z',
+        })
+        .expect(HttpStatus.CREATED)
+        .expect((res) => {
+          expect(res.body.route.stops).toHaveLength(1);
+          expect(res.body.route.destination.location).toEqual(intersection(6, 5));
+        });
+    } finally {
+      userStoreDown = false;
+    }
+  });
+
+  const sseEvents = (text: string) =>
+    text
+      .split('\n\n')
+      .filter(Boolean)
+      .map((block) => {
+        const [, event] = /^event: (.+)$/m.exec(block)!;
+        const [, data] = /^data: (.+)$/m.exec(block)!;
+        return { event, data: JSON.parse(data) };
+      });
+
+  it('POST /api/v1/errand/plan/stream streams each planning stage', () => {
+    return request(app.getHttpServer())
+      .post('/api/v1/errand/plan/stream')
+      .send({
+        utterance: 'I need gas and groceries on the way to work.',
+        origin: intersection(1, 2),
+        departureTime: '2026-10-21T17:00:00.000Z',
+        preferences: { maxDetourPercentage: 30 },
+      })
+      .expect(HttpStatus.OK)
+      .expect('Content-Type', /text\/event-stream/)
+      .expect((res) => {
+        const events = sseEvents(res.text);
+        expect(events.map((e) => e.event)).toEqual(['intent', 'destination', 'stop', 'stop', 'route', 'budget', 'result', 'done']);
+        expect(events[0].data).toMatchObject({ planning: true, response: { intent: 'navigate_with_stops' } });
+        expect(events[1].data).toMatchObject({ name: expect.any(String), location: intersection(6, 5) });
+        expect(events[2].data.place.id).toMatch(/^fx_/);
+        expect(events[5].data.withinBudget).toBe(true);
+        expect(events[6].data.route.stops).toHaveLength(2);
+      });
+  });
+
+  it('POST /api/v1/errand/plan/stream heads to the saved home anchor, not the geocoded word', () => {
+    return request(app.getHttpServer())
+      .post('/api/v1/errand/plan/stream')
+      .send({ utterance: 'Take me home', origin: intersection(6, 5), departureTime: '2026-10-21T17:00:00.000Z' })
+      .expect(HttpStatus.OK)
+      .expect((res) => {
+        const destination = sseEvents(res.text).find((e) => e.event === 'destination');
+        expect(destination?.data).toEqual({ name: 'Home', location: home.location, source: 'anchor' });
+      });
+  });
+
+  it('POST /api/v1/errand/plan/stream stops after the intent when the app has to ask first', () => {
+    return request(app.getHttpServer())
+      .post('/api/v1/errand/plan/stream')
+      .send({ utterance: 'the usual', origin: intersection(1, 2) })
+      .expect(HttpStatus.OK)
+      .expect((res) => {
+        const events = sseEvents(res.text);
+        expect(events.map((e) => e.event)).toEqual(['intent', 'done']);
+        expect(events[0].data.planning).toBe(false);
+        expect(events[1].data).toEqual({ planned: false });
+      });
+  });
+
+  it('POST /api/v1/errand/plan/stream runs a template asked for by name', () => {
+    return request(app.getHttpServer())
+      .post('/api/v1/errand/plan/stream')
+      .send({ utterance: 'Do my Saturday run', origin: intersection(1, 2), departureTime: '2026-10-24T16:00:00.000Z' })
+      .expect(HttpStatus.OK)
+      .expect((res) => {
+        const events = sseEvents(res.text);
+        expect(events.map((e) => e.event)).toEqual(['intent', 'destination', 'stop', 'stop', 'route', 'budget', 'result', 'done']);
+        expect(events[0].data).toMatchObject({
+          planning: true,
+          response: { intent: 'navigate_with_stops', entities: { destination: 'work', stops: ['gas', 'groceries'], template: { id: 'tpl-1' } } },
+        });
+        expect(events[6].data.route.stops).toHaveLength(2);
+      });
+  });
+
+  it('POST /api/v1/errand/templates/:id/run plans the template from the current location', async () => {
+    const res = await request(app.getHttpServer())
+      .post('/api/v1/errand/templates/tpl-1/run')
+      .send({ origin: intersection(1, 2), departureTime: '2026-10-24T16:00:00.000Z' })
+      .expect(HttpStatus.CREATED);
+    expect(res.body.route.destination.location).toEqual(intersection(6, 5));
+    expect(res.body.route.stops).toHaveLength(2);
+    await request(app.getHttpServer()).post('/api/v1/errand/templates/nope/run').send({ origin: intersection(1, 2) }).expect(HttpStatus.NOT_FOUND);
+  });
+
+  it('plans a template headed "home" by name to the saved home anchor', async () => {
+    const res = await request(app.getHttpServer())
+      .post('/api/v1/errand/templates/tpl-2/run')
+      .send({ origin: intersection(6, 5), departureTime: '2026-10-24T16:00:00.000Z' })
+      .expect(HttpStatus.CREATED);
+    expect(res.body.route.destination.location).toEqual(home.location);
+  });
+
+  it('saves planned routes and replans them from /api/v1/routes', async () => {
+    const server = app.getHttpServer();
+    const planned = await request(server)
+      .post('/api/v1/errand/navigate-with-stops')
+      .send({ origin: intersection(1, 2), destination: { name: 'work' }, stops: [{ name: 'gas' }], departureTime: '2026-10-21T17:00:00.000Z' })
+      .expect(HttpStatus.CREATED);
+    const { id } = planned.body.route;
+    expect(id).toMatch(/^saved-/);
+
+    const list = await request(server).get('/api/v1/routes').expect(HttpStatus.OK);
+    expect(list.body.routes[0]).toMatchObject({ id, destination: { location: intersection(6, 5) }, stopNames: [expect.any(String)] });
+    const saved = await request(server).get(`/api/v1/routes/${id}`).expect(HttpStatus.OK);
+    expect(saved.body.route).toMatchObject({ id, polyline: planned.body.route.polyline });
+
+    const again = await request(server)
+      .post(`/api/v1/routes/${id}/replan`)
+      .send({ departureTime: '2026-10-22T17:00:00.000Z' })
+      .expect(HttpStatus.CREATED);
+    expect(again.body.route.id).not.toBe(id);
+    expect(again.body.route.stops).toHaveLength(1);
+
+    await request(server).delete(`/api/v1/routes/${id}`).expect(HttpStatus.OK);
+    const gone = await request(server).get(`/api/v1/routes/${id}`).expect(HttpStatus.NOT_FOUND);
+    expect(gone.body.error.code).toBe('NOT_FOUND');
+  });
+
+  it('rejects a route page that is not a small positive integer', async () => {
+    const server = app.getHttpServer();
+    for (const q of ['limit=abc', 'limit=0', 'limit=101', 'offset=-1', 'offset=1.5']) {
+      await request(server).get(`/api/v1/routes?${q}`).expect(HttpStatus.BAD_REQUEST);
+    }
+    await request(server).get('/api/v1/routes?limit=100&offset=0').expect(HttpStatus.OK);
+  });
+
+  it('plans as a background job without Redis and serves the result at /api/v1/errand/jobs/:id', async () => {
+    const server = app.getHttpServer();
+    const submitted = await request(server)
+      .post('/api/v1/errand/jobs')
+      .send({ origin: intersection(1, 2), destination: { name: 'work' }, stops: [{ name: 'gas' }, { name: 'groceries' }], departureTime: '2026-10-21T17:00:00.000Z', preferences: { maxDetourPercentage: 30 } })
+      .expect(HttpStatus.ACCEPTED);
+    expect(submitted.body).toMatchObject({ id: expect.any(String), status: expect.stringMatching(/waiting|active/) });
+
+    let job = submitted.body;
+    for (let i = 0; i < 50 && job.status !== 'completed' && job.status !== 'failed'; i++) {
+      await new Promise((r) => setTimeout(r, 20));
+      job = (await request(server).get(`/api/v1/errand/jobs/${submitted.body.id}`).expect(HttpStatus.OK)).body;
+    }
+    expect(job).toMatchObject({ status: 'completed', progress: { percent: 100 } });
+    expect(job.result.route.id).toMatch(/^saved-/);
+    expect(job.result.route.stops).toHaveLength(2);
+    await request(server).get('/api/v1/errand/jobs/nope').expect(HttpStatus.NOT_FOUND);
+  });
+
+  it('GET /api/v1/admin/cache/stats reports the in-memory fallback per key prefix', async () => {
+    const res = await request(app.getHttpServer()).get('/api/v1/admin/cache/stats').expect(HttpStatus.OK);
+    expect(res.body).toMatchObject({ backend: 'memory', memory: { maxEntries: 10000 } });
+    // Earlier plans cached their geocodes and directions.
+    expect(res.body.memory.entries).toBeGreaterThan(0);
+    expect(Object.keys(res.body.memory.byPrefix)).toEqual(expect.arrayContaining(['route:']));
+  });
+
+  it('plans for a user without stored preferences: no minute limit, only the distance budget', async () => {
+    const res = await request(app.getHttpServer())
+      .post('/api/v1/errand/navigate-with-stops')
+      .send({ origin: intersection(1, 2), destination: { name: 'work' }, stops: [{ name: 'gas' }, { name: 'groceries' }], departureTime: '2026-10-21T17:00:00.000Z' })
+      .expect(HttpStatus.CREATED);
+    expect(res.body.route.stops).toHaveLength(2);
+    expect(res.body.route.detourBudget.usedMin).toBeGreaterThan(0);
+    expect(res.body.route.detourBudget.totalMin).toBeUndefined();
+  });
+
+  it('plans the fastest order and rejects an order preference it cannot apply', async () => {
+    const plan = (orderPreference: string) =>
+      request(app.getHttpServer())
+        .post('/api/v1/errand/navigate-with-stops')
+        .send({ origin: intersection(1, 2), destination: { name: 'work' }, stops: [{ name: 'gas' }, { name: 'groceries' }], departureTime: '2026-10-21T17:00:00.000Z', orderPreference });
+    const res = await plan('fastest').expect(HttpStatus.CREATED);
+    expect(res.body.route.stops).toHaveLength(2);
+    await plan('cheapest').expect(HttpStatus.BAD_REQUEST);
+  });
+
+  it('applies the NLU time constraint and radius to the plan', () => {
+    return request(app.getHttpServer())
+      .post('/api/v1/errand/navigate-with-stops')
+      .send({
+        origin: intersection(1, 2),
+        destination: { name: 'work' },
+        stops: [{ name: 'coffee' }, { name: 'hardware' }],
+        departureTime: '2026-10-21T17:00:00.000Z',
+        preferences: { maxDetourPercentage: 30 },
+        // "before 10:30" said in Riverton (UTC-7); the hardware store is ~2 km from both ends.
+        timeConstraint: { kind: 'before', time: '10:30' },
+        utcOffsetMinutes: -420,
+        radius: 1300,
+      })
+      .expect(HttpStatus.CREATED)
+      .expect((res) => {
+        const { route, excludedStops } = res.body;
+        expect(excludedStops).toEqual([{ name: 'hardware', reason: 'No place found within search area' }]);
+        expect(route.stops).toHaveLength(1);
+        expect(route.stops[0].timeWindow).toEqual({ latest: Date.parse('2026-10-21T17:30:00.000Z') });
+      });
+  });
+});
@@ -0,0 +1,127 @@
+import { ConfigService } from '@nestjs/config';
+import { GeminiLlmProvider } from '../src/modules/nlu/gemini-llm.provider';
+import { completeStructured, type LlmProvider, type LlmRequest } from '../src/modules/nlu/llm-provider';
+import { createLlmProvider } from '../src/modules/nlu/llm-provider.factory';
+import { LocalLlmProvider } from '../src/modules/nlu/local-llm.provider';
+import { OpenAiLlmProvider } from '../src/modules/nlu/openai-llm.provider';
+import { FAST_RESPONSE_SCHEMA, validateFastResult } from '../src/modules/nlu/nlu-schema';
+
+describe('completeStructured', () => {
+  const scripted = (replies: string[]) => {
+    const requests: LlmRequest[] = [];
+    const llm: LlmProvider = {
+      name: 'test',
+      model: 'm',
+      complete: async (req) => {
+        requests.push(JSON.parse(JSON.stringify(req)));
+        return replies.shift() ?? '';
+      },
+    };
+    return { llm, requests };
+  };
+
+  const parse = (llm: LlmProvider) => completeStructured(llm, 'system', 'take me home', FAST_RESPONSE_SCHEMA, validateFastResult);
+
+  it('requests the response schema and returns the validated parse', async () => {
+    const { llm, requests } = scripted(['{"intent":"navigate_direct","destination":"home","stops":[],"confidence":1.4,"requires_advanced":false}']);
+    await expect(parse(llm)).resolves.toEqual({
+      intent: 'navigate_direct',
+      destination: 'home',
+      stops: [],
+      confidence: 1,
+      requires_advanced: false,
+    });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].schema).toEqual(FAST_RESPONSE_SCHEMA);
+  });
+
+  it('retries once with the invalid reply and what was wrong with it', async () => {
+    const { llm, requests } = scripted([
+      '{"intent":"go_home","stops":"coffee","confidence":0.9}',
+      '```json\n{"intent":"navigate_with_stops","destination":"home","stops":["coffee"],"confidence":0.9,"requires_advanced":false}\n```',
+    ]);
+    await expect(parse(llm)).resolves.toMatchObject({ intent: 'navigate_with_stops', stops: ['coffee'] });
+    const [, model, repair] = requests[1].messages;
+    expect(model).toEqual({ role: 'assistant', content: '{"intent":"go_home","stops":"coffee","confidence":0.9}' });
+    expect(repair.content).toContain('intent must be one of');
+    expect(repair.content).toContain('stops must be an array of strings');
+  });
+
+  it('throws MODEL_OUTPUT_INVALID when the repair is invalid too', async () => {
+    const { llm, requests } = scripted(['not json', '{"intent":"navigate_direct"}']);
+    await expect(parse(llm)).rejects.toMatchObject({
+      status: 502,
+      response: { error: { code: 'MODEL_OUTPUT_INVALID' } },
+    });
+    expect(requests).toHaveLength(2);
+  });
+});
+
+describe('LLM adapters', () => {
+  const realFetch = global.fetch;
+  let calls: Array<{ url: string; headers: Record<string, string>; body: Record<string, any> }>;
+  let reply: unknown;
+
+  beforeEach(() => {
+    calls = [];
+    global.fetch = jest.fn(async (url: string, init?: RequestInit) => {
+      calls.push({ url, headers: init?.headers as Record<string, string>, body: JSON.parse(String(init?.body)) });
+      return new Response(JSON.stringify(reply), { status: 200 });
+    }) as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  const req: LlmRequest = {
+    system: 'sys',
+    messages: [{ role: 'user', content: 'hi' }, { role: 'assistant', content: '{}' }, { role: 'user', content: 'again' }],
+    schema: FAST_RESPONSE_SCHEMA,
+  };
+
+  it('gemini sends generateContent with response_schema', async () => {
+    reply = { candidates: [{ content: { parts: [{ text: 'ok' }] } }] };
+    await expect(new GeminiLlmProvider('KEY', 'gemini-x').complete(req)).resolves.toBe('ok');
+    expect(calls[0].url).toContain('/models/gemini-x:generateContent?key=KEY');
+    expect(calls[0].body.contents.map((c: { role: string }) => c.role)).toEqual(['user', 'model', 'user']);
+    expect(calls[0].body.generation_config.response_schema).toEqual(FAST_RESPONSE_SCHEMA);
+  });
+
+  it('gemini without a key fails with MISSING_API_KEY before calling out', async () => {
+    await expect(new GeminiLlmProvider('', 'gemini-x').complete(req)).rejects.toMatchObject({ response: { error: { code: 'MISSING_API_KEY' } } });
+    expect(calls).toHaveLength(0);
+  });
+
+  it('openai-compatible sends chat/completions with a JSON schema response format', async () => {
+    reply = { choices: [{ message: { content: 'ok' } }] };
+    await expect(new OpenAiLlmProvider('http://vllm:8000/v1/', 'sk-1', 'qwen').complete(req)).resolves.toBe('ok');
+    expect(calls[0].url).toBe('http://vllm:8000/v1/chat/completions');
+    expect(calls[0].headers.Authorization).toBe('Bearer sk-1');
+    expect(calls[0].body.messages[0]).toEqual({ role: 'system', content: 'sys' });
+    const schema = calls[0].body.response_format.json_schema.schema;
+    expect(schema.type).toBe('object');
+    expect(schema.properties.destination.type).toEqual(['string', 'null']);
+    expect(schema.properties.stops).toEqual({ type: 'array', items: { type: 'string' } });
+  });
+
+  it('local sends a non-streaming Ollama chat with the schema as format', async () => {
+    reply = { message: { content: 'ok' } };
+    await expect(new LocalLlmProvider('http://localhost:11434', 'llama3.1:8b').complete(req)).resolves.toBe('ok');
+    expect(calls[0].url).toBe('http://localhost:11434/api/chat');
+    expect(calls[0].body).toMatchObject({ model: 'llama3.1:8b', stream: false, format: { type: 'object' } });
+  });
+
+  it('maps 429 to API_QUOTA_EXCEEDED', async () => {
+    global.fetch = jest.fn(async () => new Response('slow down', { status: 429 })) as unknown as typeof fetch;
+    await expect(new OpenAiLlmProvider('http://x/v1', '', 'm').complete(req)).rejects.toMatchObject({
+      response: { error: { code: 'API_QUOTA_EXCEEDED' } },
+    });
+  });
+
+  it('picks the adapter and model per tier', () => {
+    const config = new ConfigService({ LLM_FAST_PROVIDER: 'local', LOCAL_LLM_FAST_MODEL: 'phi3', GEMINI_ADVANCED_MODEL: 'gemini-pro' });
+    expect(createLlmProvider(config, 'fast')).toMatchObject({ name: 'local', model: 'phi3' });
+    expect(createLlmProvider(config, 'advanced')).toMatchObject({ name: 'gemini', model: 'gemini-pro' });
+  });
+});
@@ -0,0 +1,35 @@
+import { localParse } from '../src/modules/nlu/local-parser';
+
+describe('localParse', () => {
+  it.each([
+    ['Take me home with coffee and gas', 'navigate_with_stops', 'home', ['coffee', 'gas']],
+    ['navigate to work via the pharmacy', 'navigate_with_stops', 'work', ['pharmacy']],
+    ['take me home, stop at the bank and the post office', 'navigate_with_stops', 'home', ['bank', 'post office']],
+    ['I need gas and groceries on the way to work', 'navigate_with_stops', 'work', ['gas', 'grocery store']],
+    ['pick up my prescription and get coffee before work', 'navigate_with_stops', 'work', ['pharmacy', 'coffee']],
+    ['get coffee then go home', 'navigate_with_stops', 'home', ['coffee']],
+    ['go home', 'navigate_direct', 'home', []],
+    ['get me to work', 'navigate_direct', 'work', []],
+    ['Drive to 123 Main St.', 'navigate_direct', '123 main st', []],
+    ['add a stop at the bank', 'add_stop', null, ['bank']],
+    ['also grab milk', 'add_stop', null, ['milk']],
+    ['cancel the gas stop', 'remove_stop', null, ['gas']],
+    ['remove Starbucks from my route', 'remove_stop', null, ['starbucks']],
+    ['set this as my home', 'set_anchor', 'home', []],
+    ["this is my work", 'set_anchor', 'work', []],
+  ])('%s', (utterance, intent, destination, stops) => {
+    expect(localParse(utterance)).toMatchObject({ intent, destination, stops, requires_advanced: false });
+  });
+
+  it('parses one-word replies with high confidence', () => {
+    expect(localParse('Yes!')).toMatchObject({ intent: 'confirm', confidence: 0.95 });
+    expect(localParse('nope')).toMatchObject({ intent: 'deny' });
+    expect(localParse('never mind')).toMatchObject({ intent: 'cancel' });
+  });
+
+  it('returns null outside its grammar', () => {
+    expect(localParse('what is the weather like')).toBeNull();
+    expect(localParse("I'd like pizza")).toBeNull();
+    expect(localParse('')).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+import { regressions, score, type Corpus } from '../eval/nlu-eval';
+
+describe('NLU eval scoring', () => {
+  const corpus: Corpus = {
+    version: 1,
+    cases: [
+      { utterance: 'take me home', intent: 'navigate_direct', destination: 'home', stops: [] },
+      { utterance: 'gas and coffee on the way to work', intent: 'navigate_with_stops', destination: 'work', stops: ['gas', 'coffee'] },
+      { utterance: 'yes', intent: 'confirm' },
+      { utterance: 'find coffee', intent: 'find_place', destination: 'coffee' },
+    ],
+  };
+
+  const { metrics, mismatches } = score(corpus, [
+    { intent: 'navigate_direct', confidence: 0.95, agent: 'fast', destination: 'Home', stops: [] },
+    { intent: 'navigate_with_stops', confidence: 0.7, agent: 'advanced', destination: 'work', stops: ['coffee', 'gas'] },
+    { intent: 'confirm', confidence: 0.98, agent: 'local' },
+    { intent: 'navigate_direct', confidence: 0.9, agent: 'fast', destination: 'coffee' },
+  ]);
+
+  it('scores intents, entities, escalation and calibration', () => {
+    expect(metrics).toMatchObject({ cases: 4, intentAccuracy: 0.75, entityAccuracy: 1, escalationRate: 0.25, overconfidentRate: 0.25 });
+    expect(metrics.perIntent.navigate_direct).toEqual({ support: 1, precision: 0.5, recall: 1 });
+    expect(metrics.perIntent.find_place).toEqual({ support: 1, precision: null, recall: 0 });
+    expect(metrics.calibration).toEqual([
+      { band: 'high', count: 3, accuracy: 0.667, meanConfidence: 0.943 },
+      { band: 'medium', count: 1, accuracy: 1, meanConfidence: 0.7 },
+      { band: 'low', count: 0, accuracy: null, meanConfidence: null },
+    ]);
+    expect(mismatches).toEqual([{ utterance: 'find coffee', expected: 'find_place', actual: 'navigate_direct' }]);
+  });
+
+  it('reports only changes past the tolerance', () => {
+    const worse = { ...metrics, intentAccuracy: 0.7, escalationRate: 0.4 };
+    expect(regressions(worse, metrics, 0.1)).toEqual(['escalationRate: 0.25 -> 0.4']);
+    expect(regressions(worse, metrics, 0.01)).toEqual(['intentAccuracy: 0.75 -> 0.7', 'escalationRate: 0.25 -> 0.4']);
+    expect(regressions({ ...metrics, corpusVersion: 2 }, metrics, 0.1)[0]).toMatch(/update the baseline/);
+  });
+});
@@ -0,0 +1,134 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CacheService } from '../src/modules/cache/cache.service';
+import { ConfidenceRouterService } from '../src/modules/nlu/confidence-router.service';
+import { ConversationContextService } from '../src/modules/nlu/conversation-context.service';
+import type { GeminiAdvancedService } from '../src/modules/nlu/gemini-advanced.service';
+import type { GeminiFastService } from '../src/modules/nlu/gemini-fast.service';
+import { NluService } from '../src/modules/nlu/nlu.service';
+
+describe('NluService', () => {
+  const missingKey = new HttpException({ error: { code: 'MISSING_API_KEY', message: 'GEMINI_API_KEY is not set.' } }, HttpStatus.SERVICE_UNAVAILABLE);
+
+  const build = (fast: Partial<GeminiFastService>, advanced: Partial<GeminiAdvancedService> = {}, env: Record<string, string> = {}) =>
+    new NluService(
+      fast as GeminiFastService,
+      advanced as GeminiAdvancedService,
+      new ConfidenceRouterService(),
+      new ConversationContextService(new CacheService(new ConfigService({}))),
+      new ConfigService(env),
+    );
+
+  it('answers with agent local when Gemini is unavailable', async () => {
+    const nlu = build({ parse: jest.fn().mockRejectedValue(missingKey) });
+    await expect(nlu.process('take me home with coffee and gas')).resolves.toMatchObject({
+      intent: 'navigate_with_stops',
+      agent: 'local',
+      entities: { destination: 'home', stops: ['coffee', 'gas'] },
+    });
+  });
+
+  it('still surfaces the Gemini error for utterances outside the grammar', async () => {
+    const nlu = build({ parse: jest.fn().mockRejectedValue(missingKey) });
+    await expect(nlu.process('what is the weather like')).rejects.toBe(missingKey);
+  });
+
+  it('falls back when Gemini returns nothing usable', async () => {
+    const nlu = build(
+      { parse: jest.fn().mockResolvedValue({ intent: 'unknown', confidence: 0, requires_advanced: true }) },
+      { process: jest.fn().mockResolvedValue({ intent: 'unknown', confidence: 0 }) },
+    );
+    await expect(nlu.process('go home')).resolves.toMatchObject({ intent: 'navigate_direct', agent: 'local' });
+  });
+
+  it('skips Gemini when NLU_LOCAL_FIRST is set and the grammar matches', async () => {
+    const parse = jest.fn();
+    const nlu = build({ parse }, {}, { NLU_LOCAL_FIRST: 'true' });
+    await expect(nlu.process('yes')).resolves.toMatchObject({ intent: 'confirm', agent: 'local' });
+    expect(parse).not.toHaveBeenCalled();
+  });
+
+  describe('multi-turn context', () => {
+    const localOnly = () => build({}, {}, { NLU_LOCAL_FIRST: 'true' });
+
+    it('merges add_stop and remove_stop into the plan of the same conversation', async () => {
+      const nlu = localOnly();
+      const first = await nlu.process('take me home with coffee');
+      expect(first.conversationId).toBeDefined();
+      const ctx = { conversationId: first.conversationId };
+
+      await expect(nlu.process('add gas too', ctx)).resolves.toMatchObject({
+        intent: 'add_stop',
+        entities: { destination: 'home', stops: ['coffee', 'gas'] },
+      });
+      await expect(nlu.process('remove the coffee', ctx)).resolves.toMatchObject({
+        intent: 'remove_stop',
+        entities: { destination: 'home', stops: ['gas'] },
+      });
+    });
+
+    it('keeps time and order constraints across follow-ups until a new plan', async () => {
+      const nlu = localOnly();
+      const first = await nlu.process('take me home with coffee before 5, closest first');
+      expect(first.entities).toMatchObject({ timeConstraint: { kind: 'before', time: '17:00' }, orderPreference: 'nearest', anchorReference: 'home' });
+      const ctx = { conversationId: first.conversationId };
+
+      await expect(nlu.process('add a shell station', ctx)).resolves.toMatchObject({
+        entities: {
+          stops: ['coffee', 'shell station'],
+          timeConstraint: { kind: 'before', time: '17:00' },
+          stopDetails: [{ name: 'coffee', category: 'coffee' }, { name: 'shell station', brand: 'Shell', category: 'gas station' }],
+        },
+      });
+      const next = await nlu.process('take me to work with gas', ctx);
+      expect(next.entities.timeConstraint).toBeUndefined();
+      expect(next.entities.orderPreference).toBeUndefined();
+    });
+
+    it('keeps conversations apart', async () => {
+      const nlu = localOnly();
+      const a = await nlu.process('take me home with coffee');
+      await nlu.process('take me to work with gas');
+      await expect(nlu.process('add the bank', { conversationId: a.conversationId })).resolves.toMatchObject({
+        entities: { destination: 'home', stops: ['coffee', 'bank'] },
+      });
+    });
+
+    it('seeds a new conversation from previousEntities', async () => {
+      const nlu = localOnly();
+      await expect(
+        nlu.process('add gas', { previousIntent: 'navigate_with_stops', previousEntities: { destination: 'work', stops: ['coffee'] } }),
+      ).resolves.toMatchObject({ entities: { destination: 'work', stops: ['coffee', 'gas'] } });
+    });
+
+    it('resolves references against the route on screen', async () => {
+      const nlu = localOnly();
+      const currentRoute = {
+        destination: 'home',
+        stops: [
+          {
+            id: 'p1',
+            name: 'Starbucks',
+            address: '12 Oak Ave',
+            options: [
+              { id: 'p2', name: 'Starbucks', address: '400 Main St' },
+              { id: 'p3', name: 'Starbucks', address: '9 Elm St' },
+            ],
+          },
+          { id: 'p4', name: 'Shell', address: '1 Pine Rd' },
+        ],
+      };
+      const first = await nlu.process('take me home with starbucks and gas', { currentRoute });
+      const ctx = { conversationId: first.conversationId, currentRoute };
+
+      await expect(nlu.process('actually make it the one on Main St', ctx)).resolves.toMatchObject({
+        intent: 'modify_route',
+        entities: { replaceStop: { stopId: 'p1', place: { id: 'p2', address: '400 Main St' } }, stops: ['starbucks', 'gas'] },
+      });
+      await expect(nlu.process('skip the second stop', ctx)).resolves.toMatchObject({
+        intent: 'remove_stop',
+        entities: { removeStopIds: ['p4'] },
+      });
+    });
+  });
+});
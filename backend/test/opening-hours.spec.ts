@@ -0,0 +1,40 @@
+import { arrivalOpenStatus, isOpenAt, type OpeningHours } from '../src/modules/places/opening-hours';
+
+describe('opening hours', () => {
+  // Weekdays 09:00-18:00 plus Saturday 22:00 - Sunday 02:00, in UTC-5.
+  const hours: OpeningHours = {
+    periods: [
+      ...[1, 2, 3, 4, 5].map((day) => ({ open: { day, time: '0900' }, close: { day, time: '1800' } })),
+      { open: { day: 6, time: '2200' }, close: { day: 0, time: '0200' } },
+    ],
+    utcOffsetMin: -300,
+  };
+  // 2026-10-19 is a Monday.
+  const local = (iso: string) => Date.parse(`${iso}-05:00`);
+
+  it('is open during a period in the place local time', () => {
+    expect(isOpenAt(hours, local('2026-10-19T09:00:00'))).toBe(true);
+    expect(isOpenAt(hours, local('2026-10-19T17:59:00'))).toBe(true);
+  });
+
+  it('is closed outside periods', () => {
+    expect(isOpenAt(hours, local('2026-10-19T08:59:00'))).toBe(false);
+    expect(isOpenAt(hours, local('2026-10-19T18:00:00'))).toBe(false);
+  });
+
+  it('handles a period that wraps past Saturday night', () => {
+    expect(isOpenAt(hours, local('2026-10-24T23:00:00'))).toBe(true);
+    expect(isOpenAt(hours, local('2026-10-25T01:30:00'))).toBe(true);
+    expect(isOpenAt(hours, local('2026-10-25T03:00:00'))).toBe(false);
+  });
+
+  it('treats a period without close as open 24 hours', () => {
+    expect(isOpenAt({ periods: [{ open: { day: 0, time: '0000' } }], utcOffsetMin: 0 }, Date.now())).toBe(true);
+  });
+
+  it('reports UNKNOWN without hours and CLOSED_ON_ARRIVAL when closed', () => {
+    expect(arrivalOpenStatus(undefined, Date.now())).toBe('UNKNOWN');
+    expect(arrivalOpenStatus(hours, local('2026-10-19T20:00:00'))).toBe('CLOSED_ON_ARRIVAL');
+    expect(arrivalOpenStatus(hours, local('2026-10-19T12:00:00'))).toBe('OPEN');
+  });
+});
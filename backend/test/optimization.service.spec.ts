@@ -27,6 +27,257 @@ describe('OptimizationService', () => {
     expect(r.totalDistanceM).toBeGreaterThan(0);
   });
 
+  it('reports the exact algorithm for small stop lists', () => {
+    const r = service.optimizeStopOrder({ lat: 0, lng: 0 }, { lat: 0, lng: 0.02 }, [
+      { id: 'a', location: { lat: 0, lng: 0.01 } },
+    ]);
+    expect(r.algorithm).toBe('exact');
+    expect(r.sequence).toEqual(['start', 'a', 'end']);
+  });
+
+  it('handles an empty stop list', () => {
+    const r = service.optimizeStopOrder({ lat: 0, lng: 0 }, { lat: 0, lng: 0.01 }, []);
+    expect(r.sequence).toEqual(['start', 'end']);
+    expect(r.legs.length).toBe(1);
+  });
+
+  it('avoids the nearest-neighbor zig-zag past a stop', () => {
+    // Stops on a line towards the destination, plus one just behind the start.
+    // Nearest neighbor goes forward first and has to come back for 'behind'.
+    const start = { lat: 0, lng: 0 };
+    const end = { lat: 0, lng: 0.05 };
+    const stops = [
+      { id: 'behind', location: { lat: 0, lng: -0.004 } },
+      { id: 'near', location: { lat: 0, lng: 0.003 } },
+      { id: 'mid', location: { lat: 0, lng: 0.02 } },
+      { id: 'far', location: { lat: 0, lng: 0.04 } },
+    ];
+    const nn = service.calculateTotalDistance(start, end, stops, service.nearestNeighbor(start, end, stops));
+    const r = service.optimizeStopOrder(start, end, stops);
+    expect(r.sequence).toEqual(['start', 'behind', 'near', 'mid', 'far', 'end']);
+    expect(r.totalDistanceM).toBeLessThan(nn);
+  });
+
+  it('orders by the road matrix when one is given', () => {
+    // 'a' is first as the crow flies, but a river means it is only reachable from the 'b' side.
+    const start = { lat: 0, lng: 0 };
+    const end = { lat: 0, lng: 0.03 };
+    const stops = [
+      { id: 'a', location: { lat: 0, lng: 0.01 } },
+      { id: 'b', location: { lat: 0, lng: 0.02 } },
+    ];
+    // Node order: start, a, b, end
+    const distancesM = [
+      [0, 9000, 2000, 3300],
+      [9000, 0, 1500, 1200],
+      [2000, 1500, 0, 1100],
+      [3300, 1200, 1100, 0],
+    ];
+    const matrix = { distancesM, durationsMin: distancesM.map((row) => row.map((d) => d / 500)) };
+    expect(service.optimizeStopOrder(start, end, stops).metric).toBe('haversine');
+    const r = service.optimizeStopOrder(start, end, stops, matrix);
+    expect(r.metric).toBe('road');
+    expect(r.sequence).toEqual(['start', 'b', 'a', 'end']);
+    expect(r.totalDistanceM).toBe(2000 + 1500 + 1200);
+  });
+
+  it('orders by driving time for the duration objective', () => {
+    // The highway past 'a' is longer but quicker than the streets through 'b'.
+    const start = { lat: 0, lng: 0 };
+    const end = { lat: 0, lng: 0.03 };
+    const stops = [
+      { id: 'a', location: { lat: 0, lng: 0.01 } },
+      { id: 'b', location: { lat: 0, lng: 0.02 } },
+    ];
+    // Node order: start, a, b, end
+    const distancesM = [
+      [0, 9000, 2000, 3300],
+      [9000, 0, 1500, 1200],
+      [2000, 1500, 0, 1100],
+      [3300, 1200, 1100, 0],
+    ];
+    const durationsMin = [
+      [0, 5, 10, 12],
+      [5, 0, 3, 10],
+      [10, 3, 0, 3],
+      [12, 10, 3, 0],
+    ];
+    const matrix = { distancesM, durationsMin };
+    expect(service.optimizeStopOrder(start, end, stops, matrix).sequence).toEqual(['start', 'b', 'a', 'end']);
+    const r = service.optimizeStopOrder(start, end, stops, matrix, 'duration');
+    expect(r.sequence).toEqual(['start', 'a', 'b', 'end']);
+    expect(r.totalDistanceM).toBe(9000 + 1500 + 1100);
+    expect(r.schedule.map((s) => s.arrivalMin)).toEqual([5, 8]);
+  });
+
+  it('falls back to haversine for missing matrix cells', () => {
+    const start = { lat: 0, lng: 0 };
+    const end = { lat: 0, lng: 0.02 };
+    const stops = [{ id: 'a', location: { lat: 0, lng: 0.01 } }];
+    const matrix = {
+      distancesM: [[0, null, null], [null, 0, null], [null, null, 0]],
+      durationsMin: [[0, null, null], [null, 0, null], [null, null, 0]],
+    };
+    const r = service.optimizeStopOrder(start, end, stops, matrix);
+    expect(r.totalDistanceM).toBeCloseTo(service.optimizeStopOrder(start, end, stops).totalDistanceM, 6);
+  });
+
+  describe('time windows', () => {
+    // Straight road east from start; fallback speed is 500 m/min, so 0.01 deg lng ~ 2.2 min.
+    const start = { lat: 0, lng: 0 };
+    const end = { lat: 0, lng: 0.1 };
+
+    it('visits a stop with a tight deadline first even when it is further away', () => {
+      // Pharmacy is behind the start; going coffee-first reaches it after ~22 min.
+      const stops = [
+        { id: 'coffee', location: { lat: 0, lng: 0.02 } },
+        { id: 'pharmacy', location: { lat: 0, lng: -0.06 }, window: { latestMin: 20 } },
+        { id: 'gas', location: { lat: 0, lng: 0.05 } },
+      ];
+      const r = service.optimizeStopOrder(start, end, stops);
+      expect(r.sequence[1]).toBe('pharmacy');
+      expect(r.lateStopIds).toEqual([]);
+    });
+
+    it('reports stops whose deadline cannot be met', () => {
+      const stops = [{ id: 'pharmacy', location: { lat: 0, lng: 0.08 }, window: { latestMin: 1 } }];
+      const r = service.optimizeStopOrder(start, end, stops);
+      expect(r.lateStopIds).toEqual(['pharmacy']);
+      expect(r.schedule[0].lateByMin).toBeGreaterThan(0);
+    });
+
+    it('waits for earliest arrival and adds dwell time to the schedule', () => {
+      const stops = [{ id: 'bakery', location: { lat: 0, lng: 0.01 }, window: { earliestMin: 30 }, dwellMin: 10 }];
+      const r = service.optimizeStopOrder(start, end, stops);
+      expect(r.schedule[0].arrivalMin).toBeLessThan(30);
+      expect(r.schedule[0].departureMin).toBe(40);
+    });
+
+    it('uses matrix durations for arrival times', () => {
+      const stops = [{ id: 'a', location: { lat: 0, lng: 0.01 } }];
+      const distancesM = [
+        [0, 1000, 2000],
+        [1000, 0, 1000],
+        [2000, 1000, 0],
+      ];
+      const durationsMin = [
+        [0, 7, 9],
+        [7, 0, 3],
+        [9, 3, 0],
+      ];
+      const r = service.optimizeStopOrder(start, end, stops, { distancesM, durationsMin });
+      expect(r.schedule[0].arrivalMin).toBe(7);
+    });
+
+    it('heuristic path respects deadlines on larger lists', () => {
+      const stops = Array.from({ length: 10 }, (_, i) => ({
+        id: `s${i}`,
+        location: { lat: 0, lng: 0.01 * (i + 1) },
+      })) as Array<{ id: string; location: { lat: number; lng: number }; window?: { latestMin: number } }>;
+      stops.push({ id: 'urgent', location: { lat: 0, lng: -0.03 }, window: { latestMin: 10 } });
+      const r = service.optimizeStopOrder(start, end, stops);
+      expect(r.algorithm).toBe('nearest_neighbor_2opt');
+      expect(r.lateStopIds).toEqual([]);
+    });
+  });
+
+  describe('never worse than nearest neighbor', () => {
+    // Deterministic LCG so failures are reproducible.
+    const rng = (seed: number) => () => {
+      seed = (seed * 1664525 + 1013904223) % 4294967296;
+      return seed / 4294967296;
+    };
+    const randomStops = (next: () => number, n: number) =>
+      Array.from({ length: n }, (_, i) => ({
+        id: `s${i}`,
+        location: { lat: 37.7 + next() * 0.1, lng: -122.5 + next() * 0.1 },
+      }));
+
+    it.each([4, 5, 6, 7, 8])('exact solver with %i stops', (n) => {
+      const next = rng(n * 7919);
+      for (let trial = 0; trial < 10; trial++) {
+        const start = { lat: 37.7 + next() * 0.1, lng: -122.5 + next() * 0.1 };
+        const end = { lat: 37.7 + next() * 0.1, lng: -122.5 + next() * 0.1 };
+        const stops = randomStops(next, n);
+        const nn = service.calculateTotalDistance(start, end, stops, service.nearestNeighbor(start, end, stops));
+        const r = service.optimizeStopOrder(start, end, stops);
+        expect(r.algorithm).toBe('exact');
+        expect(r.totalDistanceM).toBeLessThanOrEqual(nn + 1e-6);
+      }
+    });
+
+    it.each([9, 12, 15])('2-opt / Or-opt with %i stops', (n) => {
+      const next = rng(n * 104729);
+      for (let trial = 0; trial < 5; trial++) {
+        const start = { lat: 37.7 + next() * 0.1, lng: -122.5 + next() * 0.1 };
+        const end = { lat: 37.7 + next() * 0.1, lng: -122.5 + next() * 0.1 };
+        const stops = randomStops(next, n);
+        const nn = service.calculateTotalDistance(start, end, stops, service.nearestNeighbor(start, end, stops));
+        const r = service.optimizeStopOrder(start, end, stops);
+        expect(r.algorithm).toBe('nearest_neighbor_2opt');
+        expect(new Set(r.sequence).size).toBe(n + 2);
+        expect(r.totalDistanceM).toBeLessThanOrEqual(nn + 1e-6);
+      }
+    });
+  });
+
+  describe('chooseCandidates', () => {
+    const start = { lat: 0, lng: 0 };
+    const end = { lat: 0, lng: 0.1 };
+
+    it('picks the branch on the route over the one nearest the origin', () => {
+      const groups = [
+        {
+          query: 'Starbucks',
+          candidates: [
+            { id: 'sb-behind', location: { lat: 0, lng: -0.01 } },
+            { id: 'sb-on-route', location: { lat: 0.001, lng: 0.05 } },
+          ],
+        },
+        { query: 'gas', candidates: [{ id: 'gas', location: { lat: 0, lng: 0.07 } }] },
+      ];
+      const r = service.chooseCandidates(start, end, groups);
+      expect(r.algorithm).toBe('exact');
+      expect(r.chosen).toEqual([1, 0]);
+      expect(r.ranked[0]).toEqual([1, 0]);
+      expect(r.ranked[1]).toEqual([0]);
+    });
+
+    it('is never worse than taking the first candidate of each group', () => {
+      let seed = 42;
+      const next = () => {
+        seed = (seed * 1664525 + 1013904223) % 4294967296;
+        return seed / 4294967296;
+      };
+      const point = () => ({ lat: next() * 0.1, lng: next() * 0.1 });
+      for (const n of [3, 5, 7]) {
+        const groups = Array.from({ length: n }, (_, g) => ({
+          query: `q${g}`,
+          candidates: Array.from({ length: 3 }, (_, c) => ({ id: `q${g}-${c}`, location: point() })),
+        }));
+        const r = service.chooseCandidates(start, end, groups);
+        const firsts = groups.map((g) => g.candidates[0]);
+        const baseline = service.optimizeStopOrder(start, end, firsts).totalDistanceM;
+        expect(r.chosen.length).toBe(n);
+        expect(r.totalDistanceM).toBeLessThanOrEqual(baseline + 1e-6);
+        r.ranked.forEach((rank, g) => expect(rank[0]).toBe(r.chosen[g]));
+      }
+    });
+
+    it('falls back to local search for many groups', () => {
+      const groups = Array.from({ length: 10 }, (_, g) => ({
+        query: `q${g}`,
+        candidates: [
+          { id: `q${g}-off`, location: { lat: 0.05, lng: 0.01 * g } },
+          { id: `q${g}-on`, location: { lat: 0, lng: 0.01 * g } },
+        ],
+      }));
+      const r = service.chooseCandidates(start, end, groups);
+      expect(r.algorithm).toBe('nearest_neighbor_2opt');
+      expect(r.chosen).toEqual(new Array(10).fill(1));
+    });
+  });
+
   it('metersToMiles converts correctly', () => {
     expect(service.metersToMiles(1609.34)).toBeCloseTo(1, 2);
   });
@@ -0,0 +1,79 @@
+import { ConfigService } from '@nestjs/config';
+import { OsrmRoutingProvider } from '../src/modules/maps/osrm-routing.provider';
+
+describe('OsrmRoutingProvider', () => {
+  const realFetch = global.fetch;
+  let provider: OsrmRoutingProvider;
+  let lastUrl: string;
+
+  const respond = (body: unknown, status = 200) => {
+    global.fetch = jest.fn(async (url: string | URL | Request) => {
+      lastUrl = String(url);
+      return new Response(JSON.stringify(body), { status });
+    }) as typeof fetch;
+  };
+
+  beforeEach(() => {
+    provider = new OsrmRoutingProvider(new ConfigService({ OSRM_BASE_URL: 'http://osrm.local:5000/' }));
+  });
+
+  afterEach(() => {
+    global.fetch = realFetch;
+  });
+
+  it('maps a route with waypoints to DirectionsResult', async () => {
+    respond({
+      code: 'Ok',
+      routes: [
+        {
+          distance: 3000,
+          duration: 360,
+          geometry: '_p~iF~ps|U_ulLnnqC',
+          legs: [
+            { distance: 1000, duration: 120 },
+            { distance: 2000, duration: 240 },
+          ],
+        },
+      ],
+      waypoints: [{ location: [-122.4, 37.7] }, { location: [-122.41, 37.71] }, { location: [-122.42, 37.72] }],
+    });
+    const r = await provider.getDirections({ lat: 37.7, lng: -122.4 }, { lat: 37.72, lng: -122.42 }, [{ lat: 37.71, lng: -122.41 }]);
+    expect(lastUrl).toBe(
+      'http://osrm.local:5000/route/v1/driving/-122.4,37.7;-122.41,37.71;-122.42,37.72?overview=full&geometries=polyline',
+    );
+    expect(r).toEqual({
+      polyline: '_p~iF~ps|U_ulLnnqC',
+      totalDistanceM: 3000,
+      totalDurationMin: 6,
+      legs: [
+        { distanceM: 1000, durationMin: 2, startLocation: { lat: 37.7, lng: -122.4 }, endLocation: { lat: 37.71, lng: -122.41 } },
+        { distanceM: 2000, durationMin: 4, startLocation: { lat: 37.71, lng: -122.41 }, endLocation: { lat: 37.72, lng: -122.42 } },
+      ],
+    });
+  });
+
+  it('returns null when OSRM finds no route', async () => {
+    respond({ code: 'NoRoute', message: 'Impossible route' }, 400);
+    expect(await provider.getDirections({ lat: 0, lng: 0 }, { lat: 1, lng: 1 })).toBeNull();
+  });
+
+  it('maps the table service to a matrix in minutes', async () => {
+    respond({
+      code: 'Ok',
+      distances: [[0, 1500], [1600, 0]],
+      durations: [[0, 120], [null, 0]],
+    });
+    const m = await provider.getDistanceMatrix([{ lat: 0, lng: 0 }, { lat: 0, lng: 0.01 }]);
+    expect(lastUrl).toContain('/table/v1/driving/0,0;0.01,0?annotations=distance%2Cduration');
+    expect(m).toEqual({ distancesM: [[0, 1500], [1600, 0]], durationsMin: [[0, 2], [null, 0]] });
+  });
+
+  it('reports an unreachable server as ROUTING_UNAVAILABLE', async () => {
+    global.fetch = jest.fn(async () => {
+      throw new TypeError('fetch failed');
+    }) as typeof fetch;
+    await expect(provider.getDirections({ lat: 0, lng: 0 }, { lat: 1, lng: 1 })).rejects.toMatchObject({
+      response: { error: { code: 'ROUTING_UNAVAILABLE' } },
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { ConfigService } from '@nestjs/config';
+import type { PrismaService } from '../src/prisma/prisma.service';
+import { CacheService } from '../src/modules/cache/cache.service';
+import { GooglePlacesService, type PlaceCandidate } from '../src/modules/places/google-places.service';
+import { PlaceStoreService } from '../src/modules/places/place-store.service';
+import { PlaceSweeperService } from '../src/modules/places/place-sweeper.service';
+
+type Row = Record<string, unknown> & { id: string; googlePlacesId: string; expiresAt: Date; cachedAt: Date };
+
+/** Just enough of prisma.place for PlaceStoreService. */
+function fakePrisma(rows: Row[]) {
+  const find = (id: string) => rows.find((r) => r.googlePlacesId === id);
+  return {
+    $transaction: (ops: Array<Promise<unknown>>) => Promise.all(ops),
+    place: {
+      upsert: async ({ where, create, update }: { where: { googlePlacesId: string }; create: Partial<Row>; update: Partial<Row> }) => {
+        const row = find(where.googlePlacesId);
+        if (row) return Object.assign(row, update);
+        const created = { ...create, cachedAt: create.cachedAt ?? new Date(), id: `p${rows.length + 1}` } as Row;
+        rows.push(created);
+        return created;
+      },
+      findFirst: async ({ where }: { where: { googlePlacesId: string; expiresAt: { gt: Date } } }) => {
+        const row = find(where.googlePlacesId);
+        return row && row.expiresAt > where.expiresAt.gt ? row : null;
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<Row> }) =>
+        Object.assign(rows.find((r) => r.id === where.id)!, data),
+      findMany: async ({ where }: { where: { expiresAt: { lte: Date } } }) => rows.filter((r) => r.expiresAt <= where.expiresAt.lte),
+      deleteMany: async ({ where }: { where: { googlePlacesId: { in: string[] } } }) => {
+        const before = rows.length;
+        rows.splice(0, rows.length, ...rows.filter((r) => !where.googlePlacesId.in.includes(r.googlePlacesId)));
+        return { count: before - rows.length };
+      },
+    },
+  } as unknown as PrismaService;
+}
+
+const place = (placeId: string): PlaceCandidate => ({
+  placeId,
+  name: `Place ${placeId}`,
+  address: '1 Main St',
+  location: { lat: 1, lng: 2 },
+  rating: 4.5,
+  types: ['cafe'],
+  openingHours: { periods: [{ open: { day: 0, time: '0000' } }], utcOffsetMin: 0 },
+});
+
+describe('PlaceStoreService', () => {
+  it('serves stored details (without calling the Places API) until they expire', async () => {
+    const rows: Row[] = [];
+    const store = new PlaceStoreService(fakePrisma(rows));
+    // No API key: any Places API call would throw MISSING_API_KEY.
+    const config = new ConfigService({});
+    const google = new GooglePlacesService(config, new CacheService(config), store);
+
+    await store.save([place('a')], { detailed: true });
+    await store.save([{ ...place('b'), openingHours: undefined }]);
+    await expect(google.getPlaceDetails('a')).resolves.toMatchObject({ placeId: 'a', isOpen: true, types: ['cafe'] });
+    expect(rows[0].lastServedAt).toBeInstanceOf(Date);
+
+    // Search results alone do not answer details.
+    await expect(store.getDetails('b')).resolves.toBeNull();
+    rows[0].expiresAt = new Date(Date.now() - 1000);
+    await expect(store.getDetails('a')).resolves.toBeNull();
+  });
+
+  it('returns search results without waiting for the write-through', async () => {
+    const config = new ConfigService({ GOOGLE_PLACES_API_KEY: 'k' });
+    const saved: PlaceCandidate[][] = [];
+    // A database that never answers.
+    const stalled = { save: (places: PlaceCandidate[]) => (saved.push(places), new Promise<void>(() => undefined)) } as unknown as PlaceStoreService;
+    const google = new GooglePlacesService(config, new CacheService(config), stalled);
+    jest.spyOn(google as unknown as { fetch: () => Promise<unknown> }, 'fetch').mockResolvedValue({
+      results: [{ place_id: 'a', name: 'Cafe', geometry: { location: { lat: 1, lng: 2 } } }],
+    });
+
+    await expect(google.textSearch('cafe', { lat: 1, lng: 2 })).resolves.toMatchObject([{ placeId: 'a' }]);
+    expect(saved).toHaveLength(1);
+  });
+
+  it('sweeps expired rows: refreshes the ones still served, deletes the rest', async () => {
+    const past = new Date(Date.now() - 1000);
+    const rows: Row[] = [];
+    const store = new PlaceStoreService(fakePrisma(rows));
+    await store.save([place('served'), place('idle'), place('closed')], { detailed: true });
+    await store.save([place('search-only')]);
+    for (const r of rows) r.expiresAt = past;
+    for (const r of rows.filter((r) => r.googlePlacesId !== 'idle')) r.lastServedAt = new Date();
+
+    const refreshed: string[] = [];
+    const google = {
+      refreshPlaceDetails: async (id: string) => {
+        refreshed.push(id);
+        if (id === 'closed') return null;
+        await store.save([place(id)], { detailed: true });
+        return place(id);
+      },
+    } as unknown as GooglePlacesService;
+    const sweeper = new PlaceSweeperService(new ConfigService({}), store, google);
+
+    await expect(sweeper.sweep()).resolves.toEqual({ refreshed: 1, removed: 3 });
+    expect(refreshed).toEqual(['served', 'closed']);
+    expect(rows.map((r) => r.googlePlacesId)).toEqual(['served']);
+    expect(rows[0].expiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+});
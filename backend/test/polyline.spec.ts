@@ -0,0 +1,49 @@
+import { decodePolyline, encodePolyline, pathLengthM, projectOntoPath, samplePath } from '../src/modules/maps/polyline';
+
+describe('polyline', () => {
+  it('decodes the reference polyline', () => {
+    const pts = decodePolyline('_p~iF~ps|U_ulLnnqC_mqNvxq`@');
+    expect(pts).toEqual([
+      { lat: 38.5, lng: -120.2 },
+      { lat: 40.7, lng: -120.95 },
+      { lat: 43.252, lng: -126.453 },
+    ]);
+    expect(decodePolyline('')).toEqual([]);
+  });
+
+  it('encodes the reference path back to the reference polyline', () => {
+    const path = [
+      { lat: 38.5, lng: -120.2 },
+      { lat: 40.7, lng: -120.95 },
+      { lat: 43.252, lng: -126.453 },
+    ];
+    expect(encodePolyline(path)).toBe('_p~iF~ps|U_ulLnnqC_mqNvxq`@');
+    expect(decodePolyline(encodePolyline(path))).toEqual(path);
+  });
+
+  // ~11.1 km straight east along the equator.
+  const path = [
+    { lat: 0, lng: 0 },
+    { lat: 0, lng: 0.05 },
+    { lat: 0, lng: 0.1 },
+  ];
+
+  it('samples points at the given spacing including both ends', () => {
+    const samples = samplePath(path, 2000);
+    expect(samples[0]).toEqual(path[0]);
+    expect(samples[samples.length - 1]).toEqual(path[2]);
+    expect(samples.length).toBe(Math.floor(pathLengthM(path) / 2000) + 2);
+  });
+
+  it('projects a point onto the path', () => {
+    const { alongM, offsetM } = projectOntoPath(path, { lat: 0.001, lng: 0.07 });
+    expect(alongM).toBeCloseTo(pathLengthM(path) * 0.7, -1);
+    expect(offsetM).toBeCloseTo(111, -1);
+  });
+
+  it('clamps points beyond the ends', () => {
+    const { alongM, offsetM } = projectOntoPath(path, { lat: 0, lng: -0.01 });
+    expect(alongM).toBe(0);
+    expect(offsetM).toBeCloseTo(1112, -1);
+  });
+});
@@ -0,0 +1,87 @@
+import { ConfigService } from '@nestjs/config';
+import { intersection } from '../src/fixtures/synthetic-city';
+import { CacheService } from '../src/modules/cache/cache.service';
+import { DetourBufferService } from '../src/modules/errand/services/detour-buffer.service';
+import { FixtureMapsService } from '../src/modules/maps/fixture-maps.service';
+import type { RoutingProvider } from '../src/modules/maps/routing-provider';
+import type { NLUResponse } from '../src/modules/nlu/nlu.service';
+import { ReferenceResolverService } from '../src/modules/nlu/reference-resolver.service';
+import { FixturePlacesService } from '../src/modules/places/fixture-places.service';
+import { PlaceSearchService } from '../src/modules/places/place-search.service';
+import type { AnchorService } from '../src/modules/user/anchor.service';
+import type { UserService } from '../src/modules/user/user.service';
+
+describe('ReferenceResolverService', () => {
+  const config = new ConfigService({});
+  const cache = new CacheService(config);
+  const home = intersection(1, 2);
+  const anchors = [
+    { id: 'a-home', name: 'Home', location: home, address: '12 2nd St', type: 'home' },
+    { id: 'a-north', name: 'Office North', location: intersection(7, 4), address: '700 Hill St', type: 'work' },
+    { id: 'a-south', name: 'Office South', location: intersection(2, 4), address: '200 3rd St', type: 'work' },
+  ];
+  const resolver = new ReferenceResolverService(
+    { list: async () => anchors } as unknown as AnchorService,
+    new FixtureMapsService(config, cache, {} as RoutingProvider),
+    new PlaceSearchService(new FixturePlacesService(config, cache)),
+    new DetourBufferService(),
+    { getPreferences: async (id: string) => (id === 'u-relaxed' ? { maxDetourPercentage: 1 } : {}) } as unknown as UserService,
+  );
+
+  const parse = (intent: string, entities: Record<string, unknown>): NLUResponse => ({
+    intent,
+    confidence: 0.9,
+    entities,
+    agent: 'fast',
+    utterance: '',
+    processingTime: 0,
+  });
+
+  it('lists every anchor a partial name matches, nearest first', async () => {
+    const [d] = await resolver.resolve(parse('navigate_direct', { destination: 'office' }), { userId: 'u1', origin: home });
+    expect(d).toMatchObject({ type: 'destination', query: 'office' });
+    expect(d.candidates.map((c) => c.id)).toEqual(['a-south', 'a-north']);
+    expect(d.candidates[0]).toMatchObject({ source: 'anchor', address: '200 3rd St' });
+    expect(d.candidates[0].distance).toBeLessThan(d.candidates[1].distance!);
+  });
+
+  it('does not ask about an exact anchor or a geocodable address', async () => {
+    await expect(resolver.resolve(parse('navigate_direct', { destination: 'home' }), { userId: 'u1', origin: home })).resolves.toEqual([]);
+    await expect(resolver.resolve(parse('navigate_direct', { destination: 'work' }), { origin: home })).resolves.toEqual([]);
+  });
+
+  it('always lists the matches for find_place', async () => {
+    const [d] = await resolver.resolve(parse('find_place', { destination: 'pharmacy' }), { origin: home });
+    expect(d.candidates.map((c) => c.id).sort()).toEqual(['fx_pharmacy_care', 'fx_pharmacy_main']);
+    expect(d.candidates[0]).toMatchObject({ source: 'place', rating: expect.any(Number) });
+  });
+
+  it('ranks flagged stops by detour toward the destination', async () => {
+    const list = await resolver.resolve(
+      parse('navigate_with_stops', { destination: 'work', stops: ['coffee'], disambiguationNeeded: true }),
+      { origin: home },
+    );
+    expect(list).toHaveLength(1);
+    const [d] = list;
+    expect(d).toMatchObject({ type: 'stop', query: 'coffee' });
+    expect(d.candidates.length).toBeGreaterThan(1);
+    const detours = d.candidates.map((c) => c.detourCost!);
+    expect(detours).toEqual([...detours].sort((a, b) => a - b));
+    expect(d.candidates[0].detourStatus).toBeDefined();
+  });
+
+  it("labels stop detours against the user's stored detour preferences", async () => {
+    const flagged = parse('navigate_with_stops', { destination: 'work', stops: ['coffee'], disambiguationNeeded: true });
+    const [loose] = await resolver.resolve(flagged, { userId: 'u1', origin: home });
+    const [relaxed] = await resolver.resolve(flagged, { userId: 'u-relaxed', origin: home });
+    // Half a mile off the way: over the default buffer, within a user's 100% of the trip.
+    expect(loose.candidates[1]).toMatchObject({ detourCost: 0.5, detourStatus: 'NOT_RECOMMENDED' });
+    expect(relaxed.candidates[1]).toMatchObject({ detourCost: 0.5, detourStatus: 'ACCEPTABLE' });
+  });
+
+  it('leaves unflagged category stops to the planner', async () => {
+    await expect(
+      resolver.resolve(parse('navigate_with_stops', { destination: 'work', stops: ['coffee'] }), { origin: home }),
+    ).resolves.toEqual([]);
+  });
+});
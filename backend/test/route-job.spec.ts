@@ -0,0 +1,59 @@
+import type { ErrandService, NavigateWithStopsIn, PlanProgress } from '../src/modules/errand/services/errand.service';
+import { RouteJobService } from '../src/modules/errand/services/route-job.service';
+import type { PlannedRoute, SavedRouteService } from '../src/modules/errand/services/saved-route.service';
+
+const inp = (stops: string[]): NavigateWithStopsIn => ({
+  origin: { lat: 1, lng: 2 },
+  destination: { name: 'work' },
+  stops: stops.map((name) => ({ name })),
+});
+
+/** Resolves on the next macrotask, after every pending job step has run. */
+const tick = () => new Promise((r) => setImmediate(r));
+
+describe('RouteJobService without Redis', () => {
+  const savedRoutes = {
+    save: async (_userId: string, _inp: NavigateWithStopsIn, route: PlannedRoute) => ({ ...route, id: 'saved-1' }),
+  } as unknown as SavedRouteService;
+
+  it('plans in-process, reports progress and keeps the saved route for polling', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>((r) => (release = r));
+    const errand = {
+      navigateWithStops: async (i: NavigateWithStopsIn, onProgress: (p: PlanProgress) => void) => {
+        onProgress({ stage: 'destination', name: 'work', location: { lat: 3, lng: 4 }, source: 'geocode' });
+        onProgress({ stage: 'stop', query: i.stops[0].name });
+        await gate;
+        return { route: { id: 'built' } as unknown as PlannedRoute, excludedStops: [] };
+      },
+    } as unknown as ErrandService;
+    const jobs = new RouteJobService(errand, savedRoutes);
+
+    const job = await jobs.submit('u1', inp(['gas', 'groceries']));
+    await tick();
+    expect(await jobs.get('u1', job.id)).toMatchObject({ status: 'active', progress: { percent: 40, stage: 'stop' } });
+    expect(await jobs.get('u2', job.id)).toBeNull();
+
+    release();
+    await tick();
+    expect(await jobs.get('u1', job.id)).toMatchObject({
+      status: 'completed',
+      progress: { percent: 100 },
+      result: { route: { id: 'saved-1' }, excludedStops: [] },
+    });
+  });
+
+  it('records a failed plan', async () => {
+    const errand = {
+      navigateWithStops: async () => {
+        throw new Error('Could not get direct route');
+      },
+    } as unknown as ErrandService;
+    const jobs = new RouteJobService(errand, savedRoutes);
+
+    const job = await jobs.submit('u1', inp(['gas']));
+    await tick();
+    expect(await jobs.get('u1', job.id)).toMatchObject({ status: 'failed', error: 'Could not get direct route' });
+    expect(await jobs.get('u1', 'missing')).toBeNull();
+  });
+});
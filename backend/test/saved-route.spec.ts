@@ -0,0 +1,95 @@
+import type { PrismaService } from '../src/prisma/prisma.service';
+import type { ErrandService, NavigateWithStopsIn } from '../src/modules/errand/services/errand.service';
+import { SavedRouteService, type PlannedRoute } from '../src/modules/errand/services/saved-route.service';
+
+interface Row {
+  id: string;
+  userId: string;
+  createdAt: Date;
+  [column: string]: unknown;
+}
+
+/** Just enough of prisma.route for SavedRouteService. */
+function fakePrisma(rows: Row[]) {
+  const matches = (r: Row, where: Record<string, unknown>) => Object.entries(where).every(([k, v]) => r[k] === v);
+  return {
+    route: {
+      create: async ({ data }: { data: Record<string, unknown> }) => {
+        const row = { ...data, id: `r${rows.length + 1}`, createdAt: new Date(Date.UTC(2026, 9, 19, rows.length)) } as Row;
+        rows.push(row);
+        return row;
+      },
+      findFirst: async ({ where }: { where: Record<string, unknown> }) => rows.find((r) => matches(r, where)) ?? null,
+      findMany: async ({ where }: { where: Record<string, unknown> }) =>
+        rows.filter((r) => matches(r, where)).sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+      count: async ({ where }: { where: Record<string, unknown> }) => rows.filter((r) => matches(r, where)).length,
+    },
+  } as unknown as PrismaService;
+}
+
+const route = (over: Partial<PlannedRoute> = {}) =>
+  ({
+    id: 'route-1',
+    origin: { name: 'Origin', location: { lat: 1, lng: 2 } },
+    destination: { name: 'work', location: { lat: 3, lng: 4 } },
+    stops: [{ id: 'fx_gas', name: 'Gas Stop' }],
+    totalDistance: 2,
+    totalTime: 9.6,
+    detourBudget: { total: 1000, used: 250, remaining: 750, totalMin: 5, usedMin: 1, remainingMin: 4 },
+    ...over,
+  }) as unknown as PlannedRoute;
+
+describe('SavedRouteService', () => {
+  const inp: NavigateWithStopsIn = {
+    origin: { lat: 1, lng: 2 },
+    destination: { name: 'work' },
+    stops: [{ name: 'gas', latestArrival: '2026-10-18T17:00:00.000Z', dwellMinutes: 5 }],
+    timeConstraint: { kind: 'before', time: '17:00' },
+  };
+
+  it('saves each planned route under its row id and lists the newest first', async () => {
+    const rows: Row[] = [];
+    const saved = new SavedRouteService(fakePrisma(rows), {} as ErrandService);
+    const first = await saved.save('u1', inp, route());
+    await saved.save('u1', inp, route({ destination: { name: 'home', location: { lat: 5, lng: 6 } } }));
+    await saved.save('u2', inp, route());
+
+    expect(first.id).toBe('r1');
+    expect(rows[0]).toMatchObject({ totalDistanceM: 3219, totalTimeMin: 10, optimizationScore: 0.75, destinationName: 'work' });
+    const { routes, total } = await saved.list('u1');
+    expect(total).toBe(2);
+    expect(routes.map((r) => r.destination.name)).toEqual(['home', 'work']);
+    expect(routes[1]).toMatchObject({ stopNames: ['Gas Stop'], totalTime: 10 });
+    await expect(saved.get('u2', 'r1')).resolves.toBeNull();
+    await expect(saved.get('u1', 'r1')).resolves.toMatchObject({ id: 'r1', destination: { name: 'work' } });
+  });
+
+  it('keeps planning when the route cannot be saved', async () => {
+    const saved = new SavedRouteService({} as PrismaService, {} as ErrandService);
+    await expect(saved.save('u1', inp, route())).resolves.toMatchObject({ id: 'route-1' });
+  });
+
+  it('replans from the resolved destination without the old arrival windows', async () => {
+    const rows: Row[] = [];
+    const planned: NavigateWithStopsIn[] = [];
+    const errand = {
+      navigateWithStops: async (i: NavigateWithStopsIn) => {
+        planned.push(i);
+        return { route: route() };
+      },
+    } as unknown as ErrandService;
+    const saved = new SavedRouteService(fakePrisma(rows), errand);
+    await saved.save('u1', inp, route());
+
+    const again = await saved.replan('u1', 'r1', { origin: { lat: 9, lng: 9 } });
+    expect(planned[0]).toMatchObject({
+      origin: { lat: 9, lng: 9 },
+      destination: { name: 'work', location: { lat: 3, lng: 4 } },
+      stops: [{ name: 'gas', dwellMinutes: 5 }],
+      timeConstraint: { kind: 'before', time: '17:00' },
+    });
+    expect(planned[0].stops[0].latestArrival).toBeUndefined();
+    expect(again?.route.id).toBe('r2');
+    await expect(saved.replan('u2', 'r1')).resolves.toBeNull();
+  });
+});
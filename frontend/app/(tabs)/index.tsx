@@ -31,9 +31,12 @@ import {
 } from '@/components/Common';
 import { UserInputField } from '@/components/Input';
 import { ConfirmationDialog, AlternativesDialog, DEFAULT_ALTERNATIVES } from '@/components/Dialogs';
-import { errandApi, checkBackendConnectivity } from '@/services/api';
+import { errandApi, checkBackendConnectivity, useErrandTemplates } from '@/services/api';
 import type { Entities } from '@/types/nlu';
 import type { Route } from '@/types/route';
+import type { PlanStreamEvent } from '@/types/api';
+import type { ErrandTemplate } from '@/types/user';
+import { useAppSelector } from '@/redux/hooks';
 
 // Theme
 import {
@@ -54,6 +57,11 @@ const quickActions = [
   { id: '4', label: 'Get gas', icon: 'car-outline' as const },
 ];
 
+/**
+ * Plans with this many stops run as background jobs instead of one long request
+ */
+const BACKGROUND_PLAN_STOPS = 5;
+
 /**
  * Popular topics - card style suggestions
  */
@@ -134,6 +142,7 @@ export default function ConversationScreen(): JSX.Element {
     intent,
     entities,
     processUtterance,
+    streamUtterance,
     onNLUResponse,
     confirmCurrentIntent,
     rejectAndRephrase,
@@ -142,6 +151,8 @@ export default function ConversationScreen(): JSX.Element {
     shouldShowAlternatives,
   } = useNLUFlow();
   const { currentLocation, locationError, isLoading: locationLoading } = useLocation();
+  const loadingMessage = useAppSelector((state) => state.loading.globalMessage);
+  const { data: templates = [] } = useErrandTemplates();
 
   const [messages, setMessages] = useState<Message[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -156,6 +167,19 @@ export default function ConversationScreen(): JSX.Element {
     ]);
   }, []);
 
+  const presentRoute = useCallback(
+    (data: { route: Route; excludedStops?: unknown[] }) => {
+      setPending(data.route);
+      const n = data.route.stops?.length ?? 0;
+      const excl = data.excludedStops?.length;
+      appendSystem(
+        `Route ready. ${n} stop${n !== 1 ? 's' : ''}.${excl ? ` Some stops were excluded: ${excl}.` : ''}`
+      );
+      router.push('/(tabs)/route');
+    },
+    [appendSystem, setPending, router]
+  );
+
   const doNavigate = useCallback(
     async (ent: Entities, loc: { lat: number; lng: number } | null) => {
       if (navigateDoneRef.current) return;
@@ -169,11 +193,15 @@ export default function ConversationScreen(): JSX.Element {
       }
       navigateDoneRef.current = true;
       try {
-        const res = await errandApi.navigateWithStops({
+        const request = {
           origin: loc,
           destination: { name: ent.destination },
           stops: (ent.stops || []).map((s) => ({ name: s, category: ent.category })),
-        });
+        };
+        const res =
+          request.stops.length >= BACKGROUND_PLAN_STOPS
+            ? await errandApi.planInBackground(request)
+            : await errandApi.navigateWithStops(request);
         if (!res.success || res.error) {
           navigateDoneRef.current = false;
           appendSystem(res.error?.message ?? 'Could not plan the route. Please try again.');
@@ -185,19 +213,33 @@ export default function ConversationScreen(): JSX.Element {
           appendSystem('No route in response.');
           return;
         }
-        setPending(data.route);
-        const n = data.route.stops?.length ?? 0;
-        const excl = data.excludedStops?.length;
-        appendSystem(
-          `Route ready. ${n} stop${n !== 1 ? 's' : ''}.${excl ? ` Some stops were excluded: ${excl}.` : ''}`
-        );
-        router.push('/(tabs)/route');
+        presentRoute(data);
       } catch (e) {
         navigateDoneRef.current = false;
         appendSystem(e instanceof Error ? e.message : 'Could not plan the route.');
       }
     },
-    [appendSystem, setPending, router]
+    [appendSystem, presentRoute]
+  );
+
+  // Streamed planning: the server plans confident requests itself, so the
+  // HIGH confidence effect below must not plan them a second time
+  const onPlanEvent = useCallback(
+    (event: PlanStreamEvent) => {
+      switch (event.event) {
+        case 'intent':
+          if (event.data.planning) navigateDoneRef.current = true;
+          break;
+        case 'result':
+          presentRoute(event.data);
+          break;
+        case 'error':
+          navigateDoneRef.current = false;
+          appendSystem(event.data.message || 'Could not plan the route.');
+          break;
+      }
+    },
+    [appendSystem, presentRoute]
   );
 
   // HIGH confidence: navigate when we have intent, destination, and location
@@ -273,20 +315,47 @@ export default function ConversationScreen(): JSX.Element {
       navigateDoneRef.current = false;
       setIsLoading(true);
       try {
-        await processUtterance(text, currentLocation ?? undefined);
+        if (currentLocation) await streamUtterance(text, currentLocation, onPlanEvent);
+        else await processUtterance(text);
       } catch (e) {
         appendSystem(e instanceof Error ? e.message : 'Something went wrong.');
       } finally {
         setIsLoading(false);
       }
     },
-    [currentLocation, locationError, locationLoading, processUtterance, appendSystem]
+    [currentLocation, locationError, locationLoading, processUtterance, streamUtterance, onPlanEvent, appendSystem]
   );
 
   const handleQuickAction = useCallback((action: string) => {
     handleSend(action);
   }, [handleSend]);
 
+  // Saved errand templates plan directly: no parse, no confirmation
+  const handleRunTemplate = useCallback(
+    async (template: ErrandTemplate) => {
+      setMessages((prev) => [
+        ...prev,
+        { id: `user_${Date.now()}`, sender: 'user', text: template.name, timestamp: Date.now() },
+      ]);
+      if (!currentLocation) {
+        appendSystem('Please enable location services to plan your route.');
+        return;
+      }
+      setIsLoading(true);
+      try {
+        const res = await errandApi.runTemplate(template.id, {
+          origin: currentLocation,
+          utcOffsetMinutes: -new Date().getTimezoneOffset(),
+        });
+        if (res.success && res.data?.route) presentRoute(res.data);
+        else appendSystem(res.error?.message ?? 'Could not plan the route. Please try again.');
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [currentLocation, appendSystem, presentRoute]
+  );
+
   const handleConfirmThenNavigate = useCallback(() => {
     confirmCurrentIntent();
     doNavigate(entities, currentLocation);
@@ -370,6 +439,14 @@ export default function ConversationScreen(): JSX.Element {
             <Animated.View entering={FadeInUp.delay(200).duration(500)}>
               {/* Quick Action Chips */}
               <View style={styles.chipsContainer}>
+                {templates.map((template) => (
+                  <QuickActionChip
+                    key={`template_${template.id}`}
+                    label={template.name}
+                    icon="repeat-outline"
+                    onPress={() => handleRunTemplate(template)}
+                  />
+                ))}
                 {quickActions.map((action) => (
                   <QuickActionChip
                     key={action.id}
@@ -443,7 +520,7 @@ export default function ConversationScreen(): JSX.Element {
           {/* Loading Indicator */}
           {isLoading && (
             <View style={styles.thinkingContainer}>
-              <ThinkingBubble />
+              <ThinkingBubble message={loadingMessage ?? undefined} />
             </View>
           )}
         </ScrollView>
@@ -1,23 +1,25 @@
 /**
  * Route Tab - Agentic Mobile Map
  *
- * Route confirmation when pending/confirmed, else empty state.
+ * Route confirmation when pending/confirmed, else recent trips / empty state.
  * AdjustmentMode when adjusting; AddStopForm for add/replace.
  * Per requirements-frontend.md 3.1, 3.2.
  */
 
 import { useState, useCallback } from 'react';
-import { Text, StyleSheet, Alert } from 'react-native';
+import { Text, StyleSheet, Alert, ScrollView } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
 import Animated, { FadeInDown, FadeInUp } from 'react-native-reanimated';
 import { Ionicons } from '@expo/vector-icons';
 
-import { RouteConfirmationScreen } from '@/components/Route';
+import { RouteConfirmationScreen, RecentTrips } from '@/components/Route';
 import { AdjustmentMode, AddStopForm } from '@/components/Adjustment';
 import type { AddStopPlace } from '@/components/Adjustment';
-import { useRoute } from '@/hooks';
+import { useRoute, useLocation } from '@/hooks';
 import { errandApi } from '@/services/api/errand';
+import { routesApi } from '@/services/api/routes';
+import { useSavedRoutes, useReplanRoute, useDeleteSavedRoute } from '@/services/api/hooks';
 import { Colors, Spacing, FontFamily, FontSize } from '@/theme';
 import { getDetourStatus } from '@/types/route';
 import type { RouteStop } from '@/types/route';
@@ -42,6 +44,12 @@ export default function RouteScreen(): JSX.Element {
     setError,
   } = useRoute();
 
+  const { currentLocation } = useLocation();
+  const { data: recentTrips = [] } = useSavedRoutes();
+  const replanRoute = useReplanRoute();
+  const deleteSavedRoute = useDeleteSavedRoute();
+  const [busyTripId, setBusyTripId] = useState<string | null>(null);
+
   const [addStopFormVisible, setAddStopFormVisible] = useState(false);
   const [replaceContext, setReplaceContext] = useState<{ stopId: string; stopName: string } | null>(null);
 
@@ -160,6 +168,43 @@ export default function RouteScreen(): JSX.Element {
 
   const handleAddStopFormSelect = replaceContext ? handleReplaceSelect : handleAddStopSelect;
 
+  const handleOpenTrip = useCallback(async (routeId: string) => {
+    setBusyTripId(routeId);
+    try {
+      const res = await routesApi.get(routeId);
+      if (res.success && res.data?.route) setPending(res.data.route);
+      else Alert.alert('Recent trip', res.error?.message ?? 'Could not open this trip.');
+    } finally {
+      setBusyTripId(null);
+    }
+  }, [setPending]);
+
+  // Same errand from where the user is now (or the original start)
+  const handleReplanTrip = useCallback(async (routeId: string) => {
+    setBusyTripId(routeId);
+    try {
+      const data = await replanRoute.mutateAsync({
+        routeId,
+        origin: currentLocation ?? undefined,
+        utcOffsetMinutes: -new Date().getTimezoneOffset(),
+      });
+      setPending(data.route);
+      if (data.excludedStops?.length) {
+        Alert.alert('Route ready', `Some stops were excluded: ${data.excludedStops.map((s) => s.name).join(', ')}.`);
+      }
+    } catch (e) {
+      Alert.alert('Plan again', (e as { message?: string })?.message ?? 'Could not plan this trip again.');
+    } finally {
+      setBusyTripId(null);
+    }
+  }, [replanRoute, currentLocation, setPending]);
+
+  const handleDeleteTrip = useCallback((routeId: string) => {
+    deleteSavedRoute.mutate(routeId, {
+      onError: (e) => Alert.alert('Recent trip', (e as { message?: string })?.message ?? 'Could not delete this trip.'),
+    });
+  }, [deleteSavedRoute]);
+
   if (baseRoute && adjustmentMode) {
     return (
       <SafeAreaView style={styles.container} edges={['top']}>
@@ -205,6 +250,22 @@ export default function RouteScreen(): JSX.Element {
     );
   }
 
+  if (recentTrips.length > 0) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top']}>
+        <ScrollView contentContainerStyle={styles.recent}>
+          <RecentTrips
+            trips={recentTrips}
+            busyId={busyTripId}
+            onOpen={handleOpenTrip}
+            onReplan={handleReplanTrip}
+            onDelete={handleDeleteTrip}
+          />
+        </ScrollView>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <Animated.View entering={FadeInUp.duration(500).delay(100)} style={styles.empty}>
@@ -227,6 +288,9 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: Colors.dark.background,
   },
+  recent: {
+    padding: Spacing.base,
+  },
   empty: {
     flex: 1,
     alignItems: 'center',
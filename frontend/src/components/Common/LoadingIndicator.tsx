@@ -315,10 +315,17 @@ export const LoadingIndicator: React.FC<LoadingIndicatorProps> = ({
  */
 export const ThinkingBubble: React.FC<{
   style?: ViewStyle;
-}> = ({ style }) => {
+  /** Current stage, e.g. from loadingSlice */
+  message?: string;
+}> = ({ style, message }) => {
   return (
     <View style={[styles.thinkingBubble, style]}>
       <TypingIndicator size={6} color={Colors.dark.text.secondary} />
+      {message && (
+        <Text style={[styles.thinkingMessage, { color: Colors.dark.text.secondary }]}>
+          {message}
+        </Text>
+      )}
     </View>
   );
 };
@@ -371,6 +378,11 @@ const styles = StyleSheet.create({
     borderColor: Colors.effects.glassDarkBorder,
     alignSelf: 'flex-start',
   },
+  thinkingMessage: {
+    marginTop: Spacing.xs,
+    fontSize: FontSize.sm,
+    fontFamily: FontFamily.primary,
+  },
 });
 
 export default LoadingIndicator;
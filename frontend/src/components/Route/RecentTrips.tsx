@@ -0,0 +1,151 @@
+/**
+ * RecentTrips Component - Agentic Mobile Map
+ *
+ * Saved routes on the Route tab when no route is active: tap a trip to
+ * reopen it as planned, or plan the same errand again from here, now.
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+  ViewStyle,
+} from 'react-native';
+import Animated, { FadeInDown } from 'react-native-reanimated';
+import { Ionicons } from '@expo/vector-icons';
+
+import { GlassCard } from '@/components/Common';
+import { Colors, Spacing, FontFamily, FontSize } from '@/theme';
+import { formatDistance, formatDuration } from '@/types/route';
+import type { SavedRouteSummary } from '@/services/api/routes';
+
+/**
+ * RecentTrips Props
+ */
+export interface RecentTripsProps {
+  trips: SavedRouteSummary[];
+  /** Trip with a request in flight */
+  busyId?: string | null;
+  onOpen: (routeId: string) => void;
+  onReplan: (routeId: string) => void;
+  onDelete: (routeId: string) => void;
+  style?: ViewStyle;
+}
+
+/**
+ * "Today", "Yesterday" or a short date
+ */
+const formatWhen = (iso: string): string => {
+  const d = new Date(iso);
+  const startOfDay = (x: Date) => new Date(x.getFullYear(), x.getMonth(), x.getDate()).getTime();
+  const days = Math.round((startOfDay(new Date()) - startOfDay(d)) / 86400000);
+  if (days <= 0) return 'Today';
+  if (days === 1) return 'Yesterday';
+  return d.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+export const RecentTrips: React.FC<RecentTripsProps> = ({
+  trips,
+  busyId,
+  onOpen,
+  onReplan,
+  onDelete,
+  style,
+}) => {
+  if (trips.length === 0) return null;
+
+  return (
+    <View style={[styles.container, style]}>
+      <Text style={styles.title}>Recent trips</Text>
+      {trips.map((trip, index) => (
+        <Animated.View key={trip.id} entering={FadeInDown.duration(300).delay(index * 50)}>
+          <Pressable onPress={() => onOpen(trip.id)} disabled={!!busyId} accessibilityRole="button">
+            <GlassCard style={styles.card}>
+              <View style={styles.row}>
+                <View style={styles.info}>
+                  <Text style={styles.destination} numberOfLines={1}>
+                    {trip.destination.name ?? 'Destination'}
+                  </Text>
+                  <Text style={styles.meta} numberOfLines={1}>
+                    {[
+                      formatWhen(trip.createdAt),
+                      trip.stopNames.length ? trip.stopNames.join(', ') : 'No stops',
+                      formatDistance(trip.totalDistance),
+                      formatDuration(trip.totalTime),
+                    ].join(' · ')}
+                  </Text>
+                </View>
+                {busyId === trip.id ? (
+                  <ActivityIndicator color={Colors.primary.teal} />
+                ) : (
+                  <>
+                    <Pressable
+                      onPress={() => onReplan(trip.id)}
+                      disabled={!!busyId}
+                      hitSlop={8}
+                      accessibilityLabel="Plan this trip again"
+                      style={styles.action}
+                    >
+                      <Ionicons name="refresh" size={20} color={Colors.primary.teal} />
+                    </Pressable>
+                    <Pressable
+                      onPress={() => onDelete(trip.id)}
+                      disabled={!!busyId}
+                      hitSlop={8}
+                      accessibilityLabel="Delete trip"
+                      style={styles.action}
+                    >
+                      <Ionicons name="trash-outline" size={20} color={Colors.dark.text.tertiary} />
+                    </Pressable>
+                  </>
+                )}
+              </View>
+            </GlassCard>
+          </Pressable>
+        </Animated.View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  title: {
+    fontFamily: FontFamily.primary,
+    fontSize: FontSize.base,
+    fontWeight: '600',
+    color: Colors.dark.text.primary,
+    marginBottom: Spacing.sm,
+  },
+  card: {
+    marginBottom: Spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  info: {
+    flex: 1,
+  },
+  destination: {
+    fontFamily: FontFamily.primary,
+    fontSize: FontSize.base,
+    color: Colors.dark.text.primary,
+  },
+  meta: {
+    fontFamily: FontFamily.primary,
+    fontSize: FontSize.sm,
+    color: Colors.dark.text.secondary,
+    marginTop: Spacing.xs,
+  },
+  action: {
+    marginLeft: Spacing.md,
+  },
+});
+
+export default RecentTrips;
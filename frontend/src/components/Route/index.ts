@@ -21,3 +21,6 @@ export type { RouteMapProps } from './RouteMap';
 
 export { RouteConfirmationScreen } from './RouteConfirmationScreen';
 export type { RouteConfirmationScreenProps } from './RouteConfirmationScreen';
+
+export { RecentTrips } from './RecentTrips';
+export type { RecentTripsProps } from './RecentTrips';
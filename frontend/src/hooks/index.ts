@@ -8,7 +8,6 @@
 export {
   useNLUFlow,
   getConfidenceLevel,
-  CONFIDENCE_THRESHOLDS,
   type UseNLUFlowResult,
   type NLUFlowState,
 } from './useNLUFlow';
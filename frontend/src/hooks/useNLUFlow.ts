@@ -2,18 +2,19 @@
  * useNLUFlow Hook - Agentic Mobile Map
  *
  * Core hook for managing NLU confidence-based UI flows.
- * Per requirements-frontend.md Phase 2.1:
+ * Per requirements-frontend.md Phase 2.1, with thresholds from the server's
+ * per-intent policy (GET /nlu/confidence-policy; defaults shown):
  * - HIGH (≥0.80): Execute immediately, show results
  * - MEDIUM (0.60-0.79): Show confirmation dialog
  * - LOW (<0.60): Show alternatives dialog
- * - Escalation to Gemini 3.0 Pro after 2 failed attempts
+ * - Escalation to Gemini 3.0 Pro after maxRetries (2) failed attempts
  *
  * Per CLAUDE.md:
  * - Gemini 2.5 Pro handles ~85% of requests
  * - Escalates to Gemini 3.0 Pro when confidence < 0.60
  */
 
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useAppDispatch, useAppSelector } from '@/redux/hooks';
 import {
   processNLUResponse,
@@ -24,18 +25,18 @@ import {
   startEscalation,
   resetRetries,
   clearNLU,
+  setConfidencePolicy,
+  startOperation,
+  updateProgress,
+  completeOperation,
 } from '@/redux/slices';
+import { getConfidenceLevel } from '@/types/nlu';
 import type { NLUResponse, Intent, Entities, ConfidenceLevel } from '@/types/nlu';
+import type { PlanStreamEvent } from '@/types/api';
 import { errandApi } from '@/services/api/errand';
+import { useConfidencePolicy } from '@/services/api/hooks';
 
-/**
- * Confidence thresholds per requirements
- */
-export const CONFIDENCE_THRESHOLDS = {
-  HIGH: 0.80,
-  MEDIUM: 0.60,
-  MAX_RETRIES: 2,
-} as const;
+export { getConfidenceLevel };
 
 /**
  * Flow state for UI control
@@ -70,6 +71,15 @@ export interface UseNLUFlowResult {
 
   // Actions
   processUtterance: (utterance: string, currentLocation?: { lat: number; lng: number }) => Promise<void>;
+  /**
+   * Parse and, when the server is confident, plan in one streamed request.
+   * `onPlan` sees every event; progress goes to loadingSlice.
+   */
+  streamUtterance: (
+    utterance: string,
+    currentLocation: { lat: number; lng: number },
+    onPlan?: (event: PlanStreamEvent) => void
+  ) => Promise<void>;
   onNLUResponse: (response: NLUResponse) => void;
   confirmCurrentIntent: () => void;
   rejectAndRephrase: () => void;
@@ -78,21 +88,13 @@ export interface UseNLUFlowResult {
   reset: () => void;
 
   // Helpers
-  getConfidenceLevel: (score: number) => ConfidenceLevel;
+  /** Level under the policy for `intent` (default: the last intent) */
+  getConfidenceLevel: (score: number, intent?: Intent | null) => ConfidenceLevel;
   shouldShowConfirmation: () => boolean;
   shouldShowAlternatives: () => boolean;
   shouldEscalate: () => boolean;
 }
 
-/**
- * Determine confidence level from score
- */
-export const getConfidenceLevel = (score: number): ConfidenceLevel => {
-  if (score >= CONFIDENCE_THRESHOLDS.HIGH) return 'HIGH';
-  if (score >= CONFIDENCE_THRESHOLDS.MEDIUM) return 'MEDIUM';
-  return 'LOW';
-};
-
 /**
  * useNLUFlow Hook
  *
@@ -111,17 +113,35 @@ export const useNLUFlow = (): UseNLUFlowResult => {
     confirmationRequired,
     isEscalating,
     lowConfidenceRetries,
+    conversationId,
+    confidencePolicy,
   } = nluState;
+  const activeRoute = useAppSelector((state) => state.route.pending ?? state.route.confirmed);
 
   // Local flow state for UI control
   const [flowState, setFlowState] = useState<NLUFlowState>('idle');
 
+  // Server-side thresholds; the defaults apply until they load
+  const { data: serverPolicy } = useConfidencePolicy();
+  useEffect(() => {
+    if (serverPolicy) dispatch(setConfidencePolicy(serverPolicy));
+  }, [dispatch, serverPolicy]);
+
+  /**
+   * Confidence level of a score under the current intent's thresholds
+   */
+  const levelOf = useCallback(
+    (score: number, intent: Intent | null = lastIntent) =>
+      getConfidenceLevel(score, intent, confidencePolicy),
+    [lastIntent, confidencePolicy]
+  );
+
   /**
    * Calculate current confidence level
    */
   const confidenceLevel = useMemo(
-    () => getConfidenceLevel(lastConfidence ?? 0),
-    [lastConfidence]
+    () => levelOf(lastConfidence ?? 0),
+    [levelOf, lastConfidence]
   );
 
   /**
@@ -132,7 +152,7 @@ export const useNLUFlow = (): UseNLUFlowResult => {
     (response: NLUResponse) => {
       dispatch(processNLUResponse(response));
 
-      const level = getConfidenceLevel(response.confidence);
+      const level = levelOf(response.confidence, response.intent);
 
       switch (level) {
         case 'HIGH':
@@ -146,7 +166,7 @@ export const useNLUFlow = (): UseNLUFlowResult => {
           break;
 
         case 'LOW':
-          if (lowConfidenceRetries >= CONFIDENCE_THRESHOLDS.MAX_RETRIES) {
+          if (lowConfidenceRetries >= confidencePolicy.maxRetries) {
             setFlowState('escalating');
             dispatch(startEscalation());
           } else {
@@ -160,7 +180,36 @@ export const useNLUFlow = (): UseNLUFlowResult => {
         setFlowState('disambiguation_required');
       }
     },
-    [dispatch, lowConfidenceRetries]
+    [dispatch, levelOf, lowConfidenceRetries, confidencePolicy.maxRetries]
+  );
+
+  /**
+   * Conversation context sent with each utterance
+   */
+  const buildContext = useCallback(
+    () => ({
+      conversationId: conversationId ?? undefined,
+      previousIntent: lastIntent ?? undefined,
+      previousEntities: currentEntities,
+      currentRoute: activeRoute
+        ? {
+            destination: activeRoute.destination.name,
+            stops: [...activeRoute.stops]
+              .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+              .map((s) => ({
+                id: s.id,
+                name: s.name,
+                address: s.address,
+                options: [...(s.runnerUps ?? []), ...(s.alternative ? [s.alternative] : [])].map((o) => ({
+                  id: o.id,
+                  name: o.name,
+                  address: o.address,
+                })),
+              })),
+          }
+        : undefined,
+    }),
+    [conversationId, lastIntent, currentEntities, activeRoute]
   );
 
   /**
@@ -174,7 +223,7 @@ export const useNLUFlow = (): UseNLUFlowResult => {
         const res = await errandApi.processNLU({
           utterance,
           currentLocation,
-          context: undefined,
+          context: buildContext(),
         });
         if (!res.success || res.error) {
           setFlowState('error');
@@ -189,7 +238,108 @@ export const useNLUFlow = (): UseNLUFlowResult => {
         throw error instanceof Error ? error : new Error(String(error));
       }
     },
-    [onNLUResponse]
+    [onNLUResponse, buildContext]
+  );
+
+  /**
+   * Process an utterance over the streaming endpoint. The parse goes through
+   * onNLUResponse as usual; planning stages drive loadingSlice progress.
+   * Errors before the parse arrives throw like processUtterance; later ones
+   * (e.g. route over budget) reach `onPlan` as an `error` event.
+   */
+  const streamUtterance = useCallback(
+    async (
+      utterance: string,
+      currentLocation: { lat: number; lng: number },
+      onPlan?: (event: PlanStreamEvent) => void
+    ) => {
+      const opId = `plan-stream-${Date.now()}`;
+      setFlowState('processing');
+      dispatch(startOperation({ id: opId, type: 'processing', message: 'Understanding your request...' }));
+
+      let parsed = false;
+      let stopsDone = 0;
+      let stopCount = 0;
+      let streamError: string | null = null;
+
+      try {
+        const { done } = errandApi.planStream(
+          { utterance, origin: currentLocation, context: buildContext() },
+          (event) => {
+            switch (event.event) {
+              case 'intent':
+                parsed = true;
+                stopCount = event.data.response.entities.stops?.length ?? 0;
+                dispatch(
+                  updateProgress({
+                    id: opId,
+                    progress: 25,
+                    message: event.data.planning ? 'Finding your destination...' : 'Got it',
+                  })
+                );
+                onPlan?.(event);
+                onNLUResponse(event.data.response);
+                return;
+              case 'destination':
+                dispatch(
+                  updateProgress({
+                    id: opId,
+                    progress: 40,
+                    message: stopCount ? 'Finding your stops...' : 'Planning your route...',
+                  })
+                );
+                break;
+              case 'stop':
+                stopsDone += 1;
+                dispatch(
+                  updateProgress({
+                    id: opId,
+                    progress: 40 + (30 * stopsDone) / Math.max(stopCount, stopsDone),
+                    message: event.data.place ? `Found ${event.data.place.name}` : `No match for ${event.data.query}`,
+                  })
+                );
+                break;
+              case 'route':
+                dispatch(updateProgress({ id: opId, progress: 85, message: 'Checking your detour budget...' }));
+                break;
+              case 'budget':
+                dispatch(updateProgress({ id: opId, progress: 95, message: 'Finishing up...' }));
+                break;
+              case 'result':
+                dispatch(updateProgress({ id: opId, progress: 100, message: 'Route ready' }));
+                break;
+              case 'error':
+                if (!parsed) {
+                  streamError = event.data.message;
+                  return;
+                }
+                break;
+            }
+            onPlan?.(event);
+          }
+        );
+
+        const res = await done;
+        if (!res.success || streamError) {
+          if (parsed) {
+            onPlan?.({
+              event: 'error',
+              data: res.error ?? { code: 'STREAM_ERROR', message: streamError ?? 'Planning failed' },
+            });
+            return;
+          }
+          setFlowState('error');
+          throw new Error(streamError ?? res.error?.message ?? 'Could not understand. Please try again.');
+        }
+      } catch (error) {
+        setFlowState('error');
+        console.error('NLU streaming error:', error);
+        throw error instanceof Error ? error : new Error(String(error));
+      } finally {
+        dispatch(completeOperation(opId));
+      }
+    },
+    [dispatch, onNLUResponse, buildContext]
   );
 
   /**
@@ -272,9 +422,9 @@ export const useNLUFlow = (): UseNLUFlowResult => {
   const shouldEscalate = useCallback(() => {
     return (
       confidenceLevel === 'LOW' &&
-      lowConfidenceRetries >= CONFIDENCE_THRESHOLDS.MAX_RETRIES
+      lowConfidenceRetries >= confidencePolicy.maxRetries
     );
-  }, [confidenceLevel, lowConfidenceRetries]);
+  }, [confidenceLevel, lowConfidenceRetries, confidencePolicy.maxRetries]);
 
   return {
     // State
@@ -289,6 +439,7 @@ export const useNLUFlow = (): UseNLUFlowResult => {
 
     // Actions
     processUtterance,
+    streamUtterance,
     onNLUResponse,
     confirmCurrentIntent,
     rejectAndRephrase,
@@ -297,7 +448,7 @@ export const useNLUFlow = (): UseNLUFlowResult => {
     reset,
 
     // Helpers
-    getConfidenceLevel,
+    getConfidenceLevel: levelOf,
     shouldShowConfirmation,
     shouldShowAlternatives,
     shouldEscalate,
@@ -62,6 +62,7 @@ export {
   processNLUResponse,
   setIntent,
   setConfidence,
+  setConfidencePolicy,
   updateEntities,
   clearEntity,
   setConfirmationRequired,
@@ -8,11 +8,13 @@
  */
 
 import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { DEFAULT_CONFIDENCE_POLICY, getConfidenceLevel } from '@/types';
 import type {
   NLUState,
   NLUResponse,
   Intent,
   Entities,
+  ConfidencePolicy,
 } from '@/types';
 
 /**
@@ -26,6 +28,8 @@ const initialState: NLUState = {
   lowConfidenceRetries: 0,
   isEscalating: false,
   lastResponse: null,
+  conversationId: null,
+  confidencePolicy: DEFAULT_CONFIDENCE_POLICY,
 };
 
 /**
@@ -45,13 +49,15 @@ const nluSlice = createSlice({
       state.currentEntities = response.entities;
       state.lastResponse = response;
       state.isEscalating = false;
+      state.conversationId = response.conversationId ?? state.conversationId;
 
-      // Determine if confirmation is required
-      if (response.confidence >= 0.80) {
+      // Determine if confirmation is required (per-intent thresholds)
+      const level = getConfidenceLevel(response.confidence, response.intent, state.confidencePolicy);
+      if (level === 'HIGH') {
         // HIGH confidence - no confirmation needed
         state.confirmationRequired = false;
         state.lowConfidenceRetries = 0;
-      } else if (response.confidence >= 0.60) {
+      } else if (level === 'MEDIUM') {
         // MEDIUM confidence - show confirmation
         state.confirmationRequired = true;
         state.lowConfidenceRetries = 0;
@@ -74,7 +80,15 @@ const nluSlice = createSlice({
      */
     setConfidence: (state, action: PayloadAction<number>) => {
       state.lastConfidence = action.payload;
-      state.confirmationRequired = action.payload >= 0.60 && action.payload < 0.80;
+      state.confirmationRequired =
+        getConfidenceLevel(action.payload, state.lastIntent, state.confidencePolicy) === 'MEDIUM';
+    },
+
+    /**
+     * Store the server's confidence policy
+     */
+    setConfidencePolicy: (state, action: PayloadAction<ConfidencePolicy>) => {
+      state.confidencePolicy = action.payload;
     },
 
     /**
@@ -141,6 +155,7 @@ const nluSlice = createSlice({
       state.lowConfidenceRetries = 0;
       state.isEscalating = false;
       state.lastResponse = null;
+      state.conversationId = null;
     },
   },
 });
@@ -149,6 +164,7 @@ export const {
   processNLUResponse,
   setIntent,
   setConfidence,
+  setConfidencePolicy,
   updateEntities,
   clearEntity,
   setConfirmationRequired,
@@ -8,6 +8,7 @@
  * - Request/response interceptors
  * - Error normalization
  * - Retry logic for transient failures
+ * - Server-Sent Events (apiClient.stream)
  * - Offline detection
  *
  * Security:
@@ -331,6 +332,77 @@ const request = async <T>(
   };
 };
 
+/**
+ * POST that answers with Server-Sent Events; onEvent gets each event as it arrives.
+ * XMLHttpRequest rather than fetch: React Native's fetch cannot read a body incrementally.
+ * No retries, since the server may already have acted on the request.
+ */
+const stream = (
+  endpoint: string,
+  body: unknown,
+  onEvent: (event: string, data: unknown) => void,
+  options: RequestOptions = {}
+): { done: Promise<ApiResponse<void>>; cancel: () => void } => {
+  const xhr = new XMLHttpRequest();
+  let seen = 0;
+  let buffer = '';
+
+  const flush = () => {
+    buffer += xhr.responseText.slice(seen);
+    seen = xhr.responseText.length;
+    const blocks = buffer.split('\n\n');
+    buffer = blocks.pop() ?? '';
+    for (const block of blocks) {
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+      }
+      if (data.length === 0) continue;
+      try {
+        onEvent(event, JSON.parse(data.join('\n')));
+      } catch (e) {
+        console.warn('Unreadable stream event:', event, e);
+      }
+    }
+  };
+
+  const done = new Promise<ApiResponse<void>>((resolve) => {
+    xhr.open('POST', `${getBaseUrl()}${endpoint}`);
+    buildHeaders({ ...options, headers: { ...options.headers, Accept: 'text/event-stream' } }).forEach(
+      (value: string, key: string) => xhr.setRequestHeader(key, value)
+    );
+    xhr.timeout = options.timeout || API_CONFIG.DEFAULT_TIMEOUT;
+    xhr.onprogress = flush;
+    xhr.onload = () => {
+      if (xhr.status >= 400) {
+        let data: unknown = xhr.responseText;
+        try {
+          data = JSON.parse(xhr.responseText);
+        } catch {
+          // not JSON; normalizeError keeps the text
+        }
+        resolve({ success: false, error: normalizeError(data, xhr.status) });
+        return;
+      }
+      flush();
+      resolve({ success: true });
+    };
+    xhr.onerror = () =>
+      resolve({
+        success: false,
+        error: { code: 'NETWORK_ERROR', message: 'Network connection failed. Please check your internet.', status: 0 },
+      });
+    xhr.ontimeout = () =>
+      resolve({ success: false, error: { code: 'TIMEOUT', message: 'Request timed out', status: 408 } });
+    xhr.onabort = () => resolve({ success: false, error: { code: 'CANCELLED', message: 'Request cancelled', status: 0 } });
+    xhr.send(JSON.stringify(body));
+  });
+
+  return { done, cancel: () => xhr.abort() };
+};
+
 /**
  * API Client methods
  */
@@ -365,6 +437,11 @@ export const apiClient = {
   delete: <T>(endpoint: string, options?: RequestOptions) =>
     request<T>(endpoint, 'DELETE', undefined, options),
 
+  /**
+   * POST with a Server-Sent Events response
+   */
+  stream,
+
   /**
    * Set auth token (async - stores in SecureStorage)
    */
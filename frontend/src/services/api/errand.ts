@@ -6,21 +6,30 @@
  * - POST /api/v1/errand/navigate-with-stops (main endpoint)
  * - GET /api/v1/errand/suggest-stops-on-route (suggestions)
  * - POST /api/escalate-to-llm (low confidence fallback)
+ * - GET /api/v1/nlu/confidence-policy (per-intent thresholds)
+ * - POST /api/v1/errand/plan/stream (parse + plan with progress events)
+ * - POST /api/v1/errand/templates/:id/run (plan an errand template)
+ * - POST /api/v1/errand/jobs, GET /api/v1/errand/jobs/:id (background planning)
  */
 
 import { apiClient } from './client';
 import type {
   NavigateWithStopsRequest,
   NavigateWithStopsResponse,
+  NavigateWithStopsData,
   SuggestStopsRequest,
   SuggestStopsData,
   EscalateToLLMRequest,
   EscalateToLLMResponse,
   NLUProcessRequest,
   NLUProcessResponse,
+  PlanStreamRequest,
+  PlanStreamEvent,
+  RouteJob,
   ApiResponse,
 } from '@/types/api';
-import type { Route } from '@/types/route';
+import type { ConfidencePolicy } from '@/types/nlu';
+import type { LatLng, Route } from '@/types/route';
 
 /**
  * Errand API endpoints
@@ -41,6 +50,75 @@ export const errandApi = {
     );
   },
 
+  /**
+   * Submit a plan as a background job
+   * POST /api/v1/errand/jobs
+   */
+  submitRouteJob: async (request: NavigateWithStopsRequest): Promise<ApiResponse<RouteJob>> => {
+    return apiClient.post<RouteJob>('/errand/jobs', request);
+  },
+
+  /**
+   * Poll a background plan
+   * GET /api/v1/errand/jobs/:jobId
+   */
+  getRouteJob: async (jobId: string): Promise<ApiResponse<RouteJob>> => {
+    return apiClient.get<RouteJob>(`/errand/jobs/${jobId}`);
+  },
+
+  /**
+   * Plan in the background and poll until the job finishes. Same result as
+   * navigateWithStops, without holding one request open for the whole plan.
+   */
+  planInBackground: async (
+    request: NavigateWithStopsRequest,
+    onProgress?: (progress: RouteJob['progress']) => void,
+    options: { pollIntervalMs?: number; timeoutMs?: number } = {}
+  ): Promise<ApiResponse<NavigateWithStopsData>> => {
+    const { pollIntervalMs = 1000, timeoutMs = 5 * 60 * 1000 } = options;
+    const submitted = await errandApi.submitRouteJob(request);
+    if (!submitted.success || !submitted.data) {
+      return { success: false, error: submitted.error };
+    }
+    const deadline = Date.now() + timeoutMs;
+    let job = submitted.data;
+    while (job.status === 'waiting' || job.status === 'active') {
+      if (Date.now() > deadline) {
+        return {
+          success: false,
+          error: { code: 'TIMEOUT', message: 'Planning is taking too long. Please try again.' },
+        };
+      }
+      await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+      const polled = await errandApi.getRouteJob(job.id);
+      if (!polled.success || !polled.data) {
+        return { success: false, error: polled.error };
+      }
+      job = polled.data;
+      onProgress?.(job.progress);
+    }
+    if (job.status === 'failed' || !job.result) {
+      return {
+        success: false,
+        error: { code: 'SERVER_ERROR', message: job.error ?? 'Could not plan the route.' },
+      };
+    }
+    return { success: true, data: job.result };
+  },
+
+  /**
+   * Plan a saved errand template from the current location
+   * POST /api/v1/errand/templates/:templateId/run
+   */
+  runTemplate: async (
+    templateId: string,
+    request: { origin: LatLng; departureTime?: string; utcOffsetMinutes?: number }
+  ): Promise<ApiResponse<NavigateWithStopsData>> => {
+    return apiClient.post<NavigateWithStopsData>(`/errand/templates/${templateId}/run`, request, {
+      timeout: 60000, // Same work as navigate-with-stops
+    });
+  },
+
   /**
    * Get stop suggestions for a route
    * GET /api/v1/errand/suggest-stops-on-route
@@ -82,6 +160,30 @@ export const errandApi = {
     });
   },
 
+  /**
+   * Parse an utterance and plan the route it asks for, reporting each stage
+   * POST /api/v1/errand/plan/stream (Server-Sent Events)
+   */
+  planStream: (
+    request: PlanStreamRequest,
+    onEvent: (event: PlanStreamEvent) => void
+  ): { done: Promise<ApiResponse<void>>; cancel: () => void } => {
+    return apiClient.stream(
+      '/errand/plan/stream',
+      request,
+      (event, data) => onEvent({ event, data } as PlanStreamEvent),
+      { timeout: 60000 } // NLU plus Places and Routes calls
+    );
+  },
+
+  /**
+   * Confidence thresholds and per-intent rules
+   * GET /api/v1/nlu/confidence-policy
+   */
+  getConfidencePolicy: async (): Promise<ApiResponse<ConfidencePolicy>> => {
+    return apiClient.get<ConfidencePolicy>('/nlu/confidence-policy');
+  },
+
   /**
    * Escalate to advanced LLM (Gemini 3.0 Pro)
    * POST /api/escalate-to-llm
@@ -1,14 +1,17 @@
 /**
  * TanStack Query hooks for API calls.
- * Pattern hooks: useAnchors (useQuery), useNavigateWithStops (useMutation).
+ * Pattern hooks: useAnchors, useErrandTemplates, useConfidencePolicy, useSavedRoutes (useQuery),
+ * useNavigateWithStops, useReplanRoute, useDeleteSavedRoute (useMutation).
  */
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { queryKeys } from './queryKeys';
 import { userApi } from './user';
 import { errandApi } from './errand';
+import { routesApi, type SavedRouteSummary, type ReplanRouteRequest } from './routes';
 import type { NavigateWithStopsRequest, NavigateWithStopsData } from '@/types/api';
-import type { Anchor } from '@/types/user';
+import type { ConfidencePolicy } from '@/types/nlu';
+import type { Anchor, ErrandTemplate } from '@/types/user';
 
 export function useAnchors() {
   return useQuery({
@@ -22,6 +25,42 @@ export function useAnchors() {
   });
 }
 
+export function useErrandTemplates() {
+  return useQuery({
+    queryKey: queryKeys.templates(),
+    queryFn: async (): Promise<ErrandTemplate[]> => {
+      const res = await userApi.getTemplates();
+      if (!res.success) throw res.error;
+      return res.data?.templates ?? [];
+    },
+    staleTime: 10 * 60 * 1000, // 10 min
+  });
+}
+
+export function useConfidencePolicy() {
+  return useQuery({
+    queryKey: queryKeys.confidencePolicy(),
+    queryFn: async (): Promise<ConfidencePolicy> => {
+      const res = await errandApi.getConfidencePolicy();
+      if (!res.success || !res.data) throw res.error;
+      return res.data;
+    },
+    staleTime: 60 * 60 * 1000, // 1 h; changes only with a server deploy
+  });
+}
+
+export function useSavedRoutes(limit = 20) {
+  return useQuery({
+    queryKey: queryKeys.savedRoutesPage(limit, 0),
+    queryFn: async (): Promise<SavedRouteSummary[]> => {
+      const res = await routesApi.list(limit, 0);
+      if (!res.success) throw res.error;
+      return res.data?.routes ?? [];
+    },
+    staleTime: 60 * 1000, // 1 min; every plan adds one
+  });
+}
+
 export function useNavigateWithStops() {
   const qc = useQueryClient();
   return useMutation({
@@ -35,3 +74,30 @@ export function useNavigateWithStops() {
     },
   });
 }
+
+export function useReplanRoute() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ routeId, ...body }: ReplanRouteRequest & { routeId: string }): Promise<NavigateWithStopsData> => {
+      const res = await routesApi.replan(routeId, body);
+      if (!res.success || !res.data) throw res.error;
+      return res.data;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: queryKeys.savedRoutes() });
+    },
+  });
+}
+
+export function useDeleteSavedRoute() {
+  const qc = useQueryClient();
+  return useMutation({
+    mutationFn: async (routeId: string): Promise<void> => {
+      const res = await routesApi.delete(routeId);
+      if (!res.success) throw res.error;
+    },
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: queryKeys.savedRoutes() });
+    },
+  });
+}
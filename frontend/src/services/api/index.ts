@@ -11,7 +11,15 @@ export { apiClient, setAuthToken, getAuthToken, checkBackendConnectivity } from
 export { queryKeys } from './queryKeys';
 
 // TanStack Query hooks
-export { useAnchors, useNavigateWithStops } from './hooks';
+export {
+  useAnchors,
+  useErrandTemplates,
+  useConfidencePolicy,
+  useSavedRoutes,
+  useNavigateWithStops,
+  useReplanRoute,
+  useDeleteSavedRoute,
+} from './hooks';
 
 // Errand API (route planning)
 export { errandApi } from './errand';
@@ -26,12 +34,21 @@ export {
   type PlaceDetailsResponse,
 } from './places';
 
+// Saved routes API (recent trips, replan)
+export {
+  routesApi,
+  type SavedRouteSummary,
+  type SavedRoutesResponse,
+  type ReplanRouteRequest,
+} from './routes';
+
 // User API (profile, anchors, preferences)
 export {
   userApi,
   type UserProfileResponse,
   type AnchorsResponse,
   type SaveAnchorRequest,
+  type SaveTemplateRequest,
 } from './user';
 
 /**
@@ -41,4 +58,5 @@ export const api = {
   errand: require('./errand').errandApi,
   places: require('./places').placesApi,
   user: require('./user').userApi,
+  routes: require('./routes').routesApi,
 };
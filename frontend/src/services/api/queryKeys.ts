@@ -9,6 +9,13 @@ export const queryKeys = {
   all,
 
   anchors: () => [...all, 'anchors'] as const,
+  templates: () => [...all, 'templates'] as const,
+
+  confidencePolicy: () => [...all, 'nlu', 'confidence-policy'] as const,
+
+  savedRoutes: () => [...all, 'routes'] as const,
+  savedRoutesPage: (limit?: number, offset?: number) =>
+    [...all, 'routes', { limit, offset }] as const,
 
   profile: () => [...all, 'user', 'profile'] as const,
   preferences: () => [...all, 'user', 'preferences'] as const,
@@ -0,0 +1,91 @@
+/**
+ * Saved Routes API Service - Agentic Mobile Map
+ *
+ * Every route the backend plans is saved for the user.
+ * - GET /api/v1/routes (recent trips)
+ * - GET /api/v1/routes/:id (reopen a route)
+ * - DELETE /api/v1/routes/:id
+ * - POST /api/v1/routes/:id/replan (same errand, planned now)
+ */
+
+import { apiClient } from './client';
+import type { ApiResponse, NavigateWithStopsData } from '@/types/api';
+import type { LatLng, Route } from '@/types/route';
+
+/**
+ * One entry in the recent trips list
+ */
+export interface SavedRouteSummary {
+  id: string;
+  origin: LatLng;
+  destination: { name?: string; location: LatLng };
+  stopNames: string[];
+  /** Miles */
+  totalDistance: number;
+  /** Minutes */
+  totalTime: number;
+  /** Share of the detour budget left unused, 0-1 */
+  optimizationScore?: number;
+  /** ISO 8601 */
+  createdAt: string;
+}
+
+/**
+ * Saved routes response
+ */
+export interface SavedRoutesResponse {
+  routes: SavedRouteSummary[];
+  total: number;
+}
+
+/**
+ * Replan request; every field defaults to the saved route or now
+ */
+export interface ReplanRouteRequest {
+  origin?: LatLng;
+  /** ISO 8601 */
+  departureTime?: string;
+  utcOffsetMinutes?: number;
+}
+
+/**
+ * Saved routes endpoints
+ */
+export const routesApi = {
+  /**
+   * Recent routes, newest first
+   * GET /api/v1/routes
+   */
+  list: async (limit = 20, offset = 0): Promise<ApiResponse<SavedRoutesResponse>> => {
+    return apiClient.get<SavedRoutesResponse>(`/routes?limit=${limit}&offset=${offset}`);
+  },
+
+  /**
+   * A saved route as it was planned
+   * GET /api/v1/routes/:routeId
+   */
+  get: async (routeId: string): Promise<ApiResponse<{ route: Route }>> => {
+    return apiClient.get<{ route: Route }>(`/routes/${routeId}`);
+  },
+
+  /**
+   * Delete a saved route
+   * DELETE /api/v1/routes/:routeId
+   */
+  delete: async (routeId: string): Promise<ApiResponse<void>> => {
+    return apiClient.delete<void>(`/routes/${routeId}`);
+  },
+
+  /**
+   * Plan a saved errand again with current traffic and opening hours
+   * POST /api/v1/routes/:routeId/replan
+   */
+  replan: async (
+    routeId: string,
+    request: ReplanRouteRequest = {}
+  ): Promise<ApiResponse<NavigateWithStopsData>> => {
+    return apiClient.post<NavigateWithStopsData>(`/routes/${routeId}/replan`, request, {
+      timeout: 60000, // Same work as navigate-with-stops
+    });
+  },
+};
@@ -4,11 +4,12 @@
  * API endpoints for user management and anchors.
  * Per requirements-frontend.md Key Integration Points:
  * - GET /api/v1/user/anchors (fetch saved locations)
+ * - /api/v1/user/templates (errand templates)
  */
 
 import { apiClient } from './client';
 import type { ApiResponse } from '@/types/api';
-import type { Anchor, UserPreferences } from '@/types/user';
+import type { Anchor, ErrandTemplate, UserPreferences } from '@/types/user';
 
 /**
  * User profile response
@@ -42,6 +43,19 @@ export interface SaveAnchorRequest {
   type?: 'home' | 'work' | 'gym' | 'custom';
 }
 
+/**
+ * Create/update errand template request
+ */
+export interface SaveTemplateRequest {
+  name: string;
+  /** anchorId or name */
+  destination: { anchorId?: string; name?: string };
+  stops: ErrandTemplate['stops'];
+  preferences?: ErrandTemplate['preferences'];
+  /** null (on update) removes the recurrence */
+  recurrence?: ErrandTemplate['recurrence'] | null;
+}
+
 /**
  * User API endpoints
  */
@@ -91,6 +105,46 @@ export const userApi = {
     return apiClient.delete<void>(`/user/anchors/${anchorId}`);
   },
 
+  /**
+   * Get errand templates, soonest recurrence first
+   * GET /api/v1/user/templates
+   */
+  getTemplates: async (): Promise<ApiResponse<{ templates: ErrandTemplate[] }>> => {
+    const utcOffsetMinutes = -new Date().getTimezoneOffset();
+    return apiClient.get<{ templates: ErrandTemplate[] }>(
+      `/user/templates?utcOffsetMinutes=${utcOffsetMinutes}`
+    );
+  },
+
+  /**
+   * Save a new errand template
+   * POST /api/v1/user/templates
+   */
+  createTemplate: async (
+    request: SaveTemplateRequest
+  ): Promise<ApiResponse<ErrandTemplate>> => {
+    return apiClient.post<ErrandTemplate>('/user/templates', request);
+  },
+
+  /**
+   * Update an errand template
+   * PUT /api/v1/user/templates/:templateId
+   */
+  updateTemplate: async (
+    templateId: string,
+    request: Partial<SaveTemplateRequest>
+  ): Promise<ApiResponse<ErrandTemplate>> => {
+    return apiClient.put<ErrandTemplate>(`/user/templates/${templateId}`, request);
+  },
+
+  /**
+   * Delete an errand template
+   * DELETE /api/v1/user/templates/:templateId
+   */
+  deleteTemplate: async (templateId: string): Promise<ApiResponse<void>> => {
+    return apiClient.delete<void>(`/user/templates/${templateId}`);
+  },
+
   /**
    * Get user preferences
    * GET /api/v1/user/preferences
@@ -116,11 +170,19 @@ export const userApi = {
   getHistory: async (request?: {
     limit?: number;
     offset?: number;
+    conversationId?: string;
+    intent?: string;
   }): Promise<
     ApiResponse<{
       conversations: Array<{
         id: string;
+        conversationId: string | null;
+        turn: number;
         utterance: string;
+        intent: string;
+        confidence: number;
+        agent: string | null;
+        routeId: string | null;
         response: string;
         timestamp: string;
         route?: {
@@ -135,6 +197,8 @@ export const userApi = {
     const params = new URLSearchParams();
     if (request?.limit) params.set('limit', request.limit.toString());
     if (request?.offset) params.set('offset', request.offset.toString());
+    if (request?.conversationId) params.set('conversationId', request.conversationId);
+    if (request?.intent) params.set('intent', request.intent);
 
     const queryString = params.toString();
     return apiClient.get(`/user/history${queryString ? `?${queryString}` : ''}`);
@@ -5,7 +5,7 @@
  * Per CLAUDE.md Core API Endpoints
  */
 
-import { Entities, Intent, NLUResponse } from './nlu';
+import { Entities, Intent, NLUResponse, TimeConstraint } from './nlu';
 import { Route, RouteStop, LatLng } from './route';
 import { Anchor, UserPreferences } from './user';
 
@@ -71,6 +71,16 @@ export interface ProcessUtteranceRequest {
     previousIntent?: Intent;
     previousEntities?: Entities;
     conversationId?: string;
+    /** Route on screen, so "the one on Main St" can be resolved */
+    currentRoute?: {
+      destination?: string;
+      stops: Array<{
+        id: string;
+        name: string;
+        address?: string;
+        options?: Array<{ id: string; name: string; address?: string }>;
+      }>;
+    };
   };
 }
 
@@ -136,8 +146,18 @@ export interface NavigateWithStopsRequest {
   stops: Array<{
     name: string;
     category?: string;
+    /** From NLU stopDetails; only this chain qualifies */
+    brand?: string;
   }>;
   preferences?: Partial<UserPreferences>;
+  /** NLU entities that shape the plan */
+  orderPreference?: Entities['orderPreference'];
+  radius?: number;
+  timeConstraint?: TimeConstraint;
+  /** Minutes east of UTC, i.e. -new Date().getTimezoneOffset() */
+  utcOffsetMinutes?: number;
+  /** Links the built route to the NLU turn that asked for it. */
+  conversationId?: string;
 }
 
 export interface NavigateWithStopsData {
@@ -153,6 +173,68 @@ export interface NavigateWithStopsData {
 
 export type NavigateWithStopsResponse = ApiResponse<NavigateWithStopsData>;
 
+/**
+ * POST /api/v1/errand/jobs, GET /api/v1/errand/jobs/:id
+ * navigate-with-stops run in the background, for plans too slow to wait on
+ */
+export interface RouteJob {
+  id: string;
+  status: 'waiting' | 'active' | 'completed' | 'failed';
+  progress: {
+    /** 0-100 */
+    percent: number;
+    stage?: 'destination' | 'stop' | 'route' | 'budget';
+  };
+  /** Present once completed */
+  result?: NavigateWithStopsData;
+  /** Present once failed */
+  error?: string;
+  createdAt: string;
+}
+
+/**
+ * POST /api/v1/errand/plan/stream (Server-Sent Events)
+ * Parse an utterance and, when it asks for a route, plan it with staged progress
+ */
+export interface PlanStreamRequest {
+  utterance: string;
+  /** Current location; the route starts here */
+  origin: LatLng;
+  context?: ProcessUtteranceRequest['context'];
+  preferences?: Record<string, unknown>;
+  /** ISO 8601; defaults to now */
+  departureTime?: string;
+  utcOffsetMinutes?: number;
+}
+
+/**
+ * Stream events in arrival order: intent, then (when planning) destination,
+ * one stop per requested stop, route, budget and result; done ends the stream
+ */
+export type PlanStreamEvent =
+  | { event: 'intent'; data: { response: NLUResponse; planning: boolean } }
+  | {
+      event: 'destination';
+      data: { name: string; location: LatLng; source: 'request' | 'anchor' | 'geocode' | 'places' };
+    }
+  | {
+      event: 'stop';
+      data: {
+        query: string;
+        place?: { id: string; name: string; address?: string; location: LatLng };
+        /** Why the stop was dropped */
+        reason?: string;
+      };
+    }
+  | { event: 'route'; data: { distanceM: number; durationMin: number; stopCount: number } }
+  | {
+      event: 'budget';
+      data: { totalM: number; usedM: number; totalMin?: number; usedMin: number; withinBudget: boolean };
+    }
+  | { event: 'result'; data: NavigateWithStopsData }
+  | { event: 'error'; data: ApiError }
+  | { event: 'done'; data: { planned: boolean } };
+
 /**
  * GET /api/v1/errand/suggest-stops-on-route
  * Proactive route suggestions
@@ -6,9 +6,11 @@
  * Per requirements-frontend.md Phase 2.1
  */
 
+import { DetourStatus } from './route';
+
 /**
  * Confidence level thresholds
- * Per CLAUDE.md Three-Tier Confidence System
+ * Fallback until the server policy (GET /nlu/confidence-policy) has loaded.
  */
 export const ConfidenceThreshold = {
   HIGH: 0.80,    // Execute immediately
@@ -22,11 +24,45 @@ export const ConfidenceThreshold = {
 export type ConfidenceLevel = 'HIGH' | 'MEDIUM' | 'LOW';
 
 /**
- * Get confidence level from score
+ * Thresholds for one intent
+ */
+export interface IntentPolicy {
+  /** At or above: execute */
+  high: number;
+  /** At or above (below high): confirm; below: alternatives / escalate */
+  medium: number;
+  /** Confirm even at high confidence */
+  alwaysConfirm?: boolean;
+}
+
+/**
+ * Server-side confidence policy (GET /nlu/confidence-policy)
+ */
+export interface ConfidencePolicy {
+  default: IntentPolicy;
+  /** Every intent, defaults filled in */
+  intents: Partial<Record<Intent, IntentPolicy>>;
+  /** Low-confidence retries before escalating */
+  maxRetries: number;
+}
+
+export const DEFAULT_CONFIDENCE_POLICY: ConfidencePolicy = {
+  default: { high: ConfidenceThreshold.HIGH, medium: ConfidenceThreshold.MEDIUM },
+  intents: {},
+  maxRetries: 2,
+};
+
+/**
+ * Get confidence level from score, using the intent's thresholds when a policy is given
  */
-export const getConfidenceLevel = (score: number): ConfidenceLevel => {
-  if (score >= ConfidenceThreshold.HIGH) return 'HIGH';
-  if (score >= ConfidenceThreshold.MEDIUM) return 'MEDIUM';
+export const getConfidenceLevel = (
+  score: number,
+  intent?: Intent | null,
+  policy: ConfidencePolicy = DEFAULT_CONFIDENCE_POLICY
+): ConfidenceLevel => {
+  const p = (intent && policy.intents[intent]) || policy.default;
+  if (score >= p.high) return p.alwaysConfirm ? 'MEDIUM' : 'HIGH';
+  if (score >= p.medium) return 'MEDIUM';
   return 'LOW';
 };
 
@@ -47,6 +83,31 @@ export type Intent =
   | 'cancel'                  // Cancel: "Never mind", "Cancel"
   | 'unknown';                // Could not determine intent
 
+export interface TimeConstraint {
+  kind: 'before' | 'after';
+  /** HH:mm in the user's local time */
+  time: string;
+}
+
+/**
+ * One choice for an ambiguous place or anchor reference.
+ * Shaped like DisambiguationDialog's PlaceCandidate (distances in miles).
+ */
+export interface DisambiguationCandidate {
+  id: string;
+  name: string;
+  address: string;
+  source: 'anchor' | 'place';
+  /** Straight-line miles from the current location */
+  distance?: number;
+  /** Stops only: estimated extra miles versus driving straight to the destination */
+  detourCost?: number;
+  detourStatus?: DetourStatus;
+  rating?: number;
+  reviewCount?: number;
+  isOpen?: boolean;
+}
+
 /**
  * Entity types extracted from utterances
  */
@@ -55,26 +116,39 @@ export interface Entities {
   destination?: string;
   /** List of requested stops */
   stops?: string[];
-  /** Search radius preference */
+  /** Search radius in meters ("within a mile" → 1609) */
   radius?: number;
-  /** Specific place name */
+  /** Specific place name (brand, e.g. "Shell") */
   placeName?: string;
-  /** Place category (coffee, gas, grocery) */
+  /** Place category (coffee, gas station, grocery store) */
   category?: string;
   /** Anchor reference (home, work) */
   anchorReference?: string;
-  /** Time constraint */
-  timeConstraint?: string;
+  /** Time constraint ("before 5" → { kind: 'before', time: '17:00' }, local time) */
+  timeConstraint?: TimeConstraint;
   /** Order preference (nearest, fastest) */
-  orderPreference?: 'nearest' | 'fastest' | 'cheapest';
+  orderPreference?: 'nearest' | 'fastest';
+  /** Brand and category per stop, in `stops` order */
+  stopDetails?: Array<{ name: string; brand?: string; category?: string }>;
   /** Selected place ID after disambiguation */
   selectedPlaceId?: string;
-  /** Disambiguation candidates (when multiple matches) */
-  disambiguationCandidates?: Array<{
-    id: string;
-    name: string;
-    address: string;
+  /** remove_stop: route stops the user referred to ("skip the second stop") */
+  removeStopIds?: string[];
+  /** modify_route: swap a route stop for one of its options ("make it the one on Main St") */
+  replaceStop?: {
+    stopId: string;
+    place: { id: string; name: string; address?: string };
+  };
+  /** The advanced agent found the request ambiguous */
+  disambiguationNeeded?: boolean;
+  /** Every ambiguous reference, destination first, each with its ranked candidates */
+  disambiguation?: Array<{
+    type: 'destination' | 'stop';
+    query: string;
+    candidates: DisambiguationCandidate[];
   }>;
+  /** Candidates for the first ambiguous reference (when multiple matches) */
+  disambiguationCandidates?: DisambiguationCandidate[];
 }
 
 /**
@@ -87,12 +161,14 @@ export interface NLUResponse {
   confidence: number;
   /** Extracted entities */
   entities: Entities;
-  /** Which agent processed this (fast or advanced) */
-  agent: 'fast' | 'advanced';
+  /** Which agent processed this (fast, advanced, or the local rule-based parser) */
+  agent: 'fast' | 'advanced' | 'local';
   /** Raw utterance */
   utterance: string;
   /** Processing time in ms */
   processingTime: number;
+  /** Send back as context.conversationId so follow-ups build on this turn */
+  conversationId?: string;
 }
 
 /**
@@ -113,6 +189,10 @@ export interface NLUState {
   isEscalating: boolean;
   /** Last NLU response for reference */
   lastResponse: NLUResponse | null;
+  /** Backend conversation this session's turns belong to */
+  conversationId: string | null;
+  /** Thresholds from the server; DEFAULT_CONFIDENCE_POLICY until loaded */
+  confidencePolicy: ConfidencePolicy;
 }
 
 /**
@@ -126,6 +206,8 @@ export const initialNLUState: NLUState = {
   lowConfidenceRetries: 0,
   isEscalating: false,
   lastResponse: null,
+  conversationId: null,
+  confidencePolicy: DEFAULT_CONFIDENCE_POLICY,
 };
 
 /**
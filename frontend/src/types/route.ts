@@ -45,6 +45,33 @@ export interface RouteStop {
   isOpen?: boolean;
   /** Order in the optimized route (1-based) */
   order?: number;
+  /** Estimated arrival (epoch ms) */
+  arrivalTime?: number;
+  /** Requested arrival window (epoch ms) */
+  timeWindow?: {
+    earliest?: number;
+    latest?: number;
+  };
+  /** False when the estimated arrival misses timeWindow.latest */
+  timeWindowMet?: boolean;
+  /** Opening hours checked against arrivalTime */
+  openStatus?: 'OPEN' | 'CLOSED_ON_ARRIVAL' | 'UNKNOWN';
+  /** Open place in the same category, offered when closed on arrival */
+  alternative?: {
+    id: string;
+    name: string;
+    address?: string;
+    location: LatLng;
+    rating?: number;
+  };
+  /** Other places matching the same request, best first ("use a different Starbucks") */
+  runnerUps?: Array<{
+    id: string;
+    name: string;
+    address?: string;
+    location: LatLng;
+    rating?: number;
+  }>;
 }
 
 /**
@@ -104,6 +131,9 @@ export interface Route {
     total: number;       // meters
     used: number;        // meters
     remaining: number;   // meters
+    totalMin?: number;     // minutes
+    usedMin?: number;      // minutes
+    remainingMin?: number; // minutes
   };
   /** Timestamp when route was created */
   createdAt: number;
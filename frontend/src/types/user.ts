@@ -29,6 +29,48 @@ export interface Anchor {
   createdAt: number;
 }
 
+/**
+ * Day of the week in a recurrence rule
+ */
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+/**
+ * Weekly recurrence ("every Saturday at 9")
+ */
+export interface RecurrenceRule {
+  days: Weekday[];
+  /** Local "HH:mm"; defaults to 09:00 */
+  time?: string;
+}
+
+/**
+ * One stop query in an errand template
+ */
+export interface TemplateStop {
+  name: string;
+  category?: string;
+  brand?: string;
+  dwellMinutes?: number;
+}
+
+/**
+ * Saved errand list, run in one tap or by name ("do my Saturday run")
+ */
+export interface ErrandTemplate {
+  id: string;
+  name: string;
+  /** A saved anchor, or a name resolved when the template runs */
+  destination: { anchorId?: string; name: string };
+  /** In the order the user listed them */
+  stops: TemplateStop[];
+  preferences?: Partial<Pick<UserPreferences, 'maxDetourPercentage' | 'maxDetourMinutes'>>;
+  recurrence?: RecurrenceRule;
+  /** ISO 8601 */
+  nextRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 /**
  * Place category preferences
  */